@@ -12,6 +12,7 @@ export interface ServerConfig {
     value: string;
   };
   timeoutMs: number;
+  apiKey?: string;
 }
 
 export interface ApiClient {
@@ -73,10 +74,14 @@ export function validateConfig(): ServerConfig {
     process.exit(1);
   }
 
+  // Optional: required only when the backend runs with API_KEYS_REQUIRED=true
+  const apiKey = process.env.PSYMETRIC_API_KEY || undefined;
+
   return {
     baseUrl,
     projectScope,
     timeoutMs,
+    apiKey,
   };
 }
 
@@ -98,6 +103,10 @@ export function createApiClient(config: ServerConfig): ApiClient {
           ...((init?.headers as Record<string, string>) ?? {}),
         };
 
+        if (config.apiKey) {
+          headers["x-api-key"] = config.apiKey;
+        }
+
         // Skip project headers for list_projects (global endpoint)
         if (!path.startsWith("/api/projects?") && path !== "/api/projects") {
           if (config.projectScope.type === "id") {
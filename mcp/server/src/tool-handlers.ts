@@ -212,6 +212,7 @@ async function handleGetEntity(
 
 /**
  * get_entity_graph: GET /api/entities/:id/graph
+ * (GET /api/entities/:id/graph/path when pathTo is given)
  */
 async function handleGetEntityGraph(
   args: Record<string, unknown>,
@@ -227,17 +228,32 @@ async function handleGetEntityGraph(
   const queryParams: Record<string, unknown> = {};
   if (args.depth !== undefined) {
     const depth = Number(args.depth);
-    if (depth !== 1 && depth !== 2) {
-      throw new McpError(ErrorCode.InvalidParams, "depth must be 1 or 2");
+    if (!Number.isInteger(depth) || depth < 1 || depth > 6) {
+      throw new McpError(ErrorCode.InvalidParams, "depth must be an integer from 1 to 6");
     }
     queryParams.depth = depth;
   }
+  if (args.maxNodes !== undefined) {
+    const maxNodes = Number(args.maxNodes);
+    if (!Number.isInteger(maxNodes) || maxNodes < 2 || maxNodes > 500) {
+      throw new McpError(ErrorCode.InvalidParams, "maxNodes must be an integer from 2 to 500");
+    }
+    queryParams.maxNodes = maxNodes;
+  }
   if (args.relationshipTypes) {
     queryParams.relationshipTypes = args.relationshipTypes;
   }
 
+  let path = `/api/entities/${entityId}/graph`;
+  if (args.pathTo !== undefined) {
+    const pathTo = String(args.pathTo);
+    validateUuid(pathTo, "pathTo");
+    queryParams.to = pathTo;
+    path = `${path}/path`;
+  }
+
   const queryString = buildQueryString(queryParams);
-  const response = await apiClient.fetch(`/api/entities/${entityId}/graph${queryString}`);
+  const response = await apiClient.fetch(`${path}${queryString}`);
 
   if (!response.ok) {
     await handleApiError(response);
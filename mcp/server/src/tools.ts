@@ -88,7 +88,7 @@ export const toolDefinitions = [
   {
     name: "get_entity_graph",
     description:
-      "Retrieve an entity with its relationship graph up to a specified depth. Returns relationships in reverse chronological order.",
+      "Retrieve an entity with its relationship graph up to a specified depth (bounded breadth-first, with a node budget; `truncated` is set when the budget is hit). With pathTo, instead returns the shortest relationship path from the entity to that node.",
     inputSchema: {
       type: "object",
       properties: {
@@ -99,8 +99,23 @@ export const toolDefinitions = [
         },
         depth: {
           type: "number",
-          enum: [1, 2],
-          description: "Graph traversal depth (default 1, max 2)",
+          minimum: 1,
+          maximum: 6,
+          description:
+            "Graph traversal depth (default 1, max 6). With pathTo: maximum path length in hops (default 6)",
+        },
+        maxNodes: {
+          type: "number",
+          minimum: 2,
+          maximum: 500,
+          description:
+            "Node budget, root included (default 100, max 500). Applies at every depth, including 1: a root with more than 99 neighbours returns only the first 99 (newest relations first) unless maxNodes is raised; check `truncated`",
+        },
+        pathTo: {
+          type: "string",
+          description:
+            "UUID of a target entity, source item, distribution event or video. Returns the shortest path instead of the graph",
+          pattern: "^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$",
         },
         relationshipTypes: {
           type: "string",
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "public"."EventLog" ADD COLUMN "actorId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."ApiKey" (
+    "id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "keyPrefix" TEXT NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "actorType" "public"."ActorType" NOT NULL,
+    "projectIds" UUID[] DEFAULT ARRAY[]::UUID[],
+    "allProjects" BOOLEAN NOT NULL DEFAULT false,
+    "revokedAt" TIMESTAMP(3),
+    "lastUsedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ApiKey_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApiKey_keyHash_key" ON "public"."ApiKey"("keyHash");
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "public"."EntityRevision" (
+    "id" UUID NOT NULL,
+    "projectId" UUID NOT NULL,
+    "entityId" UUID NOT NULL,
+    "revisionNumber" INTEGER NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "changedFields" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "actor" "public"."ActorType" NOT NULL,
+    "actorId" TEXT,
+    "restoredFromRevision" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EntityRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EntityRevision_entityId_revisionNumber_key" ON "public"."EntityRevision"("entityId", "revisionNumber");
+
+-- CreateIndex
+CREATE INDEX "EntityRevision_projectId_createdAt_idx" ON "public"."EntityRevision"("projectId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."EntityRevision" ADD CONSTRAINT "EntityRevision_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."EntityRevision" ADD CONSTRAINT "EntityRevision_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "public"."Entity"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "public"."ContentFormat" AS ENUM ('markdown', 'mdx');
+
+-- CreateTable
+CREATE TABLE "public"."EntityContentVersion" (
+    "id" UUID NOT NULL,
+    "projectId" UUID NOT NULL,
+    "entityId" UUID NOT NULL,
+    "version" INTEGER NOT NULL,
+    "format" "public"."ContentFormat" NOT NULL DEFAULT 'markdown',
+    "body" TEXT NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "actor" "public"."ActorType" NOT NULL,
+    "actorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EntityContentVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EntityContentVersion_entityId_version_key" ON "public"."EntityContentVersion"("entityId", "version");
+
+-- CreateIndex
+CREATE INDEX "EntityContentVersion_projectId_entityId_idx" ON "public"."EntityContentVersion"("projectId", "entityId");
+
+-- AddForeignKey
+ALTER TABLE "public"."EntityContentVersion" ADD CONSTRAINT "EntityContentVersion_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."EntityContentVersion" ADD CONSTRAINT "EntityContentVersion_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "public"."Entity"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
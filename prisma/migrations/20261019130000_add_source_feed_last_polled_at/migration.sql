@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."SourceFeed" ADD COLUMN     "lastPolledAt" TIMESTAMP(3);
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."SourceItem" ADD COLUMN     "author" TEXT,
+ADD COLUMN     "excerpt" TEXT,
+ADD COLUMN     "extractedAt" TIMESTAMP(3),
+ADD COLUMN     "extractedText" TEXT,
+ADD COLUMN     "metadata" JSONB,
+ADD COLUMN     "publishedAt" TIMESTAMP(3),
+ADD COLUMN     "title" TEXT;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "public"."SourceItem" ADD COLUMN     "duplicateOfId" UUID,
+ADD COLUMN     "simhash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "SourceItem_duplicateOfId_idx" ON "public"."SourceItem"("duplicateOfId");
+
+-- AddForeignKey
+ALTER TABLE "public"."SourceItem" ADD CONSTRAINT "SourceItem_duplicateOfId_fkey" FOREIGN KEY ("duplicateOfId") REFERENCES "public"."SourceItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
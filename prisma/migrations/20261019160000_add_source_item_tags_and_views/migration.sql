@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "public"."SourceItem" ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "public"."SourceItemView" (
+    "id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "filters" JSONB NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "projectId" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SourceItemView_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SourceItem_tags_idx" ON "public"."SourceItem" USING GIN ("tags");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SourceItemView_projectId_name_key" ON "public"."SourceItemView"("projectId", "name");
+
+-- AddForeignKey
+ALTER TABLE "public"."SourceItemView" ADD CONSTRAINT "SourceItemView_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "public"."CaptureToken" (
+    "id" UUID NOT NULL,
+    "label" TEXT,
+    "tokenPrefix" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "maxUses" INTEGER,
+    "useCount" INTEGER NOT NULL DEFAULT 0,
+    "lastUsedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdByApiKeyId" UUID,
+    "projectId" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CaptureToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CaptureToken_tokenHash_key" ON "public"."CaptureToken"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "CaptureToken_projectId_idx" ON "public"."CaptureToken"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "public"."CaptureToken" ADD CONSTRAINT "CaptureToken_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."EntityRelation" ADD COLUMN     "metadata" JSONB;
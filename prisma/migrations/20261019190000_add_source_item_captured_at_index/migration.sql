@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "SourceItem_projectId_capturedAt_idx" ON "public"."SourceItem"("projectId", "capturedAt");
@@ -0,0 +1,23 @@
+/**
+ * Rendered content body for public entity pages
+ * Server component; Markdown rendered and sanitized by lib/markdown.ts
+ */
+import { getCurrentContent } from "@/lib/entity-content";
+import { renderMarkdown } from "@/lib/markdown";
+import "highlight.js/styles/github.css";
+
+export async function EntityBody({
+  entityId,
+  projectId,
+}: {
+  entityId: string;
+  projectId: string;
+}) {
+  const content = await getCurrentContent(entityId);
+  if (!content) return null;
+
+  const rendered = await renderMarkdown(content.body, { projectId });
+
+  // Sanitized by renderMarkdown() before any markup is added
+  return <div dangerouslySetInnerHTML={{ __html: rendered.html }} />;
+}
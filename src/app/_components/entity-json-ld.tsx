@@ -0,0 +1,36 @@
+/**
+ * Entity JSON-LD — the schema.org block for a public entity page
+ *
+ * Built by lib/json-ld.ts; absolute URLs use PUBLIC_SITE_URL or the
+ * origin of the current request.
+ */
+import { headers } from "next/headers";
+import { getEntityJsonLd, serializeJsonLd } from "@/lib/json-ld";
+import { publicSiteOrigin } from "@/lib/public-url";
+
+async function requestOrigin(): Promise<string> {
+  const h = await headers();
+  const host = h.get("x-forwarded-host") ?? h.get("host") ?? "localhost";
+  const proto = h.get("x-forwarded-proto") ?? "http";
+  return `${proto}://${host}`;
+}
+
+export async function EntityJsonLd({
+  entityId,
+  projectId,
+}: {
+  entityId: string;
+  projectId: string;
+}) {
+  const result = await getEntityJsonLd(entityId, projectId, {
+    origin: publicSiteOrigin(await requestOrigin()),
+  });
+  if (!result) return null;
+
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: serializeJsonLd(result.jsonLd) }}
+    />
+  );
+}
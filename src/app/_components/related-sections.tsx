@@ -0,0 +1,28 @@
+/**
+ * Related sections for public entity pages
+ * Server component; data from getRelatedSections() in lib/public-entities.ts
+ */
+import Link from "next/link";
+import type { RelatedSection } from "@/lib/public-entities";
+
+export function RelatedSections({ sections }: { sections: RelatedSection[] }) {
+  if (sections.length === 0) return null;
+
+  return (
+    <aside>
+      {sections.map((section) => (
+        <section key={section.heading}>
+          <h2>{section.heading}</h2>
+          <ul>
+            {section.entities.map((entity) => (
+              <li key={entity.id}>
+                <Link href={entity.url}>{entity.title}</Link>
+                {entity.summary && <p>{entity.summary}</p>}
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+    </aside>
+  );
+}
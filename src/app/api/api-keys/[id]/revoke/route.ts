@@ -0,0 +1,108 @@
+/**
+ * POST /api/api-keys/[id]/revoke — Revoke an API key
+ *
+ * Key management (global, not project-scoped):
+ * - Human actors only
+ * - Restricted callers may only revoke keys within their grants
+ *   (isWithinGrants); other keys return 404, as in the list
+ * - Revocation is permanent; revoked keys fail authentication with 401
+ * - Revoking an already revoked key is an invalid state transition (409)
+ * - Logs ENTITY_ARCHIVED (details.model "apiKey", revoked: true) on each
+ *   project the key is granted; update + events are atomic
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  successResponse,
+  badRequest,
+  notFound,
+  errorResponse,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import {
+  authenticateRequest,
+  assertHumanActor,
+  isWithinGrants,
+  apiKeyEventProjectIds,
+} from "@/lib/auth";
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const actorError = assertHumanActor(auth, "manage API keys");
+    if (actorError) {
+      return forbidden(actorError);
+    }
+
+    const { id } = await context.params;
+
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    const existing = await prisma.apiKey.findUnique({
+      where: { id },
+      select: { id: true, revokedAt: true, allProjects: true, projectIds: true },
+    });
+
+    if (!existing || !isWithinGrants(auth, existing)) {
+      return notFound("API key not found");
+    }
+
+    if (existing.revokedAt) {
+      return errorResponse(
+        "INVALID_STATE_TRANSITION",
+        "API key is already revoked",
+        409
+      );
+    }
+
+    const revoked = await prisma.$transaction(async (tx) => {
+      const apiKey = await tx.apiKey.update({
+        where: { id },
+        data: { revokedAt: new Date() },
+        select: { id: true, name: true, keyPrefix: true, revokedAt: true },
+      });
+
+      const eventProjectIds = await apiKeyEventProjectIds(tx, existing);
+      if (eventProjectIds.length > 0) {
+        await tx.eventLog.createMany({
+          data: eventProjectIds.map((projectId) => ({
+            eventType: "ENTITY_ARCHIVED" as const,
+            entityType: "project" as const,
+            entityId: projectId,
+            actor: auth.actor ?? "human",
+            actorId: auth.apiKeyId,
+            projectId,
+            details: {
+              model: "apiKey",
+              apiKeyId: apiKey.id,
+              name: apiKey.name,
+              keyPrefix: apiKey.keyPrefix,
+              revoked: true,
+            },
+          })),
+        });
+      }
+
+      return apiKey;
+    });
+
+    return successResponse(revoked);
+  } catch (error) {
+    console.error("POST /api/api-keys/[id]/revoke error:", error);
+    return serverError();
+  }
+}
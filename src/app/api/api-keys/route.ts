@@ -0,0 +1,218 @@
+/**
+ * GET /api/api-keys — List API keys
+ * POST /api/api-keys — Create an API key
+ *
+ * Key management (global, not project-scoped):
+ * - Human actors only (open mode counts as the operator)
+ * - Callers restricted to some projects only list, and only create, keys
+ *   whose grants are within their own (isWithinGrants); allProjects needs
+ *   an unrestricted caller
+ * - The plaintext key is returned once, on create; only its hash is stored
+ * - Granted projectIds must exist
+ * - Create logs ENTITY_CREATED (details.model "apiKey") on each project the
+ *   key is granted, since EventLog rows require a projectId
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  listResponse,
+  createdResponse,
+  badRequest,
+  serverError,
+  unauthorized,
+  forbidden,
+  parsePagination,
+} from "@/lib/api-response";
+import {
+  authenticateRequest,
+  assertHumanActor,
+  isWithinGrants,
+  apiKeyEventProjectIds,
+  generateApiKey,
+  hashApiKey,
+} from "@/lib/auth";
+import { CreateApiKeySchema } from "@/lib/schemas/api-key";
+import type { Prisma } from "@prisma/client";
+
+// Never select keyHash into a response
+const API_KEY_SELECT = {
+  id: true,
+  name: true,
+  keyPrefix: true,
+  actorType: true,
+  projectIds: true,
+  allProjects: true,
+  revokedAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.ApiKeySelect;
+
+// =============================================================================
+// GET /api/api-keys
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const actorError = assertHumanActor(auth, "manage API keys");
+    if (actorError) {
+      return forbidden(actorError);
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const { page, limit, skip } = parsePagination(searchParams);
+
+    const where: Prisma.ApiKeyWhereInput = {};
+    if (searchParams.get("includeRevoked") !== "true") {
+      where.revokedAt = null;
+    }
+
+    // Restricted callers see only keys within their grants: not all-projects,
+    // and no project outside the caller's list
+    if (auth.projectIds !== null) {
+      const outside = await prisma.project.findMany({
+        where: { id: { notIn: auth.projectIds } },
+        select: { id: true },
+      });
+      where.allProjects = false;
+      if (outside.length > 0) {
+        where.NOT = { projectIds: { hasSome: outside.map((project) => project.id) } };
+      }
+    }
+
+    const [keys, total] = await Promise.all([
+      prisma.apiKey.findMany({
+        where,
+        select: API_KEY_SELECT,
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        skip,
+        take: limit,
+      }),
+      prisma.apiKey.count({ where }),
+    ]);
+
+    return listResponse(keys, { page, limit, total });
+  } catch (error) {
+    console.error("GET /api/api-keys error:", error);
+    return serverError();
+  }
+}
+
+// =============================================================================
+// POST /api/api-keys
+// =============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const actorError = assertHumanActor(auth, "manage API keys");
+    if (actorError) {
+      return forbidden(actorError);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return badRequest("Invalid JSON body");
+    }
+
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return badRequest("Request body must be an object");
+    }
+
+    const parsed = CreateApiKeySchema.safeParse(body);
+    if (!parsed.success) {
+      const flat = parsed.error.flatten();
+      return badRequest("Validation failed", [
+        ...flat.formErrors.map((msg) => ({
+          code: "VALIDATION_ERROR" as const,
+          message: msg,
+        })),
+        ...Object.entries(flat.fieldErrors).flatMap(([field, messages]) =>
+          (messages ?? []).map((msg) => ({
+            code: "VALIDATION_ERROR" as const,
+            field,
+            message: msg,
+          }))
+        ),
+      ]);
+    }
+
+    const data = parsed.data;
+    const allProjects = data.allProjects === true;
+    const projectIds = allProjects ? [] : [...new Set(data.projectIds ?? [])];
+
+    if (!isWithinGrants(auth, { allProjects, projectIds })) {
+      return forbidden(
+        allProjects
+          ? "Only an unrestricted API key may create an all-projects key"
+          : "API key may only grant projects it is itself granted"
+      );
+    }
+
+    if (projectIds.length > 0) {
+      const found = await prisma.project.count({
+        where: { id: { in: projectIds } },
+      });
+      if (found !== projectIds.length) {
+        return badRequest("One or more projectIds do not exist");
+      }
+    }
+
+    const { key, keyPrefix } = generateApiKey();
+    const keyHash = await hashApiKey(key);
+
+    const created = await prisma.$transaction(async (tx) => {
+      const apiKey = await tx.apiKey.create({
+        data: {
+          name: data.name,
+          keyPrefix,
+          keyHash,
+          actorType: data.actorType,
+          projectIds,
+          allProjects,
+        },
+        select: API_KEY_SELECT,
+      });
+
+      const eventProjectIds = await apiKeyEventProjectIds(tx, apiKey);
+      if (eventProjectIds.length > 0) {
+        await tx.eventLog.createMany({
+          data: eventProjectIds.map((projectId) => ({
+            eventType: "ENTITY_CREATED" as const,
+            entityType: "project" as const,
+            entityId: projectId,
+            actor: auth.actor ?? "human",
+            actorId: auth.apiKeyId,
+            projectId,
+            details: {
+              model: "apiKey",
+              apiKeyId: apiKey.id,
+              name: apiKey.name,
+              keyPrefix: apiKey.keyPrefix,
+              actorType: apiKey.actorType,
+              allProjects: apiKey.allProjects,
+            },
+          })),
+        });
+      }
+
+      return apiKey;
+    });
+
+    return createdResponse({ ...created, key });
+  } catch (error) {
+    console.error("POST /api/api-keys error:", error);
+    return serverError();
+  }
+}
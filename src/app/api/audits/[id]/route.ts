@@ -27,8 +27,11 @@ import {
   badRequest,
   notFound,
   serverError,
+  unauthorized,
+  forbidden,
 } from "@/lib/api-response";
 import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
 import {
   DraftArtifactKind,
 } from "@prisma/client";
@@ -51,11 +54,21 @@ export async function GET(
   context: { params: Promise<{ id: string }> }
 ) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     const { id } = await context.params;
 
     if (!UUID_RE.test(id)) {
@@ -21,8 +21,11 @@ import {
   listResponse,
   badRequest,
   serverError,
+  unauthorized,
+  forbidden,
 } from "@/lib/api-response";
 import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
 import {
   DraftArtifactKind,
   DraftArtifactStatus,
@@ -57,11 +60,21 @@ function parseStatus(value: string | null): DraftArtifactStatus | undefined {
 
 export async function GET(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const { page, limit, skip } = parsePagination(searchParams);
 
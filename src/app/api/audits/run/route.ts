@@ -9,6 +9,7 @@
  * - Persists the audit as a DraftArtifact (byda_s_audit)
  * - Emits DRAFT_CREATED EventLog inside the same prisma.$transaction()
  * - No schema changes
+ * - Draft expiry from SystemConfig key audit_expiration_days (per project)
  */
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
@@ -17,8 +18,11 @@ import {
   createdResponse,
   notFound,
   serverError,
+  unauthorized,
+  forbidden,
 } from "@/lib/api-response";
 import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
 import {
   ActorType,
   ContentEntityType,
@@ -30,10 +34,10 @@ import {
 } from "@prisma/client";
 import type { Prisma } from "@prisma/client";
 import { RunAuditSchema } from "@/lib/schemas/audit";
+import { getProjectConfig } from "@/lib/system-config";
 
 const BYDA_S0_SCHEMA_VERSION = "byda.s0.v1";
 const ALLOWED_KIND = DraftArtifactKind.byda_s_audit;
-const EXPIRATION_DAYS = 30;
 
 function mapContentEntityTypeToEntityType(t: ContentEntityType): EntityType {
   switch (t) {
@@ -105,11 +109,21 @@ async function generateContentHash(content: string): Promise<string> {
 
 export async function POST(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     // Parse body
     let body: unknown;
     try {
@@ -190,8 +204,9 @@ export async function POST(request: NextRequest) {
     const contentString = JSON.stringify(contentObj);
     const contentHash = await generateContentHash(contentString);
 
+    const expirationDays = await getProjectConfig("audit_expiration_days", projectId);
     const expiresAt = new Date(now);
-    expiresAt.setDate(expiresAt.getDate() + EXPIRATION_DAYS);
+    expiresAt.setDate(expiresAt.getDate() + expirationDays);
 
     const result = await prisma.$transaction(async (tx) => {
       const artifact = await tx.draftArtifact.create({
@@ -230,7 +245,8 @@ export async function POST(request: NextRequest) {
           eventType: EventType.DRAFT_CREATED,
           entityType: EntityType.draftArtifact,
           entityId: artifact.id,
-          actor: ActorType.system,
+          actor: auth.actor ?? ActorType.system,
+          actorId: auth.apiKeyId,
           projectId,
           details,
         },
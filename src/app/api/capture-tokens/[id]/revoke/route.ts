@@ -0,0 +1,121 @@
+/**
+ * POST /api/capture-tokens/[id]/revoke — Revoke a capture token
+ *
+ * - Project-scoped; cross-project ids return 404 (non-disclosure)
+ * - Human actors only
+ * - Revocation is permanent; revoked tokens fail capture with 401
+ * - Revoking an already revoked token is an invalid state transition (409)
+ * - Update + EventLog inside prisma.$transaction(): ENTITY_ARCHIVED on the
+ *   project with details.model "captureToken"
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  successResponse,
+  badRequest,
+  notFound,
+  errorResponse,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import {
+  authenticateRequest,
+  assertProjectGranted,
+  assertHumanActor,
+} from "@/lib/auth";
+import { ActorType, EntityType, EventType } from "@prisma/client";
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const actorError = assertHumanActor(auth, "manage capture tokens");
+    if (actorError) {
+      return forbidden(actorError);
+    }
+
+    const { id } = await context.params;
+
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const existing = await tx.captureToken.findUnique({
+        where: { id },
+        select: { id: true, projectId: true, revokedAt: true },
+      });
+
+      if (!existing || existing.projectId !== projectId) {
+        return { kind: "not_found" as const };
+      }
+
+      if (existing.revokedAt) {
+        return { kind: "already_revoked" as const };
+      }
+
+      const revoked = await tx.captureToken.update({
+        where: { id },
+        data: { revokedAt: new Date() },
+        select: { id: true, label: true, tokenPrefix: true, revokedAt: true },
+      });
+
+      await tx.eventLog.create({
+        data: {
+          eventType: EventType.ENTITY_ARCHIVED,
+          entityType: EntityType.project,
+          entityId: projectId,
+          actor: auth.actor ?? ActorType.human,
+          actorId: auth.apiKeyId,
+          projectId,
+          details: {
+            model: "captureToken",
+            captureTokenId: id,
+            tokenPrefix: revoked.tokenPrefix,
+            revoked: true,
+          },
+        },
+      });
+
+      return { kind: "revoked" as const, revoked };
+    });
+
+    if (result.kind === "not_found") {
+      return notFound("Capture token not found");
+    }
+
+    if (result.kind === "already_revoked") {
+      return errorResponse(
+        "INVALID_STATE_TRANSITION",
+        "Capture token is already revoked",
+        409
+      );
+    }
+
+    return successResponse(result.revoked);
+  } catch (error) {
+    console.error("POST /api/capture-tokens/[id]/revoke error:", error);
+    return serverError();
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * GET /api/capture-tokens — List the project's capture tokens
+ * POST /api/capture-tokens — Mint a capture token
+ *
+ * Capture tokens authenticate bookmarklet and share-target captures
+ * (POST /api/source-items/browser-capture) for one project. See
+ * lib/capture-tokens.ts.
+ *
+ * - Project-scoped; human actors only (open mode counts as the operator)
+ * - GET lists unrevoked, unexpired tokens (?includeInactive=true for all),
+ *   newest first, each with a derived status; the hash is never returned
+ * - POST: optional label, ttlHours (default 24, max 720), maxUses (default
+ *   50, max 1000, 1 = one-time). The plaintext token, the
+ *   bookmarklet and the activation URL are returned once; only the hash is
+ *   stored. Captures are attributed to the minting API key.
+ * - Create + EventLog inside prisma.$transaction(): ENTITY_CREATED on the
+ *   project with details.model "captureToken"
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  listResponse,
+  createdResponse,
+  badRequest,
+  serverError,
+  unauthorized,
+  forbidden,
+  parsePagination,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import {
+  authenticateRequest,
+  assertProjectGranted,
+  assertHumanActor,
+  hashApiKey,
+} from "@/lib/auth";
+import {
+  DEFAULT_CAPTURE_TOKEN_TTL_HOURS,
+  buildBookmarklet,
+  captureActivationUrl,
+  captureTokenStatus,
+  generateCaptureToken,
+} from "@/lib/capture-tokens";
+import { CreateCaptureTokenSchema } from "@/lib/schemas/capture-token";
+import { ActorType, EntityType, EventType, Prisma } from "@prisma/client";
+
+// Never select tokenHash into a response
+const CAPTURE_TOKEN_SELECT = {
+  id: true,
+  label: true,
+  tokenPrefix: true,
+  expiresAt: true,
+  maxUses: true,
+  useCount: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdByApiKeyId: true,
+  createdAt: true,
+} satisfies Prisma.CaptureTokenSelect;
+
+// =============================================================================
+// GET /api/capture-tokens
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const actorError = assertHumanActor(auth, "manage capture tokens");
+    if (actorError) {
+      return forbidden(actorError);
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const { page, limit, skip } = parsePagination(searchParams);
+    const now = new Date();
+
+    const where: Prisma.CaptureTokenWhereInput = { projectId };
+    if (searchParams.get("includeInactive") !== "true") {
+      where.revokedAt = null;
+      where.expiresAt = { gt: now };
+    }
+
+    const [tokens, total] = await Promise.all([
+      prisma.captureToken.findMany({
+        where,
+        select: CAPTURE_TOKEN_SELECT,
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        skip,
+        take: limit,
+      }),
+      prisma.captureToken.count({ where }),
+    ]);
+
+    return listResponse(
+      tokens.map((token) => ({ ...token, status: captureTokenStatus(token, now) })),
+      { page, limit, total }
+    );
+  } catch (error) {
+    console.error("GET /api/capture-tokens error:", error);
+    return serverError();
+  }
+}
+
+// =============================================================================
+// POST /api/capture-tokens
+// =============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const actorError = assertHumanActor(auth, "manage capture tokens");
+    if (actorError) {
+      return forbidden(actorError);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return badRequest("Invalid JSON body");
+    }
+
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return badRequest("Request body must be an object");
+    }
+
+    const parsed = CreateCaptureTokenSchema.safeParse(body);
+    if (!parsed.success) {
+      const flat = parsed.error.flatten();
+      return badRequest("Validation failed", [
+        ...flat.formErrors.map((msg) => ({
+          code: "VALIDATION_ERROR" as const,
+          message: msg,
+        })),
+        ...Object.entries(flat.fieldErrors).flatMap(([field, messages]) =>
+          (messages ?? []).map((msg) => ({
+            code: "VALIDATION_ERROR" as const,
+            field,
+            message: msg,
+          }))
+        ),
+      ]);
+    }
+
+    const data = parsed.data;
+    const ttlHours = data.ttlHours ?? DEFAULT_CAPTURE_TOKEN_TTL_HOURS;
+    const expiresAt = new Date(Date.now() + ttlHours * 60 * 60 * 1000);
+
+    const { token, tokenPrefix } = generateCaptureToken();
+    const tokenHash = await hashApiKey(token);
+
+    const created = await prisma.$transaction(async (tx) => {
+      const captureToken = await tx.captureToken.create({
+        data: {
+          label: data.label ?? null,
+          tokenPrefix,
+          tokenHash,
+          expiresAt,
+          maxUses: data.maxUses,
+          createdByApiKeyId: auth.apiKeyId,
+          projectId,
+        },
+        select: CAPTURE_TOKEN_SELECT,
+      });
+
+      await tx.eventLog.create({
+        data: {
+          eventType: EventType.ENTITY_CREATED,
+          entityType: EntityType.project,
+          entityId: projectId,
+          actor: auth.actor ?? ActorType.human,
+          actorId: auth.apiKeyId,
+          projectId,
+          details: {
+            model: "captureToken",
+            captureTokenId: captureToken.id,
+            tokenPrefix,
+            expiresAt: expiresAt.toISOString(),
+            maxUses: captureToken.maxUses,
+          },
+        },
+      });
+
+      return captureToken;
+    });
+
+    const origin = request.nextUrl.origin;
+
+    return createdResponse({
+      ...created,
+      status: captureTokenStatus(created),
+      token,
+      activationUrl: captureActivationUrl(origin, token),
+      bookmarklet: buildBookmarklet(origin, token),
+    });
+  } catch (error) {
+    console.error("POST /api/capture-tokens error:", error);
+    return serverError();
+  }
+}
@@ -21,6 +21,8 @@ import {
   notFound,
   serverError,
   parsePagination,
+  unauthorized,
+  forbidden,
 } from "@/lib/api-response";
 import {
   isValidEnum,
@@ -29,6 +31,11 @@ import {
   VALID_ENTITY_STATUSES,
 } from "@/lib/validation";
 import { resolveProjectId } from "@/lib/project";
+import {
+  authenticateRequest,
+  assertProjectGranted,
+  assertHumanActor,
+} from "@/lib/auth";
 import type { Prisma } from "@prisma/client";
 
 // =============================================================================
@@ -37,11 +44,21 @@ import type { Prisma } from "@prisma/client";
 
 export async function GET(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const { page, limit, skip } = parsePagination(searchParams);
 
@@ -133,11 +150,26 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const actorError = assertHumanActor(auth, "record distribution");
+    if (actorError) {
+      return forbidden(actorError);
+    }
+
     // Parse request body
     let body: unknown;
     try {
@@ -211,7 +243,8 @@ export async function POST(request: NextRequest) {
           eventType: "DISTRIBUTION_PUBLISHED",
           entityType: "distributionEvent",
           entityId: de.id,
-          actor: "human",
+          actor: auth.actor ?? "human",
+          actorId: auth.apiKeyId,
           projectId,
           details: {
             platform,
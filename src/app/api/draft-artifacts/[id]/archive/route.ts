@@ -13,8 +13,11 @@ import {
   notFound,
   serverError,
   successResponse,
+  unauthorized,
+  forbidden,
 } from "@/lib/api-response";
 import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
 import { ActorType, DraftArtifactStatus, EntityType, EventType } from "@prisma/client";
 import type { Prisma } from "@prisma/client";
 
@@ -26,11 +29,21 @@ export async function PATCH(
   context: { params: Promise<{ id: string }> }
 ) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     const { id: draftId } = await context.params;
     if (!UUID_RE.test(draftId)) {
       return badRequest("Draft artifact id must be a valid UUID");
@@ -73,7 +86,8 @@ export async function PATCH(
           eventType: EventType.ENTITY_ARCHIVED,
           entityType: EntityType.draftArtifact,
           entityId: updated.id,
-          actor: ActorType.system,
+          actor: auth.actor ?? ActorType.system,
+          actorId: auth.apiKeyId,
           projectId,
           details,
         },
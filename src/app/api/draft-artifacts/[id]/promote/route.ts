@@ -15,8 +15,11 @@ import {
   notFound,
   serverError,
   successResponse,
+  unauthorized,
+  forbidden,
 } from "@/lib/api-response";
 import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
 import {
   ActorType,
   ContentEntityType,
@@ -149,11 +152,21 @@ export async function POST(
       return badRequest("id must be a valid UUID");
     }
 
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     const now = new Date();
 
     const draft = await prisma.draftArtifact.findUnique({
@@ -282,7 +295,8 @@ export async function POST(
           eventType: EventType.METRIC_SNAPSHOT_RECORDED,
           entityType: EntityType.metricSnapshot,
           entityId: s.id,
-          actor: ActorType.system,
+          actor: auth.actor ?? ActorType.system,
+          actorId: auth.apiKeyId,
           projectId,
           details,
         })),
@@ -293,7 +307,8 @@ export async function POST(
           eventType: EventType.ENTITY_ARCHIVED,
           entityType: EntityType.draftArtifact,
           entityId: draft.id,
-          actor: ActorType.system,
+          actor: auth.actor ?? ActorType.system,
+          actorId: auth.apiKeyId,
           projectId,
           details,
         },
@@ -304,7 +319,8 @@ export async function POST(
           eventType: EventType.ENTITY_UPDATED,
           entityType: promotedEntityType,
           entityId: entity.id,
-          actor: ActorType.system,
+          actor: auth.actor ?? ActorType.system,
+          actorId: auth.apiKeyId,
           projectId,
           details,
         },
@@ -16,8 +16,11 @@ import {
   badRequest,
   serverError,
   successResponse,
+  unauthorized,
+  forbidden,
 } from "@/lib/api-response";
 import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
 import {
   ActorType,
   DraftArtifactStatus,
@@ -38,11 +41,21 @@ function parseLimit(searchParams: URLSearchParams) {
 
 export async function POST(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     const limit = parseLimit(request.nextUrl.searchParams);
     const now = new Date();
 
@@ -88,7 +101,8 @@ export async function POST(request: NextRequest) {
           eventType: EventType.DRAFT_EXPIRED,
           entityType: EntityType.draftArtifact,
           entityId: id,
-          actor: ActorType.system,
+          actor: auth.actor ?? ActorType.system,
+          actorId: auth.apiKeyId,
           projectId,
           details,
         })),
@@ -19,8 +19,11 @@ import {
   badRequest,
   notFound,
   serverError,
+  unauthorized,
+  forbidden,
 } from "@/lib/api-response";
 import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
 import {
   DraftArtifactKind,
   DraftArtifactStatus,
@@ -30,6 +33,7 @@ import {
 } from "@prisma/client";
 import type { Prisma } from "@prisma/client";
 import { CreateDraftArtifactSchema } from "@/lib/schemas/draft-artifact";
+import { getProjectConfig } from "@/lib/system-config";
 
 const UUID_RE =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
@@ -48,9 +52,6 @@ const DRAFT_STATUS = DraftArtifactStatus.draft;
 // createdBy is server-controlled (system for automated audits)
 const CREATED_BY = ActorType.system;
 
-// Expiration: 30 days from now
-const EXPIRATION_DAYS = 30;
-
 // GET pagination bounds for this endpoint (Phase 2 scope)
 const MAX_LIMIT = 50;
 
@@ -92,11 +93,21 @@ async function generateContentHash(content: string): Promise<string> {
 
 export async function GET(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const { page, limit, skip } = parsePagination(searchParams);
 
@@ -172,11 +183,21 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     // Parse request body
     let body: unknown;
     try {
@@ -233,9 +254,13 @@ export async function POST(request: NextRequest) {
     // Compute content hash (deterministic)
     const contentHash = await generateContentHash(contentString);
 
-    // Calculate expiration date
+    // Calculate expiration date (SystemConfig: draft_artifact_expiration_days)
+    const expirationDays = await getProjectConfig(
+      "draft_artifact_expiration_days",
+      projectId
+    );
     const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + EXPIRATION_DAYS);
+    expiresAt.setDate(expiresAt.getDate() + expirationDays);
 
     // Transactional create + event log (atomic)
     const draft = await prisma.$transaction(async (tx) => {
@@ -266,7 +291,8 @@ export async function POST(request: NextRequest) {
           eventType: EventType.DRAFT_CREATED,
           entityType: EntityType.draftArtifact,
           entityId: artifact.id,
-          actor: CREATED_BY,
+          actor: auth.actor ?? CREATED_BY,
+          actorId: auth.apiKeyId,
           projectId,
           details: eventDetails,
         },
@@ -16,8 +16,11 @@ import {
   notFound,
   badRequest,
   serverError,
+  unauthorized,
+  forbidden,
 } from "@/lib/api-response";
 import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
 
 // UUID validation regex
 const UUID_RE =
@@ -32,11 +35,21 @@ export async function POST(
   context: { params: Promise<{ id: string }> }
 ) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     const { id } = await context.params;
 
     // --- Validate id param ---
@@ -77,7 +90,8 @@ export async function POST(
           eventType: "ENTITY_UPDATED",
           entityType: "sourceItem",
           entityId: draft.sourceItemId!,
-          actor: "system",
+          actor: auth.actor ?? "system",
+          actorId: auth.apiKeyId,
           projectId,
           details: {
             draftId: draft.id,
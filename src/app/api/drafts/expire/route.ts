@@ -14,8 +14,10 @@ import {
   badRequest,
   unauthorized,
   serverError,
+  forbidden,
 } from "@/lib/api-response";
 import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
 
 function parseLimit(raw: string | null): number | null {
   if (raw === null) return null;
@@ -26,11 +28,21 @@ function parseLimit(raw: string | null): number | null {
 
 export async function POST(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     // Optional guardrail for cron usage
     const requiredToken = process.env.DRAFT_SWEEP_TOKEN;
     if (requiredToken) {
@@ -100,7 +112,8 @@ export async function POST(request: NextRequest) {
               eventType: "DRAFT_EXPIRED",
               entityType: "sourceItem",
               entityId: d.sourceItemId!,
-              actor: "system",
+              actor: auth.actor ?? "system",
+              actorId: auth.apiKeyId,
               projectId,
               details: {
                 draftId: d.id,
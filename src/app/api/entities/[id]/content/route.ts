@@ -0,0 +1,244 @@
+/**
+ * GET /api/entities/[id]/content — Current (or ?version=N) content body
+ * PUT /api/entities/[id]/content — Write a new content body version
+ *
+ * Hosted Markdown/MDX bodies (lib/entity-content.ts):
+ * - Project-scoped; cross-project ids return 404 (non-disclosure)
+ * - Versions are append-only; the highest version is current
+ * - PUT with an unchanged body (same SHA-256 hash and format) is a no-op:
+ *   200 with changed=false, no version, no event
+ * - Optional baseHash: 409 CONFLICT when the current hash differs
+ *   (someone else saved first)
+ * - Version create + ENTITY_UPDATED EventLog inside prisma.$transaction()
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  successResponse,
+  createdResponse,
+  badRequest,
+  notFound,
+  conflict,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import { generateContentHash } from "@/lib/validation";
+import { getCurrentContent } from "@/lib/entity-content";
+import { PutEntityContentSchema } from "@/lib/schemas/entity-content";
+import { Prisma } from "@prisma/client";
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+// =============================================================================
+// GET
+// =============================================================================
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) return unauthorized(authError);
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) return badRequest(error);
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) return forbidden(grantError);
+
+    const { id } = await context.params;
+
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    const rawVersion = request.nextUrl.searchParams.get("version");
+    if (rawVersion !== null && (!/^\d+$/.test(rawVersion) || Number(rawVersion) < 1)) {
+      return badRequest("version must be a positive integer");
+    }
+
+    const entity = await prisma.entity.findUnique({
+      where: { id },
+      select: { id: true, projectId: true },
+    });
+
+    if (!entity || entity.projectId !== projectId) {
+      return notFound("Entity not found");
+    }
+
+    const content =
+      rawVersion !== null
+        ? await prisma.entityContentVersion.findUnique({
+            where: {
+              entityId_version: { entityId: id, version: Number(rawVersion) },
+            },
+          })
+        : await getCurrentContent(id);
+
+    if (!content || content.projectId !== projectId) {
+      return notFound(
+        rawVersion !== null ? "Content version not found" : "Entity has no content"
+      );
+    }
+
+    return successResponse(content);
+  } catch (error) {
+    console.error("GET /api/entities/[id]/content error:", error);
+    return serverError();
+  }
+}
+
+// =============================================================================
+// PUT
+// =============================================================================
+
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) return unauthorized(authError);
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) return badRequest(error);
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) return forbidden(grantError);
+
+    const { id } = await context.params;
+
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return badRequest("Invalid JSON body");
+    }
+
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return badRequest("Request body must be an object");
+    }
+
+    const parsed = PutEntityContentSchema.safeParse(body);
+    if (!parsed.success) {
+      const flat = parsed.error.flatten();
+      return badRequest("Validation failed", [
+        ...flat.formErrors.map((msg) => ({
+          code: "VALIDATION_ERROR" as const,
+          message: msg,
+        })),
+        ...Object.entries(flat.fieldErrors).flatMap(([field, messages]) =>
+          (messages ?? []).map((msg) => ({
+            code: "VALIDATION_ERROR" as const,
+            field,
+            message: msg,
+          }))
+        ),
+      ]);
+    }
+
+    const data = parsed.data;
+    const contentHash = await generateContentHash(data.body);
+    const actor = auth.actor ?? "human";
+
+    try {
+      const result = await prisma.$transaction(async (tx) => {
+        const entity = await tx.entity.findUnique({
+          where: { id },
+          select: { id: true, projectId: true, entityType: true },
+        });
+
+        if (!entity || entity.projectId !== projectId) {
+          return { kind: "not_found" as const };
+        }
+
+        const current = await getCurrentContent(id, tx);
+
+        if (data.baseHash !== undefined) {
+          const currentHash = current?.contentHash ?? null;
+          if (data.baseHash !== currentHash) {
+            return { kind: "stale" as const, currentHash };
+          }
+        }
+
+        if (
+          current &&
+          current.contentHash === contentHash &&
+          current.format === data.format
+        ) {
+          return { kind: "unchanged" as const, content: current };
+        }
+
+        const created = await tx.entityContentVersion.create({
+          data: {
+            projectId,
+            entityId: id,
+            version: current ? current.version + 1 : 1,
+            format: data.format,
+            body: data.body,
+            contentHash,
+            actor,
+            actorId: auth.apiKeyId,
+          },
+        });
+
+        await tx.eventLog.create({
+          data: {
+            eventType: "ENTITY_UPDATED",
+            entityType: entity.entityType,
+            entityId: entity.id,
+            actor,
+            actorId: auth.apiKeyId,
+            projectId,
+            details: {
+              updatedFields: ["content"],
+              contentVersion: created.version,
+              contentHash,
+              previousContentHash: current?.contentHash ?? null,
+            },
+          },
+        });
+
+        return { kind: "created" as const, content: created };
+      });
+
+      if (result.kind === "not_found") {
+        return notFound("Entity not found");
+      }
+
+      if (result.kind === "stale") {
+        return conflict(
+          `Content changed since baseHash (current: ${result.currentHash ?? "none"})`,
+          "CONTENT_HASH_MISMATCH"
+        );
+      }
+
+      if (result.kind === "unchanged") {
+        return successResponse({ ...result.content, changed: false });
+      }
+
+      return createdResponse({ ...result.content, changed: true });
+    } catch (err) {
+      // Concurrent writer took the same version number
+      if (
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === "P2002"
+      ) {
+        return conflict("Content was updated concurrently; retry", "CONTENT_HASH_MISMATCH");
+      }
+      throw err;
+    }
+  } catch (error) {
+    console.error("PUT /api/entities/[id]/content error:", error);
+    return serverError();
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * GET /api/entities/[id]/graph/path — Shortest relationship path
+ *
+ * "How is concept A connected to news B?": the fewest-hops path from
+ * entity [id] to `to` (any graph node: entity, source item, distribution
+ * event, video), following relations in either direction.
+ *
+ * Query: to (required UUID), depth = max hops (1–6, default 6),
+ * maxNodes (2–500, default 100), relationshipTypes (comma-separated filter)
+ *
+ * - found=false with truncated=null: no path within depth hops
+ * - found=false with truncated set: the node budget ran out first, so a
+ *   longer search may still find one
+ * - Each relation carries `direction`: forward when stored from the
+ *   previous path node to the next, backward otherwise
+ * - Project-scoped: root or target outside the project → 404
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  successResponse,
+  badRequest,
+  notFound,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import {
+  MAX_GRAPH_DEPTH,
+  findShortestPath,
+  loadGraphNodeDetails,
+  parseGraphQueryOptions,
+} from "@/lib/graph-query";
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+async function graphNodeExists(projectId: string, id: string): Promise<boolean> {
+  const where = { id, projectId };
+  const select = { id: true };
+  const found = await Promise.all([
+    prisma.entity.findFirst({ where, select }),
+    prisma.sourceItem.findFirst({ where, select }),
+    prisma.distributionEvent.findFirst({ where, select }),
+    prisma.video.findFirst({ where, select }),
+  ]);
+  return found.some((row) => row !== null);
+}
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) return unauthorized(authError);
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) return badRequest(error);
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) return forbidden(grantError);
+
+    const { id } = await context.params;
+
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const to = searchParams.get("to");
+    if (!to || !UUID_RE.test(to)) {
+      return badRequest("to is required and must be a valid UUID");
+    }
+
+    const { options, error: optionsError } = parseGraphQueryOptions(
+      searchParams,
+      MAX_GRAPH_DEPTH
+    );
+    if (optionsError) {
+      return badRequest(optionsError);
+    }
+
+    const rootEntity = await prisma.entity.findUnique({
+      where: { id },
+      select: { id: true, entityType: true, projectId: true },
+    });
+
+    if (!rootEntity || rootEntity.projectId !== projectId) {
+      return notFound("Entity not found");
+    }
+
+    if (!(await graphNodeExists(projectId, to))) {
+      return notFound("Target not found");
+    }
+
+    const path = await findShortestPath(
+      projectId,
+      { id, entityType: rootEntity.entityType },
+      to,
+      options
+    );
+
+    const details = await loadGraphNodeDetails(projectId, path.nodes);
+
+    return successResponse({
+      from: id,
+      to,
+      found: path.found,
+      hops: path.found ? path.relations.length : null,
+      nodes: path.nodes.map((node) => ({
+        ...details.get(node.id)!,
+        depth: node.depth,
+      })),
+      relations: path.relations.map((rel, index) => ({
+        id: rel.id,
+        relationType: rel.relationType,
+        fromEntityType: rel.fromEntityType,
+        fromEntityId: rel.fromEntityId,
+        toEntityType: rel.toEntityType,
+        toEntityId: rel.toEntityId,
+        notes: rel.notes,
+        metadata: rel.metadata,
+        direction: rel.fromEntityId === path.nodes[index].id ? "forward" : "backward",
+      })),
+      exploredNodeCount: path.exploredNodeCount,
+      depth: options.depth,
+      maxNodes: options.maxNodes,
+      truncated: path.truncated,
+    });
+  } catch (error) {
+    console.error("GET /api/entities/[id]/graph/path error:", error);
+    return serverError();
+  }
+}
@@ -1,8 +1,13 @@
 /**
  * GET /api/entities/[id]/graph — Retrieve entity with relationship graph
  *
- * Phase 1 read-only endpoint for MCP `get_entity_graph` tool.
- * - Depth-limited traversal (depth=1 or depth=2)
+ * Read-only endpoint for MCP `get_entity_graph` tool.
+ * - Bounded BFS via lib/graph-query.ts: depth 1–6 (default 1), maxNodes
+ *   2–500 (default 100), optional relationshipTypes filter
+ * - `truncated` is set when the node budget stopped the expansion; the
+ *   budget applies at depth 1 too (roots with > maxNodes - 1 neighbours)
+ * - nodes lists every collected node (any EntityType) with its depth;
+ *   relatedEntity on each relationship stays content-entities-only
  * - Project-scoped with cross-project isolation
  * - Deterministic BFS expansion with explicit ordering
  */
@@ -13,57 +18,49 @@ import {
   badRequest,
   notFound,
   serverError,
+  unauthorized,
+  forbidden,
 } from "@/lib/api-response";
 import { resolveProjectId } from "@/lib/project";
-import { RelationType } from "@prisma/client";
-import type { Prisma } from "@prisma/client";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import { VALID_CONTENT_ENTITY_TYPES } from "@/lib/validation";
+import {
+  loadGraphNodeDetails,
+  parseGraphQueryOptions,
+  traverseGraph,
+} from "@/lib/graph-query";
 
 const UUID_RE =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 
-const VALID_RELATION_TYPES = Object.values(RelationType);
+const CONTENT_ENTITY_TYPES = new Set<string>(VALID_CONTENT_ENTITY_TYPES);
 
 export async function GET(
   request: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) return unauthorized(authError);
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) return badRequest(error);
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) return forbidden(grantError);
+
     const { id } = await context.params;
 
     if (!id || !UUID_RE.test(id)) {
       return badRequest("id must be a valid UUID");
     }
 
-    // Parse depth parameter
-    const searchParams = request.nextUrl.searchParams;
-    const depthParam = searchParams.get("depth");
-    let depth = 1;
-
-    if (depthParam) {
-      const parsed = parseInt(depthParam, 10);
-      if (isNaN(parsed) || (parsed !== 1 && parsed !== 2)) {
-        return badRequest("depth must be 1 or 2");
-      }
-      depth = parsed;
-    }
-
-    // Parse relationshipTypes filter (optional)
-    const relationshipTypesParam = searchParams.get("relationshipTypes");
-    let relationshipTypeFilter: RelationType[] | null = null;
-
-    if (relationshipTypesParam) {
-      const types = relationshipTypesParam.split(",");
-      for (const type of types) {
-        if (!VALID_RELATION_TYPES.includes(type as RelationType)) {
-          return badRequest(
-            `Invalid relationship type: ${type}. Must be one of: ${VALID_RELATION_TYPES.join(", ")}`
-          );
-        }
-      }
-      relationshipTypeFilter = types as RelationType[];
+    const { options, error: optionsError } = parseGraphQueryOptions(
+      request.nextUrl.searchParams,
+      1
+    );
+    if (optionsError) {
+      return badRequest(optionsError);
     }
 
     // Verify root entity exists in project
@@ -75,138 +72,47 @@ export async function GET(
       return notFound("Entity not found");
     }
 
-    // Build relationship filter
-    const relationWhere: Prisma.EntityRelationWhereInput = {
+    const graph = await traverseGraph(
       projectId,
-      OR: [{ fromEntityId: id }, { toEntityId: id }],
-    };
-
-    if (relationshipTypeFilter) {
-      relationWhere.relationType = { in: relationshipTypeFilter };
-    }
-
-    // Fetch depth=1 relationships
-    const depth1Relations = await prisma.entityRelation.findMany({
-      where: relationWhere,
-      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
-    });
-
-    // Collect related entity IDs
-    const depth1EntityIds = new Set<string>();
-    for (const rel of depth1Relations) {
-      if (rel.fromEntityId !== id) depth1EntityIds.add(rel.fromEntityId);
-      if (rel.toEntityId !== id) depth1EntityIds.add(rel.toEntityId);
-    }
-
-    // Fetch depth=1 entities (sorted deterministically)
-    const depth1EntityIdArray = Array.from(depth1EntityIds).sort();
-    const depth1Entities = await prisma.entity.findMany({
-      where: {
-        id: { in: depth1EntityIdArray },
-        projectId, // Enforce project scope
-      },
-      select: {
-        id: true,
-        entityType: true,
-        title: true,
-        slug: true,
-        status: true,
-      },
-      orderBy: [{ id: "asc" }],
-    });
-
-    // If depth=2, expand one hop further
-    let depth2Relations: typeof depth1Relations = [];
-    let depth2Entities: typeof depth1Entities = [];
-
-    if (depth === 2 && depth1EntityIds.size > 0) {
-      const depth2RelationWhere: Prisma.EntityRelationWhereInput = {
-        projectId,
-        OR: [
-          { fromEntityId: { in: depth1EntityIdArray } },
-          { toEntityId: { in: depth1EntityIdArray } },
-        ],
-      };
-
-      if (relationshipTypeFilter) {
-        depth2RelationWhere.relationType = { in: relationshipTypeFilter };
-      }
-
-      depth2Relations = await prisma.entityRelation.findMany({
-        where: depth2RelationWhere,
-        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
-      });
-
-      // Collect depth=2 entity IDs (excluding already fetched)
-      const depth2EntityIds = new Set<string>();
-      for (const rel of depth2Relations) {
-        if (
-          rel.fromEntityId !== id &&
-          !depth1EntityIds.has(rel.fromEntityId)
-        ) {
-          depth2EntityIds.add(rel.fromEntityId);
-        }
-        if (rel.toEntityId !== id && !depth1EntityIds.has(rel.toEntityId)) {
-          depth2EntityIds.add(rel.toEntityId);
-        }
-      }
-
-      if (depth2EntityIds.size > 0) {
-        const depth2EntityIdArray = Array.from(depth2EntityIds).sort();
-        depth2Entities = await prisma.entity.findMany({
-          where: {
-            id: { in: depth2EntityIdArray },
-            projectId,
-          },
-          select: {
-            id: true,
-            entityType: true,
-            title: true,
-            slug: true,
-            status: true,
-          },
-          orderBy: [{ id: "asc" }],
-        });
-      }
-    }
-
-    // Deduplicate relationships by id (keep first occurrence)
-    const seenRelationIds = new Set<string>();
-    const allRelations = [...depth1Relations, ...depth2Relations].filter(
-      (rel) => {
-        if (seenRelationIds.has(rel.id)) {
-          return false;
-        }
-        seenRelationIds.add(rel.id);
-        return true;
-      }
+      { id, entityType: rootEntity.entityType },
+      options
     );
 
-    // Deduplicate entities by id (keep first occurrence)
-    const seenEntityIds = new Set<string>();
-    const allEntities = [...depth1Entities, ...depth2Entities].filter((e) => {
-      if (seenEntityIds.has(e.id)) {
-        return false;
-      }
-      seenEntityIds.add(e.id);
-      return true;
-    });
-
-    // Build entity lookup map
-    const entityMap = new Map(allEntities.map((e) => [e.id, e]));
+    const details = await loadGraphNodeDetails(projectId, graph.nodes);
+
+    // relatedEntity keeps its original shape: content entities only
+    const relatedEntityOf = (entityId: string) => {
+      const node = details.get(entityId);
+      if (!node || node.missing || !CONTENT_ENTITY_TYPES.has(node.entityType)) return null;
+      return {
+        id: node.id,
+        entityType: node.entityType,
+        title: node.label,
+        slug: node.slug,
+        status: node.status,
+      };
+    };
 
     // Build response relationships with embedded related entity details
-    const relationships = allRelations.map((rel) => ({
+    const relationships = graph.relations.map((rel) => ({
       id: rel.id,
       relationType: rel.relationType,
+      fromEntityType: rel.fromEntityType,
       fromEntityId: rel.fromEntityId,
+      toEntityType: rel.toEntityType,
       toEntityId: rel.toEntityId,
       notes: rel.notes,
+      metadata: rel.metadata,
       createdAt: rel.createdAt.toISOString(),
       relatedEntity:
         rel.fromEntityId === id
-          ? entityMap.get(rel.toEntityId) || null
-          : entityMap.get(rel.fromEntityId) || null,
+          ? relatedEntityOf(rel.toEntityId)
+          : relatedEntityOf(rel.fromEntityId),
+    }));
+
+    const nodes = graph.nodes.map((node) => ({
+      ...details.get(node.id)!,
+      depth: node.depth,
     }));
 
     return successResponse({
@@ -227,7 +133,11 @@ export async function GET(
         updatedAt: rootEntity.updatedAt.toISOString(),
       },
       relationships,
-      depth,
+      nodes,
+      depth: options.depth,
+      depthReached: graph.depthReached,
+      maxNodes: options.maxNodes,
+      truncated: graph.truncated,
     });
   } catch (error) {
     console.error("GET /api/entities/[id]/graph error:", error);
@@ -0,0 +1,59 @@
+/**
+ * GET /api/entities/[id]/json-ld — schema.org JSON-LD for an entity
+ *
+ * - Project-scoped; cross-project ids return 404 (non-disclosure)
+ * - Any status: drafts can be validated before publish
+ * - Same document the public page embeds (lib/json-ld.ts), plus which
+ *   quotable blocks were included and which were dropped as expired
+ */
+import { NextRequest } from "next/server";
+import {
+  successResponse,
+  badRequest,
+  notFound,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import { getEntityJsonLd } from "@/lib/json-ld";
+import { publicSiteOrigin } from "@/lib/public-url";
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) return unauthorized(authError);
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) return badRequest(error);
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) return forbidden(grantError);
+
+    const { id } = await context.params;
+
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    const result = await getEntityJsonLd(id, projectId, {
+      origin: publicSiteOrigin(request.nextUrl.origin),
+    });
+
+    if (!result) {
+      return notFound("Entity not found");
+    }
+
+    return successResponse({ entityId: id, ...result });
+  } catch (error) {
+    console.error("GET /api/entities/[id]/json-ld error:", error);
+    return serverError();
+  }
+}
@@ -17,8 +17,15 @@ import {
   unauthorized,
   badRequest,
   serverError,
+  forbidden,
 } from "@/lib/api-response";
 import { resolveProjectId } from "@/lib/project";
+import {
+  authenticateRequest,
+  assertProjectGranted,
+  assertHumanActor,
+} from "@/lib/auth";
+import { publicUrlFor } from "@/lib/public-url";
 
 const UUID_RE =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
@@ -28,9 +35,18 @@ export async function POST(
   context: { params: Promise<{ id: string }> }
 ) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) return unauthorized(authError);
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) return badRequest(error);
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) return forbidden(grantError);
+
+    const actorError = assertHumanActor(auth, "publish entities");
+    if (actorError) return forbidden(actorError);
+
     const { id } = await context.params;
 
     if (!id || typeof id !== "string" || !UUID_RE.test(id)) {
@@ -40,9 +56,9 @@ export async function POST(
     // Optional PUBLISH_TOKEN guard
     const requiredToken = process.env.PUBLISH_TOKEN;
     if (requiredToken) {
-      const auth = request.headers.get("authorization") ?? "";
-      const token = auth.startsWith("Bearer ")
-        ? auth.slice("Bearer ".length)
+      const authorization = request.headers.get("authorization") ?? "";
+      const token = authorization.startsWith("Bearer ")
+        ? authorization.slice("Bearer ".length)
         : "";
       if (token !== requiredToken) {
         return unauthorized("Invalid or missing publish token");
@@ -85,17 +101,7 @@ export async function POST(
 
     const now = new Date();
 
-    let canonicalUrl = entity.canonicalUrl;
-    if (!canonicalUrl) {
-      const urlMap = {
-        guide: `/guides/${entity.slug}`,
-        concept: `/concepts/${entity.slug}`,
-        project: `/projects/${entity.slug}`,
-        news: `/news/${entity.slug}`,
-      };
-      canonicalUrl =
-        urlMap[entity.entityType as keyof typeof urlMap] ?? undefined;
-    }
+    const canonicalUrl = publicUrlFor(entity);
 
     const updatedEntity = await prisma.$transaction(async (tx) => {
       const updated = await tx.entity.update({
@@ -112,7 +118,8 @@ export async function POST(
           eventType: "ENTITY_PUBLISHED",
           entityType: entity.entityType,
           entityId: entity.id,
-          actor: "human",
+          actor: auth.actor ?? "human",
+          actorId: auth.apiKeyId,
           projectId,
           details: {
             from: "publish_requested",
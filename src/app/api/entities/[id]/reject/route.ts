@@ -16,8 +16,15 @@ import {
   errorResponse,
   badRequest,
   serverError,
+  unauthorized,
+  forbidden,
 } from "@/lib/api-response";
 import { resolveProjectId } from "@/lib/project";
+import {
+  authenticateRequest,
+  assertProjectGranted,
+  assertHumanActor,
+} from "@/lib/auth";
 
 const UUID_RE =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
@@ -35,9 +42,18 @@ export async function POST(
   context: { params: Promise<{ id: string }> }
 ) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) return unauthorized(authError);
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) return badRequest(error);
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) return forbidden(grantError);
+
+    const actorError = assertHumanActor(auth, "reject publish requests");
+    if (actorError) return forbidden(actorError);
+
     const { id } = await context.params;
 
     if (!id || typeof id !== "string" || !UUID_RE.test(id)) {
@@ -97,7 +113,8 @@ export async function POST(
           eventType: "ENTITY_PUBLISH_REJECTED",
           entityType: entity.entityType,
           entityId: entity.id,
-          actor: "human",
+          actor: auth.actor ?? "human",
+          actorId: auth.apiKeyId,
           projectId,
           details: eventDetails,
         },
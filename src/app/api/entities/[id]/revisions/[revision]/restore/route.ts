@@ -0,0 +1,162 @@
+/**
+ * POST /api/entities/[id]/revisions/[revision]/restore — Restore a revision
+ *
+ * Copies the revision's snapshot back onto the entity. History is never
+ * rewritten: the restore appends a new revision with restoredFromRevision set.
+ *
+ * - Project-scoped; cross-project ids return 404 (non-disclosure)
+ * - Only revisioned fields are restored; status and slug are untouched
+ * - Restoring a snapshot identical to the current values → 409
+ * - A concurrent edit taking the same revision number → 409 (retry)
+ * - Entity update + EntityRevision + ENTITY_UPDATED EventLog inside
+ *   prisma.$transaction()
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  successResponse,
+  badRequest,
+  notFound,
+  errorResponse,
+  serverError,
+  unauthorized,
+  forbidden,
+  conflict,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import {
+  diffSnapshots,
+  parseSnapshot,
+  recordEntityRevision,
+  snapshotEntity,
+} from "@/lib/entity-revisions";
+import { Difficulty, Prisma } from "@prisma/client";
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; revision: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) return unauthorized(authError);
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) return badRequest(error);
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) return forbidden(grantError);
+
+    const { id, revision } = await context.params;
+
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    if (!/^\d+$/.test(revision) || Number(revision) < 1) {
+      return badRequest("revision must be a positive revision number");
+    }
+    const revisionNumber = Number(revision);
+
+    const actor = auth.actor ?? "human";
+
+    try {
+      const result = await prisma.$transaction(async (tx) => {
+        const existing = await tx.entity.findUnique({
+          where: { id },
+        });
+
+        if (!existing || existing.projectId !== projectId) {
+          return { kind: "not_found" as const, message: "Entity not found" };
+        }
+
+        const target = await tx.entityRevision.findUnique({
+          where: { entityId_revisionNumber: { entityId: id, revisionNumber } },
+          select: { snapshot: true, projectId: true },
+        });
+
+        if (!target || target.projectId !== projectId) {
+          return { kind: "not_found" as const, message: "Revision not found" };
+        }
+
+        const before = snapshotEntity(existing);
+        const restored = parseSnapshot(target.snapshot);
+        const changes = diffSnapshots(before, restored);
+
+        if (changes.length === 0) {
+          return { kind: "unchanged" as const };
+        }
+
+        const entity = await tx.entity.update({
+          where: { id },
+          data: {
+            ...restored,
+            title: restored.title ?? existing.title,
+            difficulty: restored.difficulty as Difficulty | null,
+          },
+        });
+
+        const newRevisionNumber = await recordEntityRevision(tx, {
+          entityId: id,
+          projectId,
+          before,
+          after: snapshotEntity(entity),
+          actor,
+          actorId: auth.apiKeyId,
+          restoredFromRevision: revisionNumber,
+        });
+
+        await tx.eventLog.create({
+          data: {
+            eventType: "ENTITY_UPDATED",
+            entityType: entity.entityType,
+            entityId: entity.id,
+            actor,
+            actorId: auth.apiKeyId,
+            projectId,
+            details: {
+              updatedFields: changes.map((c) => c.field),
+              revisionNumber: newRevisionNumber,
+              restoredFromRevision: revisionNumber,
+            },
+          },
+        });
+
+        return { kind: "ok" as const, entity, revisionNumber: newRevisionNumber };
+      });
+
+      if (result.kind === "not_found") {
+        return notFound(result.message);
+      }
+
+      if (result.kind === "unchanged") {
+        return errorResponse(
+          "INVALID_STATE_TRANSITION",
+          `Entity already matches revision ${revisionNumber}`,
+          409
+        );
+      }
+
+      return successResponse({
+        entity: result.entity,
+        revisionNumber: result.revisionNumber,
+        restoredFromRevision: revisionNumber,
+      });
+    } catch (err) {
+      // Concurrent edit took the same revision number
+      if (
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === "P2002"
+      ) {
+        return conflict("Entity was edited concurrently; retry");
+      }
+      throw err;
+    }
+  } catch (error) {
+    console.error("POST /api/entities/[id]/revisions/[revision]/restore error:", error);
+    return serverError();
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * GET /api/entities/[id]/revisions/diff?from=N&to=M — Field-level diff
+ *
+ * - Project-scoped; cross-project ids return 404 (non-disclosure)
+ * - from and to are revision numbers of the same entity, in either order
+ * - Returns only fields whose values differ, in a fixed field order
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  successResponse,
+  badRequest,
+  notFound,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import { diffSnapshots, parseSnapshot } from "@/lib/entity-revisions";
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+function parseRevisionNumber(raw: string | null): number | null {
+  if (raw === null || !/^\d+$/.test(raw)) return null;
+  const n = Number(raw);
+  return n >= 1 ? n : null;
+}
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) return unauthorized(authError);
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) return badRequest(error);
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) return forbidden(grantError);
+
+    const { id } = await context.params;
+
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const from = parseRevisionNumber(searchParams.get("from"));
+    const to = parseRevisionNumber(searchParams.get("to"));
+    if (from === null || to === null) {
+      return badRequest("from and to must be positive revision numbers");
+    }
+
+    const entity = await prisma.entity.findUnique({
+      where: { id },
+      select: { id: true, projectId: true },
+    });
+
+    if (!entity || entity.projectId !== projectId) {
+      return notFound("Entity not found");
+    }
+
+    const revisions = await prisma.entityRevision.findMany({
+      where: { entityId: id, projectId, revisionNumber: { in: [from, to] } },
+      select: { revisionNumber: true, snapshot: true, createdAt: true },
+    });
+
+    const fromRevision = revisions.find((r) => r.revisionNumber === from);
+    const toRevision = revisions.find((r) => r.revisionNumber === to);
+
+    if (!fromRevision || !toRevision) {
+      return notFound("Revision not found");
+    }
+
+    return successResponse({
+      entityId: id,
+      from: { revisionNumber: from, createdAt: fromRevision.createdAt },
+      to: { revisionNumber: to, createdAt: toRevision.createdAt },
+      changes: diffSnapshots(
+        parseSnapshot(fromRevision.snapshot),
+        parseSnapshot(toRevision.snapshot)
+      ),
+    });
+  } catch (error) {
+    console.error("GET /api/entities/[id]/revisions/diff error:", error);
+    return serverError();
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * GET /api/entities/[id]/revisions — List an entity's revision history
+ *
+ * - Project-scoped; cross-project ids return 404 (non-disclosure)
+ * - Newest first (revisionNumber desc), standard pagination
+ * - Each revision carries the full snapshot and the fields it changed
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  listResponse,
+  badRequest,
+  notFound,
+  serverError,
+  parsePagination,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import { parseSnapshot } from "@/lib/entity-revisions";
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) return unauthorized(authError);
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) return badRequest(error);
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) return forbidden(grantError);
+
+    const { id } = await context.params;
+
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    const entity = await prisma.entity.findUnique({
+      where: { id },
+      select: { id: true, projectId: true },
+    });
+
+    if (!entity || entity.projectId !== projectId) {
+      return notFound("Entity not found");
+    }
+
+    const { page, limit, skip } = parsePagination(request.nextUrl.searchParams);
+
+    const where = { entityId: id, projectId };
+
+    const [revisions, total] = await Promise.all([
+      prisma.entityRevision.findMany({
+        where,
+        orderBy: { revisionNumber: "desc" },
+        skip,
+        take: limit,
+      }),
+      prisma.entityRevision.count({ where }),
+    ]);
+
+    const data = revisions.map((r) => ({
+      id: r.id,
+      revisionNumber: r.revisionNumber,
+      changedFields: r.changedFields,
+      actor: r.actor,
+      actorId: r.actorId,
+      restoredFromRevision: r.restoredFromRevision,
+      createdAt: r.createdAt,
+      snapshot: parseSnapshot(r.snapshot),
+    }));
+
+    return listResponse(data, { page, limit, total });
+  } catch (error) {
+    console.error("GET /api/entities/[id]/revisions error:", error);
+    return serverError();
+  }
+}
@@ -6,6 +6,9 @@
  * - Resolves projectId from request
  * - Verifies entity belongs to project
  * - All state mutations + event logs inside $transaction()
+ * - PATCH appends an EntityRevision (lib/entity-revisions.ts) in the same
+ *   transaction; the event records the new revisionNumber
+ * - A concurrent edit taking the same revision number → 409 (retry)
  */
 
 import { NextRequest } from "next/server";
@@ -15,10 +18,15 @@ import {
   badRequest,
   notFound,
   serverError,
+  unauthorized,
+  forbidden,
+  conflict,
 } from "@/lib/api-response";
 import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
 import { isValidEnum } from "@/lib/validation";
-import { Difficulty } from "@prisma/client";
+import { recordEntityRevision, snapshotEntity } from "@/lib/entity-revisions";
+import { Difficulty, Prisma } from "@prisma/client";
 
 const UUID_RE =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
@@ -40,9 +48,15 @@ export async function GET(
   context: { params: Promise<{ id: string }> }
 ) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) return unauthorized(authError);
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) return badRequest(error);
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) return forbidden(grantError);
+
     const { id } = await context.params;
 
     if (!id || !UUID_RE.test(id)) {
@@ -73,9 +87,15 @@ export async function PATCH(
   context: { params: Promise<{ id: string }> }
 ) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) return unauthorized(authError);
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) return badRequest(error);
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) return forbidden(grantError);
+
     const { id } = await context.params;
 
     if (!id || !UUID_RE.test(id)) {
@@ -84,7 +104,16 @@ export async function PATCH(
 
     const existing = await prisma.entity.findUnique({
       where: { id },
-      select: { id: true, projectId: true, difficulty: true },
+      select: {
+        id: true,
+        projectId: true,
+        title: true,
+        summary: true,
+        difficulty: true,
+        repoUrl: true,
+        canonicalUrl: true,
+        contentRef: true,
+      },
     });
 
     if (!existing || existing.projectId !== projectId) {
@@ -139,29 +168,51 @@ export async function PATCH(
       updateData.canonicalUrl = b.canonicalUrl;
     }
 
-    const updated = await prisma.$transaction(async (tx) => {
-      const entity = await tx.entity.update({
-        where: { id },
-        data: updateData,
-      });
+    try {
+      const updated = await prisma.$transaction(async (tx) => {
+        const entity = await tx.entity.update({
+          where: { id },
+          data: updateData,
+        });
 
-      await tx.eventLog.create({
-        data: {
-          eventType: "ENTITY_UPDATED",
-          entityType: entity.entityType,
+        const revisionNumber = await recordEntityRevision(tx, {
           entityId: entity.id,
-          actor: "human",
           projectId,
-          details: {
-            updatedFields: Object.keys(updateData),
+          before: snapshotEntity(existing),
+          after: snapshotEntity(entity),
+          actor: auth.actor ?? "human",
+          actorId: auth.apiKeyId,
+        });
+
+        await tx.eventLog.create({
+          data: {
+            eventType: "ENTITY_UPDATED",
+            entityType: entity.entityType,
+            entityId: entity.id,
+            actor: auth.actor ?? "human",
+            actorId: auth.apiKeyId,
+            projectId,
+            details: {
+              updatedFields: Object.keys(updateData),
+              revisionNumber,
+            },
           },
-        },
-      });
+        });
 
-      return entity;
-    });
+        return entity;
+      });
 
-    return successResponse(updated);
+      return successResponse(updated);
+    } catch (err) {
+      // Concurrent edit took the same revision number
+      if (
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === "P2002"
+      ) {
+        return conflict("Entity was edited concurrently; retry");
+      }
+      throw err;
+    }
   } catch (error) {
     console.error("PATCH /api/entities/[id] error:", error);
     return serverError();
@@ -23,8 +23,11 @@ import {
   badRequest,
   notFound,
   serverError,
+  unauthorized,
+  forbidden,
 } from "@/lib/api-response";
 import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
 import { VerifyFreshnessSchema } from "@/lib/schemas/verify-freshness";
 
 const UUID_RE =
@@ -35,11 +38,21 @@ export async function POST(
   context: { params: Promise<{ id: string }> }
 ) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     const { id } = await context.params;
 
     if (!UUID_RE.test(id)) {
@@ -107,7 +120,8 @@ export async function POST(
           eventType: "ENTITY_UPDATED",
           entityType: existing.entityType,
           entityId: entity.id,
-          actor: "human",
+          actor: auth.actor ?? "human",
+          actorId: auth.apiKeyId,
           projectId,
           details: {
             updatedFields: ["lastVerifiedAt"],
@@ -3,6 +3,8 @@
  * POST /api/entities — Create a draft entity
  *
  * Per docs/operations-planning-api/01-API-ENDPOINTS-AND-VALIDATION-CONTRACTS.md
+ *
+ * POST records revision 1 (lib/entity-revisions.ts) in the create transaction.
  */
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
@@ -12,6 +14,8 @@ import {
   badRequest,
   serverError,
   parsePagination,
+  unauthorized,
+  forbidden,
 } from "@/lib/api-response";
 import {
   isValidEnum,
@@ -21,7 +25,9 @@ import {
   VALID_CONCEPT_KINDS,
 } from "@/lib/validation";
 import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
 import { CreateEntitySchema } from "@/lib/schemas/entity";
+import { recordEntityRevision, snapshotEntity } from "@/lib/entity-revisions";
 import type { Prisma } from "@prisma/client";
 
 // =============================================================================
@@ -30,11 +36,21 @@ import type { Prisma } from "@prisma/client";
 
 export async function GET(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const { page, limit, skip } = parsePagination(searchParams);
 
@@ -97,11 +113,21 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     let body: unknown;
     try {
       body = await request.json();
@@ -185,7 +211,8 @@ export async function POST(request: NextRequest) {
           eventType: "ENTITY_CREATED",
           entityType: data.entityType,
           entityId: newEntity.id,
-          actor: "human",
+          actor: auth.actor ?? "human",
+          actorId: auth.apiKeyId,
           projectId,
           details: {
             title: newEntity.title,
@@ -195,6 +222,15 @@ export async function POST(request: NextRequest) {
         },
       });
 
+      await recordEntityRevision(tx, {
+        entityId: newEntity.id,
+        projectId,
+        before: null,
+        after: snapshotEntity(newEntity),
+        actor: auth.actor ?? "human",
+        actorId: auth.apiKeyId,
+      });
+
       return newEntity;
     });
 
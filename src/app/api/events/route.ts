@@ -13,8 +13,11 @@ import {
   badRequest,
   serverError,
   parsePagination,
+  unauthorized,
+  forbidden,
 } from "@/lib/api-response";
 import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
 import { EventType, EntityType, ActorType } from "@prisma/client";
 import type { Prisma } from "@prisma/client";
 
@@ -30,11 +33,21 @@ function isEnumValue<T extends Record<string, string>>(
 
 export async function GET(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const { page, limit, skip } = parsePagination(searchParams);
 
@@ -0,0 +1,80 @@
+/**
+ * GET /api/graph/export — Export the project's relationship graph
+ *
+ * ?format=graphml|dot|jgf (required). GraphML and JGF load into Gephi,
+ * DOT into Graphviz. Every project-scoped EntityRelation is an edge; nodes
+ * are the entities, source items, distribution events and videos they
+ * touch, with title/status attributes (lib/graph-export.ts).
+ *
+ * Filters (comma-separated, optional):
+ * - entityType: both endpoints of an edge must have one of these types
+ * - relationType
+ * - status: node status (entity/video/distribution statuses and source
+ *   item statuses); edges to filtered-out nodes are dropped
+ *
+ * The body is streamed; served as an attachment {projectSlug}-graph.{ext}.
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  badRequest,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import {
+  GRAPH_EXPORT_CONTENT_TYPES,
+  GRAPH_EXPORT_EXTENSIONS,
+  generateGraphExport,
+  parseGraphExportParams,
+  streamGraphExport,
+} from "@/lib/graph-export";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const { format, filters, error: paramsError } = parseGraphExportParams(
+      request.nextUrl.searchParams
+    );
+    if (paramsError) {
+      return badRequest(paramsError);
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { name: true, slug: true },
+    });
+    const slug = project?.slug ?? "project";
+
+    const chunks = generateGraphExport(projectId, format, filters, {
+      id: slug,
+      label: project?.name ?? slug,
+    });
+
+    return new Response(streamGraphExport(chunks), {
+      headers: {
+        "Content-Type": GRAPH_EXPORT_CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${slug}-graph.${GRAPH_EXPORT_EXTENSIONS[format]}"`,
+      },
+    });
+  } catch (error) {
+    console.error("GET /api/graph/export error:", error);
+    return serverError();
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * GET /api/integrity/relations — Relationship graph integrity report
+ * POST /api/integrity/relations — Remove dangling relationships
+ *
+ * Checks: lib/relation-integrity.ts. GET is read-only and reports dangling
+ * edges, edges to archived records, edges whose type pair is no longer
+ * allowed, and published entities with no relations. Summary counts are
+ * complete; each list is capped at `limit` (query, 1–1000, default 100).
+ *
+ * POST is the fix mode, human actors only. It collects dangling edges page
+ * by page, then removes them all in one transaction, logging
+ * RELATION_REMOVED for each (details.reason "dangling",
+ * details.missingEndpoints): the fix applies completely or not at all.
+ * Archived-endpoint and disallowed edges are left for the operator.
+ * Returns removedCount, the first `limit` removed edges, and the report
+ * after the fix.
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  successResponse,
+  badRequest,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted, assertHumanActor } from "@/lib/auth";
+import {
+  buildRelationIntegrityReport,
+  danglingRelationPages,
+  DEFAULT_FINDINGS_LIMIT,
+  MAX_FINDINGS_LIMIT,
+  type DanglingRelation,
+} from "@/lib/relation-integrity";
+
+const FIX_BATCH_SIZE = 500;
+const FIX_TRANSACTION_TIMEOUT_MS = 60_000;
+
+/**
+ * Parse the `limit` query parameter. Returns { limit, error? }; if error is
+ * set, the caller should return badRequest(error).
+ */
+function parseLimit(request: NextRequest): { limit: number; error?: string } {
+  const raw = request.nextUrl.searchParams.get("limit");
+  if (raw === null) return { limit: DEFAULT_FINDINGS_LIMIT };
+  const limit = Number(raw);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_FINDINGS_LIMIT) {
+    return { limit, error: `limit must be an integer between 1 and ${MAX_FINDINGS_LIMIT}` };
+  }
+  return { limit };
+}
+
+// =============================================================================
+// GET /api/integrity/relations
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const { limit, error: limitError } = parseLimit(request);
+    if (limitError) {
+      return badRequest(limitError);
+    }
+
+    const report = await buildRelationIntegrityReport(projectId, limit);
+
+    return successResponse(report);
+  } catch (error) {
+    console.error("GET /api/integrity/relations error:", error);
+    return serverError();
+  }
+}
+
+// =============================================================================
+// POST /api/integrity/relations
+// =============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const actorError = assertHumanActor(auth, "remove dangling relationships");
+    if (actorError) {
+      return forbidden(actorError);
+    }
+
+    const { limit, error: limitError } = parseLimit(request);
+    if (limitError) {
+      return badRequest(limitError);
+    }
+
+    const dangling: DanglingRelation[] = [];
+    for await (const page of danglingRelationPages(projectId)) {
+      dangling.push(...page);
+    }
+
+    const removed = await prisma.$transaction(
+      async (tx) => {
+        const toRemove: DanglingRelation[] = [];
+        for (let i = 0; i < dangling.length; i += FIX_BATCH_SIZE) {
+          const batch = dangling.slice(i, i + FIX_BATCH_SIZE);
+          const batchById = new Map(batch.map((relation) => [relation.id, relation]));
+
+          // Skip edges removed since they were read
+          const existing = await tx.entityRelation.findMany({
+            where: { id: { in: [...batchById.keys()] }, projectId },
+            select: { id: true },
+          });
+          const batchRemoved = existing.map((row) => batchById.get(row.id)!);
+          if (batchRemoved.length === 0) continue;
+
+          await tx.entityRelation.deleteMany({
+            where: { id: { in: batchRemoved.map((relation) => relation.id) }, projectId },
+          });
+
+          await tx.eventLog.createMany({
+            data: batchRemoved.map((relation) => ({
+              eventType: "RELATION_REMOVED" as const,
+              entityType: relation.fromEntityType,
+              entityId: relation.fromEntityId,
+              actor: auth.actor ?? "human",
+              actorId: auth.apiKeyId,
+              projectId,
+              details: {
+                relationType: relation.relationType,
+                fromEntityId: relation.fromEntityId,
+                toEntityId: relation.toEntityId,
+                reason: "dangling",
+                missingEndpoints: relation.missingEndpoints,
+              },
+            })),
+          });
+
+          toRemove.push(...batchRemoved);
+        }
+        return toRemove;
+      },
+      // Above Prisma's 5 s default: a neglected graph can hold many dangling edges
+      { timeout: FIX_TRANSACTION_TIMEOUT_MS }
+    );
+
+    const report = await buildRelationIntegrityReport(projectId, limit);
+
+    return successResponse({
+      removedCount: removed.length,
+      removed: removed.slice(0, limit),
+      report,
+    });
+  } catch (error) {
+    console.error("POST /api/integrity/relations error:", error);
+    return serverError();
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * POST /api/projects/[id]/archive — Archive a project
+ *
+ * Project management (global, not project-scoped):
+ * - Refuses while the project still has non-archived entities (409),
+ *   unless the body sets { "force": true }
+ * - Forced archive does not touch the project's entities
+ * - Human actors only; API keys must be granted the project
+ * - Body is optional; no other fields are accepted
+ * - Read, state check, update and EventLog inside prisma.$transaction()
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  successResponse,
+  badRequest,
+  notFound,
+  conflict,
+  errorResponse,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import {
+  authenticateRequest,
+  assertProjectGranted,
+  assertHumanActor,
+} from "@/lib/auth";
+import { ArchiveProjectSchema } from "@/lib/schemas/project";
+import { ActorType, EntityStatus, EntityType, EventType } from "@prisma/client";
+import type { Prisma } from "@prisma/client";
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { id } = await context.params;
+
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    // Non-disclosure: projects outside the key's grants look like missing ones
+    if (assertProjectGranted(auth, id)) {
+      return notFound("Project not found");
+    }
+
+    const actorError = assertHumanActor(auth, "archive projects");
+    if (actorError) {
+      return forbidden(actorError);
+    }
+
+    // Body is optional — an empty body means { force: false }
+    let body: unknown = {};
+    const raw = await request.text();
+    if (raw.trim().length > 0) {
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        return badRequest("Invalid JSON body");
+      }
+    }
+
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return badRequest("Request body must be an object");
+    }
+
+    const parsed = ArchiveProjectSchema.safeParse(body);
+    if (!parsed.success) {
+      const flat = parsed.error.flatten();
+      return badRequest("Validation failed", [
+        ...flat.formErrors.map((msg) => ({
+          code: "VALIDATION_ERROR" as const,
+          message: msg,
+        })),
+        ...Object.entries(flat.fieldErrors).flatMap(([field, messages]) =>
+          (messages ?? []).map((msg) => ({
+            code: "VALIDATION_ERROR" as const,
+            field,
+            message: msg,
+          }))
+        ),
+      ]);
+    }
+
+    const force = parsed.data.force === true;
+
+    const result = await prisma.$transaction(async (tx) => {
+      const existing = await tx.project.findUnique({
+        where: { id },
+        select: { id: true, slug: true, archivedAt: true },
+      });
+
+      if (!existing) {
+        return { kind: "not_found" as const };
+      }
+
+      if (existing.archivedAt) {
+        return { kind: "already_archived" as const };
+      }
+
+      const activeEntityCount = await tx.entity.count({
+        where: { projectId: id, status: { not: EntityStatus.archived } },
+      });
+
+      if (activeEntityCount > 0 && !force) {
+        return { kind: "has_active_entities" as const, activeEntityCount };
+      }
+
+      const updated = await tx.project.update({
+        where: { id },
+        data: { archivedAt: new Date() },
+      });
+
+      const details: Prisma.InputJsonObject = {
+        model: "project",
+        slug: existing.slug,
+        activeEntityCount,
+        forced: force && activeEntityCount > 0,
+      };
+
+      await tx.eventLog.create({
+        data: {
+          eventType: EventType.ENTITY_ARCHIVED,
+          entityType: EntityType.project,
+          entityId: updated.id,
+          actor: auth.actor ?? ActorType.human,
+          actorId: auth.apiKeyId,
+          projectId: updated.id,
+          details,
+        },
+      });
+
+      return { kind: "ok" as const, updated };
+    });
+
+    if (result.kind === "not_found") {
+      return notFound("Project not found");
+    }
+
+    if (result.kind === "already_archived") {
+      return errorResponse(
+        "INVALID_STATE_TRANSITION",
+        "Project is already archived",
+        409
+      );
+    }
+
+    if (result.kind === "has_active_entities") {
+      return conflict(
+        `Project still has ${result.activeEntityCount} non-archived entities. Archive them first or pass { "force": true }.`,
+        "PROJECT_HAS_ACTIVE_ENTITIES"
+      );
+    }
+
+    return successResponse(result.updated);
+  } catch (error) {
+    console.error("POST /api/projects/[id]/archive error:", error);
+    return serverError();
+  }
+}
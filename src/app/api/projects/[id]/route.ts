@@ -0,0 +1,202 @@
+/**
+ * GET /api/projects/[id]
+ * PATCH /api/projects/[id]
+ *
+ * Project management (global, not project-scoped):
+ * - Projects are addressed by id; resolveProjectId() does not apply
+ * - API keys only see granted projects (others return 404); PATCH is human-only
+ * - Slug changes must stay globally unique
+ * - Archived projects are read-only
+ * - Update + EventLog inside prisma.$transaction()
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  successResponse,
+  badRequest,
+  notFound,
+  conflict,
+  errorResponse,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import {
+  authenticateRequest,
+  assertProjectGranted,
+  assertHumanActor,
+} from "@/lib/auth";
+import { UpdateProjectSchema } from "@/lib/schemas/project";
+import { ActorType, EntityType, EventType, Prisma } from "@prisma/client";
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+// =============================================================================
+// GET
+// =============================================================================
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { id } = await context.params;
+
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    // Non-disclosure: projects outside the key's grants look like missing ones
+    if (assertProjectGranted(auth, id)) {
+      return notFound("Project not found");
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+    });
+
+    if (!project) {
+      return notFound("Project not found");
+    }
+
+    return successResponse(project);
+  } catch (error) {
+    console.error("GET /api/projects/[id] error:", error);
+    return serverError();
+  }
+}
+
+// =============================================================================
+// PATCH
+// =============================================================================
+
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { id } = await context.params;
+
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    // Non-disclosure: projects outside the key's grants look like missing ones
+    if (assertProjectGranted(auth, id)) {
+      return notFound("Project not found");
+    }
+
+    const actorError = assertHumanActor(auth, "update projects");
+    if (actorError) {
+      return forbidden(actorError);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return badRequest("Invalid JSON body");
+    }
+
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return badRequest("Request body must be an object");
+    }
+
+    const parsed = UpdateProjectSchema.safeParse(body);
+    if (!parsed.success) {
+      const flat = parsed.error.flatten();
+      return badRequest("Validation failed", [
+        ...flat.formErrors.map((msg) => ({
+          code: "VALIDATION_ERROR" as const,
+          message: msg,
+        })),
+        ...Object.entries(flat.fieldErrors).flatMap(([field, messages]) =>
+          (messages ?? []).map((msg) => ({
+            code: "VALIDATION_ERROR" as const,
+            field,
+            message: msg,
+          }))
+        ),
+      ]);
+    }
+
+    const data = parsed.data;
+
+    const existing = await prisma.project.findUnique({
+      where: { id },
+      select: { id: true, slug: true, archivedAt: true },
+    });
+
+    if (!existing) {
+      return notFound("Project not found");
+    }
+
+    if (existing.archivedAt) {
+      return errorResponse(
+        "INVALID_STATE_TRANSITION",
+        "Cannot update an archived project",
+        409
+      );
+    }
+
+    const updateData: Prisma.ProjectUpdateInput = {};
+    if (data.name !== undefined) updateData.name = data.name;
+    if (data.slug !== undefined) updateData.slug = data.slug;
+    if (data.description !== undefined) updateData.description = data.description;
+
+    try {
+      const updated = await prisma.$transaction(async (tx) => {
+        const project = await tx.project.update({
+          where: { id },
+          data: updateData,
+        });
+
+        const details: Prisma.InputJsonObject = {
+          model: "project",
+          updatedFields: Object.keys(updateData),
+          ...(data.slug !== undefined && data.slug !== existing.slug
+            ? { previousSlug: existing.slug, slug: project.slug }
+            : {}),
+        };
+
+        await tx.eventLog.create({
+          data: {
+            eventType: EventType.ENTITY_UPDATED,
+            entityType: EntityType.project,
+            entityId: project.id,
+            actor: auth.actor ?? ActorType.human,
+            actorId: auth.apiKeyId,
+            projectId: project.id,
+            details,
+          },
+        });
+
+        return project;
+      });
+
+      return successResponse(updated);
+    } catch (err) {
+      if (
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === "P2002"
+      ) {
+        return conflict(`Project slug "${data.slug}" already exists`);
+      }
+      throw err;
+    }
+  } catch (error) {
+    console.error("PATCH /api/projects/[id] error:", error);
+    return serverError();
+  }
+}
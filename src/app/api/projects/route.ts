@@ -1,27 +1,66 @@
 /**
  * GET /api/projects — List all projects
+ * POST /api/projects — Create a project
  *
- * Phase 1 read-only endpoint for MCP `list_projects` tool.
- * - No user-level filtering (all projects visible)
+ * GET: Phase 1 read-only endpoint for MCP `list_projects` tool.
+ * - API keys see only the projects they are granted
+ * - Archived projects excluded unless ?includeArchived=true
  * - Deterministic ordering
  * - Standard pagination
+ *
+ * POST: project onboarding without a hand-written seed.
+ * - Human actors only (API keys with llm/system actor are rejected)
+ * - Slug derived from name when omitted; must be globally unique
+ * - Create + EventLog inside prisma.$transaction()
+ * - Event is written into the new project's own log
  */
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { listResponse, serverError, parsePagination } from "@/lib/api-response";
+import {
+  listResponse,
+  createdResponse,
+  badRequest,
+  conflict,
+  serverError,
+  unauthorized,
+  forbidden,
+  parsePagination,
+} from "@/lib/api-response";
+import { authenticateRequest, assertHumanActor } from "@/lib/auth";
+import { slugify } from "@/lib/validation";
+import { CreateProjectSchema } from "@/lib/schemas/project";
+import { ActorType, EntityType, EventType, Prisma } from "@prisma/client";
+
+// =============================================================================
+// GET /api/projects
+// =============================================================================
 
 export async function GET(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const { page, limit, skip } = parsePagination(searchParams);
 
+    const where: Prisma.ProjectWhereInput = {};
+    if (searchParams.get("includeArchived") !== "true") {
+      where.archivedAt = null;
+    }
+    if (auth.projectIds !== null) {
+      where.id = { in: auth.projectIds };
+    }
+
     const [projects, total] = await Promise.all([
       prisma.project.findMany({
+        where,
         orderBy: [{ slug: "asc" }, { id: "asc" }],
         skip,
         take: limit,
       }),
-      prisma.project.count(),
+      prisma.project.count({ where }),
     ]);
 
     return listResponse(projects, { page, limit, total });
@@ -30,3 +69,104 @@ export async function GET(request: NextRequest) {
     return serverError();
   }
 }
+
+// =============================================================================
+// POST /api/projects
+// =============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const actorError = assertHumanActor(auth, "create projects");
+    if (actorError) {
+      return forbidden(actorError);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return badRequest("Invalid JSON body");
+    }
+
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return badRequest("Request body must be an object");
+    }
+
+    const parsed = CreateProjectSchema.safeParse(body);
+    if (!parsed.success) {
+      const flat = parsed.error.flatten();
+      return badRequest("Validation failed", [
+        ...flat.formErrors.map((msg) => ({
+          code: "VALIDATION_ERROR" as const,
+          message: msg,
+        })),
+        ...Object.entries(flat.fieldErrors).flatMap(([field, messages]) =>
+          (messages ?? []).map((msg) => ({
+            code: "VALIDATION_ERROR" as const,
+            field,
+            message: msg,
+          }))
+        ),
+      ]);
+    }
+
+    const data = parsed.data;
+
+    const slug = data.slug || slugify(data.name);
+    if (!slug) {
+      return badRequest("Cannot derive a slug from name; provide slug explicitly");
+    }
+
+    // Project.slug is globally unique (archived projects keep their slug).
+    // Rely on the unique constraint rather than a pre-check to avoid races.
+    try {
+      const project = await prisma.$transaction(async (tx) => {
+        const created = await tx.project.create({
+          data: {
+            name: data.name,
+            slug,
+            description: data.description || null,
+          },
+        });
+
+        const details: Prisma.InputJsonObject = {
+          model: "project",
+          name: created.name,
+          slug: created.slug,
+        };
+
+        await tx.eventLog.create({
+          data: {
+            eventType: EventType.ENTITY_CREATED,
+            entityType: EntityType.project,
+            entityId: created.id,
+            actor: auth.actor ?? ActorType.human,
+            actorId: auth.apiKeyId,
+            projectId: created.id,
+            details,
+          },
+        });
+
+        return created;
+      });
+
+      return createdResponse(project);
+    } catch (err) {
+      if (
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === "P2002"
+      ) {
+        return conflict(`Project slug "${slug}" already exists`);
+      }
+      throw err;
+    }
+  } catch (error) {
+    console.error("POST /api/projects error:", error);
+    return serverError();
+  }
+}
@@ -20,8 +20,11 @@ import {
   notFound,
   serverError,
   parsePagination,
+  unauthorized,
+  forbidden,
 } from "@/lib/api-response";
 import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
 import { ClaimType, EventType, EntityType, ActorType } from "@prisma/client";
 import type { Prisma } from "@prisma/client";
 import { CreateQuotableBlockSchema } from "@/lib/schemas/quotable-block";
@@ -75,11 +78,21 @@ function isValidIsoDate(value: unknown): value is string {
 
 export async function GET(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const { page, limit, skip } = parsePagination(searchParams);
 
@@ -162,11 +175,21 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     // Parse request body
     let body: unknown;
     try {
@@ -247,7 +270,8 @@ export async function POST(request: NextRequest) {
           eventType: EventType.QUOTABLE_BLOCK_CREATED,
           entityType: EntityType.quotableBlock,
           entityId: qb.id,
-          actor: ActorType.human,
+          actor: auth.actor ?? ActorType.human,
+          actorId: auth.apiKeyId,
           projectId,
           details,
         },
@@ -0,0 +1,250 @@
+/**
+ * PATCH /api/relationships/[id] — Edit a relationship's notes and metadata
+ * DELETE /api/relationships/[id] — Remove a relationship by id
+ *
+ * Body: notes (string | null), metadata ({ citedPassage?, anchor? } | null);
+ * at least one. null or an empty value clears the field; metadata replaces
+ * the stored object as a whole. Endpoints and relationType are immutable —
+ * remove and recreate the relationship instead.
+ *
+ * - Project-scoped; cross-project ids return 404 (non-disclosure)
+ * - No-op when nothing changes (no event)
+ * - Otherwise ENTITY_UPDATED on the from endpoint, details.model
+ *   "entityRelation" with relationId, updatedFields and before/after values
+ * - Mutation + EventLog inside prisma.$transaction()
+ *
+ * DELETE works for any endpoint types (entities, source items, ...) and
+ * for dangling relationships, since the endpoints are not looked up. Logs
+ * RELATION_REMOVED on the from endpoint, like DELETE /api/relationships.
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  successResponse,
+  badRequest,
+  notFound,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import {
+  RelationMetadataSchema,
+  UpdateRelationshipSchema,
+  type RelationMetadata,
+} from "@/lib/schemas/relationship";
+import { ActorType, EventType, Prisma } from "@prisma/client";
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+/**
+ * Field-by-field comparison: JSONB does not keep key order, so serialized
+ * strings differ for equal objects. Stored values that no longer match the
+ * schema always count as a change.
+ */
+function sameMetadata(next: RelationMetadata | null, stored: Prisma.JsonValue): boolean {
+  if (stored === null) return next === null;
+  const parsed = RelationMetadataSchema.safeParse(stored);
+  if (!parsed.success || next === null) return false;
+  return (
+    parsed.data.citedPassage === next.citedPassage && parsed.data.anchor === next.anchor
+  );
+}
+
+// =============================================================================
+// PATCH /api/relationships/[id]
+// =============================================================================
+
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const { id } = await context.params;
+
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return badRequest("Invalid JSON body");
+    }
+
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return badRequest("Request body must be an object");
+    }
+
+    const parsed = UpdateRelationshipSchema.safeParse(body);
+    if (!parsed.success) {
+      const flat = parsed.error.flatten();
+      return badRequest("Validation failed", [
+        ...flat.formErrors.map((msg) => ({
+          code: "VALIDATION_ERROR" as const,
+          message: msg,
+        })),
+        ...Object.entries(flat.fieldErrors).flatMap(([field, messages]) =>
+          (messages ?? []).map((msg) => ({
+            code: "VALIDATION_ERROR" as const,
+            field,
+            message: msg,
+          }))
+        ),
+      ]);
+    }
+
+    const data = parsed.data;
+
+    const existing = await prisma.entityRelation.findUnique({ where: { id } });
+
+    if (!existing || existing.projectId !== projectId) {
+      return notFound("Relationship not found");
+    }
+
+    const updateData: Prisma.EntityRelationUpdateInput = {};
+    const before: Record<string, Prisma.InputJsonValue | null> = {};
+    const after: Record<string, Prisma.InputJsonValue | null> = {};
+
+    if (data.notes !== undefined) {
+      const notes = data.notes || null;
+      if (notes !== existing.notes) {
+        updateData.notes = notes;
+        before.notes = existing.notes;
+        after.notes = notes;
+      }
+    }
+
+    if (data.metadata !== undefined) {
+      const metadata =
+        data.metadata && Object.keys(data.metadata).length > 0 ? data.metadata : null;
+      if (!sameMetadata(metadata, existing.metadata)) {
+        updateData.metadata = metadata ?? Prisma.DbNull;
+        before.metadata = existing.metadata;
+        after.metadata = metadata;
+      }
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return successResponse(existing);
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const relation = await tx.entityRelation.update({
+        where: { id },
+        data: updateData,
+      });
+
+      const details: Prisma.InputJsonObject = {
+        model: "entityRelation",
+        relationId: relation.id,
+        relationType: relation.relationType,
+        fromEntityId: relation.fromEntityId,
+        toEntityId: relation.toEntityId,
+        updatedFields: Object.keys(updateData),
+        before,
+        after,
+      };
+
+      await tx.eventLog.create({
+        data: {
+          eventType: EventType.ENTITY_UPDATED,
+          entityType: relation.fromEntityType,
+          entityId: relation.fromEntityId,
+          actor: auth.actor ?? ActorType.human,
+          actorId: auth.apiKeyId,
+          projectId,
+          details,
+        },
+      });
+
+      return relation;
+    });
+
+    return successResponse(updated);
+  } catch (error) {
+    console.error("PATCH /api/relationships/[id] error:", error);
+    return serverError();
+  }
+}
+
+// =============================================================================
+// DELETE /api/relationships/[id]
+// =============================================================================
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const { id } = await context.params;
+
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    const existing = await prisma.entityRelation.findUnique({ where: { id } });
+
+    if (!existing || existing.projectId !== projectId) {
+      return notFound("Relationship not found");
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.entityRelation.delete({ where: { id } });
+
+      await tx.eventLog.create({
+        data: {
+          eventType: EventType.RELATION_REMOVED,
+          entityType: existing.fromEntityType,
+          entityId: existing.fromEntityId,
+          actor: auth.actor ?? ActorType.human,
+          actorId: auth.apiKeyId,
+          projectId,
+          details: {
+            relationType: existing.relationType,
+            fromEntityId: existing.fromEntityId,
+            toEntityId: existing.toEntityId,
+          },
+        },
+      });
+    });
+
+    return successResponse({ id, deleted: true });
+  } catch (error) {
+    console.error("DELETE /api/relationships/[id] error:", error);
+    return serverError();
+  }
+}
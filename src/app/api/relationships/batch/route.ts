@@ -0,0 +1,332 @@
+/**
+ * POST /api/relationships/batch — Create many relationships in one request
+ *
+ * Body: { mode?, relationships: [{ fromEntityId, toEntityId, relationType,
+ * notes?, metadata? }] } (1–100 rows). Endpoints may be entities, source
+ * items, distribution events or videos; their types are looked up, not sent.
+ *
+ * Each row is validated on its own (error code per row):
+ * - SELF_RELATION: fromEntityId === toEntityId
+ * - NOT_FOUND: an endpoint does not exist in this project (ids in other
+ *   projects included, so their existence is not disclosed)
+ * - CROSS_PROJECT: endpoints in different projects (assertSameProject);
+ *   defensive, as endpoints are only looked up in this project
+ * - INVALID_RELATION_TYPE: not allowed for the endpoint type pair
+ *   (VALID_RELATION_TYPES_BY_PAIR)
+ * - DUPLICATE_IN_BATCH: same edge as an earlier row
+ * - ALREADY_EXISTS: the relationship already exists
+ *
+ * mode:
+ * - all_or_nothing (default): any invalid row → 422 BATCH_REJECTED, one
+ *   error detail per failed row (field "relationships[i]"), nothing written
+ * - best_effort: valid rows are created, invalid rows reported
+ * Valid rows are inserted with one createManyAndReturn and one
+ * RELATION_CREATED event each (details.batch: true), in one transaction.
+ * Results are returned in request order.
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  successResponse,
+  badRequest,
+  conflict,
+  errorResponse,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { Prisma } from "@prisma/client";
+import type { EntityType, RelationType } from "@prisma/client";
+import { resolveProjectId, assertSameProject } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import {
+  BatchCreateRelationshipsSchema,
+  type RelationMetadata,
+} from "@/lib/schemas/relationship";
+import { VALID_RELATION_TYPES_BY_PAIR } from "@/lib/validation";
+
+interface Endpoint {
+  entityType: EntityType;
+  projectId: string;
+}
+
+interface CreatedRelationship {
+  id: string;
+  fromEntityType: EntityType;
+  fromEntityId: string;
+  toEntityType: EntityType;
+  toEntityId: string;
+  relationType: RelationType;
+  notes: string | null;
+  metadata: Prisma.JsonValue;
+  createdAt: string;
+}
+
+type BatchRelationshipResult =
+  | { index: number; ok: true; relationship: CreatedRelationship }
+  | { index: number; ok: false; error: { code: string; message: string } };
+
+interface ValidRow {
+  index: number;
+  fromEntityType: EntityType;
+  fromEntityId: string;
+  toEntityType: EntityType;
+  toEntityId: string;
+  relationType: RelationType;
+  notes: string | null;
+  metadata: RelationMetadata | undefined;
+}
+
+/**
+ * Look up every id as any graph node type within the project. Ids in other
+ * projects are absent from the result, like ids that do not exist.
+ */
+async function resolveEndpoints(
+  projectId: string,
+  ids: string[]
+): Promise<Map<string, Endpoint>> {
+  const where = { id: { in: ids }, projectId };
+  const select = { id: true, projectId: true };
+  const [entities, sources, distributions, videos] = await Promise.all([
+    prisma.entity.findMany({ where, select: { ...select, entityType: true } }),
+    prisma.sourceItem.findMany({ where, select }),
+    prisma.distributionEvent.findMany({ where, select }),
+    prisma.video.findMany({ where, select }),
+  ]);
+
+  const endpoints = new Map<string, Endpoint>();
+  for (const e of entities) endpoints.set(e.id, { entityType: e.entityType, projectId: e.projectId });
+  for (const s of sources) endpoints.set(s.id, { entityType: "sourceItem", projectId: s.projectId });
+  for (const d of distributions) {
+    endpoints.set(d.id, { entityType: "distributionEvent", projectId: d.projectId });
+  }
+  for (const v of videos) endpoints.set(v.id, { entityType: "video", projectId: v.projectId });
+  return endpoints;
+}
+
+function edgeKey(row: { fromEntityId: string; toEntityId: string; relationType: string }) {
+  return `${row.fromEntityId}|${row.relationType}|${row.toEntityId}`;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return badRequest("Invalid JSON body");
+    }
+
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return badRequest("Request body must be an object");
+    }
+
+    const parsed = BatchCreateRelationshipsSchema.safeParse(body);
+    if (!parsed.success) {
+      const flat = parsed.error.flatten();
+      return badRequest("Validation failed", [
+        ...flat.formErrors.map((msg) => ({
+          code: "VALIDATION_ERROR" as const,
+          message: msg,
+        })),
+        ...Object.entries(flat.fieldErrors).flatMap(([field, messages]) =>
+          (messages ?? []).map((msg) => ({
+            code: "VALIDATION_ERROR" as const,
+            field,
+            message: msg,
+          }))
+        ),
+      ]);
+    }
+
+    const { mode, relationships: rows } = parsed.data;
+
+    const endpoints = await resolveEndpoints(projectId, [
+      ...new Set(rows.flatMap((row) => [row.fromEntityId, row.toEntityId])),
+    ]);
+
+    // Existing edges among the requested ones, matched in memory below
+    const existing = await prisma.entityRelation.findMany({
+      where: {
+        projectId,
+        fromEntityId: { in: rows.map((row) => row.fromEntityId) },
+        toEntityId: { in: rows.map((row) => row.toEntityId) },
+        relationType: { in: rows.map((row) => row.relationType) },
+      },
+      select: { fromEntityId: true, toEntityId: true, relationType: true },
+    });
+    const existingKeys = new Set(existing.map(edgeKey));
+
+    const failures = new Map<number, { code: string; message: string }>();
+    const valid: ValidRow[] = [];
+    const batchKeys = new Set<string>();
+
+    rows.forEach((row, index) => {
+      const fail = (code: string, message: string) => failures.set(index, { code, message });
+
+      if (row.fromEntityId === row.toEntityId) {
+        return fail("SELF_RELATION", "Cannot create relationship from entity to itself");
+      }
+
+      const from = endpoints.get(row.fromEntityId);
+      const to = endpoints.get(row.toEntityId);
+      if (!from) {
+        return fail("NOT_FOUND", `From entity not found: ${row.fromEntityId}`);
+      }
+      if (!to) {
+        return fail("NOT_FOUND", `To entity not found: ${row.toEntityId}`);
+      }
+
+      const crossProjectError = assertSameProject(from.projectId, to.projectId, "relationship");
+      if (crossProjectError) {
+        return fail("CROSS_PROJECT", crossProjectError);
+      }
+
+      const allowed = VALID_RELATION_TYPES_BY_PAIR[from.entityType]?.[to.entityType] ?? [];
+      if (!allowed.includes(row.relationType)) {
+        return fail(
+          "INVALID_RELATION_TYPE",
+          allowed.length > 0
+            ? `${row.relationType} is not valid from ${from.entityType} to ${to.entityType}. Must be one of: ${allowed.join(", ")}`
+            : `No relationship is allowed from ${from.entityType} to ${to.entityType}`
+        );
+      }
+
+      const key = edgeKey(row);
+      if (batchKeys.has(key)) {
+        return fail("DUPLICATE_IN_BATCH", "Same relationship as an earlier row");
+      }
+      batchKeys.add(key);
+      if (existingKeys.has(key)) {
+        return fail("ALREADY_EXISTS", "This relationship already exists");
+      }
+
+      valid.push({
+        index,
+        fromEntityType: from.entityType,
+        fromEntityId: row.fromEntityId,
+        toEntityType: to.entityType,
+        toEntityId: row.toEntityId,
+        relationType: row.relationType,
+        notes: row.notes || null,
+        metadata:
+          row.metadata && Object.keys(row.metadata).length > 0 ? row.metadata : undefined,
+      });
+    });
+
+    if (mode === "all_or_nothing" && failures.size > 0) {
+      return errorResponse(
+        "BATCH_REJECTED",
+        `${failures.size} of ${rows.length} relationships failed validation; none were created`,
+        422,
+        [...failures].map(([index, failure]) => ({
+          code: failure.code,
+          field: `relationships[${index}]`,
+          message: failure.message,
+        }))
+      );
+    }
+
+    const actor = auth.actor ?? "human";
+
+    let created: Map<number, CreatedRelationship>;
+    try {
+      created = await prisma.$transaction(async (tx) => {
+        const out = new Map<number, CreatedRelationship>();
+        if (valid.length === 0) return out;
+
+        const inserted = await tx.entityRelation.createManyAndReturn({
+          data: valid.map((row) => ({
+            fromEntityType: row.fromEntityType,
+            fromEntityId: row.fromEntityId,
+            toEntityType: row.toEntityType,
+            toEntityId: row.toEntityId,
+            relationType: row.relationType,
+            notes: row.notes,
+            metadata: row.metadata,
+            projectId,
+          })),
+        });
+
+        // Returned rows are not guaranteed to be in input order; match by edge
+        const insertedByKey = new Map(inserted.map((relation) => [edgeKey(relation), relation]));
+        for (const row of valid) {
+          const relation = insertedByKey.get(edgeKey(row))!;
+          out.set(row.index, {
+            id: relation.id,
+            fromEntityType: relation.fromEntityType,
+            fromEntityId: relation.fromEntityId,
+            toEntityType: relation.toEntityType,
+            toEntityId: relation.toEntityId,
+            relationType: relation.relationType,
+            notes: relation.notes,
+            metadata: relation.metadata,
+            createdAt: relation.createdAt.toISOString(),
+          });
+        }
+
+        await tx.eventLog.createMany({
+          data: valid.map((row) => ({
+            eventType: "RELATION_CREATED" as const,
+            entityType: row.fromEntityType,
+            entityId: row.fromEntityId,
+            actor,
+            actorId: auth.apiKeyId,
+            projectId,
+            details: {
+              relationType: row.relationType,
+              fromEntityId: row.fromEntityId,
+              toEntityId: row.toEntityId,
+              ...(row.notes ? { notes: row.notes } : {}),
+              ...(row.metadata ? { metadata: row.metadata } : {}),
+              batch: true,
+            },
+          })),
+        });
+
+        return out;
+      });
+    } catch (err) {
+      // A concurrent request created one of the edges after validation
+      if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+        return conflict("A relationship in this batch was created concurrently; retry the batch");
+      }
+      throw err;
+    }
+
+    const results: BatchRelationshipResult[] = rows.map((_, index) => {
+      const relationship = created.get(index);
+      return relationship
+        ? { index, ok: true, relationship }
+        : { index, ok: false, error: failures.get(index)! };
+    });
+
+    return successResponse(
+      {
+        mode,
+        createdCount: created.size,
+        failedCount: failures.size,
+        results,
+      },
+      created.size > 0 ? 201 : 200
+    );
+  } catch (error) {
+    console.error("POST /api/relationships/batch error:", error);
+    return serverError();
+  }
+}
@@ -3,6 +3,8 @@
  *
  * Deterministic relationship creation with strict validation.
  * No automation, no business logic beyond validation + insert.
+ * Optional notes and metadata (citedPassage, anchor) record why the
+ * target backs the relationship; edit them with PATCH /api/relationships/[id].
  */
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
@@ -15,10 +17,13 @@ import {
   conflict,
   serverError,
   parsePagination,
+  unauthorized,
+  forbidden,
 } from "@/lib/api-response";
 import { RelationType, ContentEntityType, EntityType } from "@prisma/client";
 import type { Prisma } from "@prisma/client";
 import { resolveProjectId, assertSameProject } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
 import { CreateRelationshipSchema } from "@/lib/schemas/relationship";
 
 // UUID validation regex
@@ -49,11 +54,21 @@ function mapToEntityType(contentType: ContentEntityType): EntityType {
 
 export async function GET(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const { page, limit, skip } = parsePagination(searchParams);
 
@@ -121,11 +136,21 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     let body: unknown;
     try {
       body = await request.json();
@@ -196,6 +221,9 @@ export async function POST(request: NextRequest) {
 
     const fromEntityType = mapToEntityType(fromEntity.entityType);
     const toEntityType = mapToEntityType(toEntity.entityType);
+    const notes = data.notes || null;
+    const metadata =
+      data.metadata && Object.keys(data.metadata).length > 0 ? data.metadata : undefined;
 
     // Check for duplicate relationship
     const existingRelation = await prisma.entityRelation.findUnique({
@@ -224,6 +252,8 @@ export async function POST(request: NextRequest) {
           toEntityType,
           toEntityId: data.toEntityId,
           relationType,
+          notes,
+          metadata,
           projectId,
         },
       });
@@ -233,12 +263,15 @@ export async function POST(request: NextRequest) {
           eventType: "RELATION_CREATED",
           entityType: fromEntityType,
           entityId: data.fromEntityId,
-          actor: "human",
+          actor: auth.actor ?? "human",
+          actorId: auth.apiKeyId,
           projectId,
           details: {
             relationType: data.relationType,
             fromEntityId: data.fromEntityId,
             toEntityId: data.toEntityId,
+            ...(notes ? { notes } : {}),
+            ...(metadata ? { metadata } : {}),
           },
         },
       });
@@ -253,6 +286,8 @@ export async function POST(request: NextRequest) {
       toEntityType: result.toEntityType,
       toEntityId: result.toEntityId,
       relationType: result.relationType,
+      notes: result.notes,
+      metadata: result.metadata,
       createdAt: result.createdAt.toISOString(),
     });
   } catch (error) {
@@ -267,11 +302,21 @@ export async function POST(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     let body: unknown;
     try {
       body = await request.json();
@@ -389,7 +434,8 @@ export async function DELETE(request: NextRequest) {
           eventType: "RELATION_REMOVED",
           entityType: fromEntityType,
           entityId: fromEntityId,
-          actor: "human",
+          actor: auth.actor ?? "human",
+          actorId: auth.apiKeyId,
           projectId,
           details: {
             relationType: relationTypeInput,
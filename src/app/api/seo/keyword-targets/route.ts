@@ -24,8 +24,11 @@ import {
   conflict,
   serverError,
   parsePagination,
+  unauthorized,
+  forbidden,
 } from "@/lib/api-response";
 import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
 import { normalizeQuery } from "@/lib/validation";
 import { CreateKeywordTargetSchema } from "@/lib/schemas/keyword-target";
 import { Prisma } from "@prisma/client";
@@ -40,11 +43,21 @@ type Device = (typeof ALLOWED_DEVICES)[number];
 
 export async function GET(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const { page, limit, skip } = parsePagination(searchParams);
 
@@ -118,11 +131,21 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     let body: unknown;
     try {
       body = await request.json();
@@ -175,7 +198,8 @@ export async function POST(request: NextRequest) {
             eventType: "KEYWORD_TARGET_CREATED",
             entityType: "keywordTarget",
             entityId: created.id,
-            actor: "human",
+            actor: auth.actor ?? "human",
+            actorId: auth.apiKeyId,
             projectId,
             details: {
               query: normalizedQueryStr,
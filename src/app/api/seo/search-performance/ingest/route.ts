@@ -14,8 +14,9 @@
  */
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { successResponse, badRequest, notFound, serverError } from "@/lib/api-response";
+import { successResponse, badRequest, notFound, serverError, unauthorized, forbidden } from "@/lib/api-response";
 import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
 import { EventType, EntityType, ActorType } from "@prisma/client";
 import type { Prisma } from "@prisma/client";
 import {
@@ -25,11 +26,21 @@ import {
 
 export async function POST(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     // Parse request body
     let body: unknown;
     try {
@@ -172,7 +183,8 @@ export async function POST(request: NextRequest) {
           eventType: EventType.ENTITY_UPDATED,
           entityType: EntityType.project,
           entityId: projectId,
-          actor: ActorType.human,
+          actor: auth.actor ?? ActorType.human,
+          actorId: auth.apiKeyId,
           projectId,
           details,
         },
@@ -24,16 +24,16 @@ import {
   successResponse,
   badRequest,
   serverError,
+  unauthorized,
+  forbidden,
 } from "@/lib/api-response";
 import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
 import { normalizeQuery } from "@/lib/validation";
 import { SERPSnapshotIngestSchema } from "@/lib/schemas/serp-snapshot-ingest";
+import { getProjectConfig } from "@/lib/system-config";
 import { Prisma } from "@prisma/client";
 
-// Fixed mock cost per ingest task (DataForSEO standard queue unit price).
-// Replace with real cost computation when provider integration is wired.
-const MOCK_ESTIMATED_COST = 0.001;
-
 // Simulated provider response -- no external API call.
 // Shape matches the DataForSEO SERP Advanced endpoint structure.
 // Replace with real provider call when integration is wired.
@@ -54,11 +54,21 @@ function buildMockRawPayload(
 
 export async function POST(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     let body: unknown;
     try {
       body = await request.json();
@@ -94,9 +104,15 @@ export async function POST(request: NextRequest) {
     // Dry-run path: confirm=false -- return cost estimate, do NOT write
     // ==========================================================================
     if (!data.confirm) {
+      // Mock cost per ingest task (SystemConfig: serp_snapshot_estimated_cost_usd).
+      // Replace with real cost computation when provider integration is wired.
+      const estimatedCost = await getProjectConfig(
+        "serp_snapshot_estimated_cost_usd",
+        projectId
+      );
       return successResponse({
         confirm_required: true,
-        estimated_cost: MOCK_ESTIMATED_COST,
+        estimated_cost: estimatedCost,
       });
     }
 
@@ -136,7 +152,8 @@ export async function POST(request: NextRequest) {
             eventType: "SERP_SNAPSHOT_RECORDED",
             entityType: "serpSnapshot",
             entityId: created.id,
-            actor: "human",
+            actor: auth.actor ?? "human",
+            actorId: auth.apiKeyId,
             projectId,
             details: {
               query: normalizedQuery,
@@ -25,8 +25,11 @@ import {
   badRequest,
   serverError,
   parsePagination,
+  unauthorized,
+  forbidden,
 } from "@/lib/api-response";
 import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
 import { normalizeQuery } from "@/lib/validation";
 import { RecordSERPSnapshotSchema } from "@/lib/schemas/serp-snapshot";
 import { Prisma } from "@prisma/client";
@@ -50,11 +53,21 @@ function isValidIsoTimestamp(value: string): boolean {
 
 export async function GET(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const { page, limit, skip } = parsePagination(searchParams);
 
@@ -181,11 +194,21 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     let body: unknown;
     try {
       body = await request.json();
@@ -245,7 +268,8 @@ export async function POST(request: NextRequest) {
             eventType: "SERP_SNAPSHOT_RECORDED",
             entityType: "serpSnapshot",
             entityId: created.id,
-            actor: "human",
+            actor: auth.actor ?? "human",
+            actorId: auth.apiKeyId,
             projectId,
             details: {
               query: normalizedQueryStr,
@@ -0,0 +1,120 @@
+/**
+ * POST /api/source-feeds/[id]/poll — Poll a feed now (operator-triggered)
+ *
+ * - Project-scoped; cross-project ids return 404 (non-disclosure)
+ * - Inactive feeds cannot be polled (409)
+ * - Creates SourceItems (sourceType=rss, capturedBy=system) for entry URLs
+ *   not already captured; see lib/feed-poller.ts
+ * - Upstream failure → 502 FEED_FETCH_FAILED; not RSS/RDF/Atom → 422 FEED_PARSE_FAILED
+ * - Returns per-URL created/skipped lists
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  successResponse,
+  badRequest,
+  notFound,
+  conflict,
+  errorResponse,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import { pollSourceFeed } from "@/lib/feed-poller";
+import { ActorType, Prisma } from "@prisma/client";
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) return unauthorized(authError);
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) return badRequest(error);
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) return forbidden(grantError);
+
+    const { id } = await context.params;
+
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    const feed = await prisma.sourceFeed.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        projectId: true,
+        name: true,
+        feedUrl: true,
+        platform: true,
+        isActive: true,
+      },
+    });
+
+    if (!feed || feed.projectId !== projectId) {
+      return notFound("Source feed not found");
+    }
+
+    if (!feed.isActive) {
+      return errorResponse(
+        "INVALID_STATE_TRANSITION",
+        "Cannot poll an inactive feed",
+        409
+      );
+    }
+
+    let result;
+    try {
+      result = await pollSourceFeed({
+        feed,
+        actor: auth.actor ?? ActorType.human,
+        actorId: auth.apiKeyId,
+      });
+    } catch (err) {
+      // A concurrent capture of the same URL won the unique constraint
+      if (
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === "P2002"
+      ) {
+        return conflict("A feed entry was captured concurrently; poll again");
+      }
+      throw err;
+    }
+
+    if (result.kind === "fetch_failed") {
+      return errorResponse("FEED_FETCH_FAILED", result.message, 502);
+    }
+
+    if (result.kind === "parse_failed") {
+      return errorResponse(
+        "FEED_PARSE_FAILED",
+        "Feed is not a well-formed RSS 2.0, RSS 1.0 or Atom document",
+        422
+      );
+    }
+
+    return successResponse({
+      feedId: feed.id,
+      format: result.format,
+      entryCount: result.entryCount,
+      invalidEntryCount: result.invalidEntryCount,
+      createdCount: result.created.length,
+      skippedCount: result.skipped.length,
+      created: result.created,
+      skipped: result.skipped,
+      lastPolledAt: result.polledAt.toISOString(),
+    });
+  } catch (error) {
+    console.error("POST /api/source-feeds/[id]/poll error:", error);
+    return serverError();
+  }
+}
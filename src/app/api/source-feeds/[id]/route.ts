@@ -0,0 +1,282 @@
+/**
+ * GET /api/source-feeds/[id]
+ * PATCH /api/source-feeds/[id]
+ * DELETE /api/source-feeds/[id]
+ *
+ * - Project-scoped; cross-project ids return 404 (non-disclosure)
+ * - GET includes the number of source items captured from the feed
+ * - PATCH: feedUrl stays globally unique; ENTITY_UPDATED (details.model "sourceFeed")
+ * - DELETE: only feeds that never produced source items; otherwise 409 —
+ *   deactivate with isActive=false instead so items keep their feed link.
+ *   Logged as ENTITY_ARCHIVED with details.deleted=true.
+ * - Mutation + EventLog inside prisma.$transaction()
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  successResponse,
+  badRequest,
+  notFound,
+  conflict,
+  errorResponse,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import { UpdateSourceFeedSchema } from "@/lib/schemas/source-feed";
+import { ActorType, EntityType, EventType, Prisma } from "@prisma/client";
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+// =============================================================================
+// GET
+// =============================================================================
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const { id } = await context.params;
+
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    const feed = await prisma.sourceFeed.findUnique({
+      where: { id },
+      include: { _count: { select: { sourceItems: true } } },
+    });
+
+    if (!feed || feed.projectId !== projectId) {
+      return notFound("Source feed not found");
+    }
+
+    const { _count, ...rest } = feed;
+    return successResponse({ ...rest, sourceItemCount: _count.sourceItems });
+  } catch (error) {
+    console.error("GET /api/source-feeds/[id] error:", error);
+    return serverError();
+  }
+}
+
+// =============================================================================
+// PATCH
+// =============================================================================
+
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const { id } = await context.params;
+
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return badRequest("Invalid JSON body");
+    }
+
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return badRequest("Request body must be an object");
+    }
+
+    const parsed = UpdateSourceFeedSchema.safeParse(body);
+    if (!parsed.success) {
+      const flat = parsed.error.flatten();
+      return badRequest("Validation failed", [
+        ...flat.formErrors.map((msg) => ({
+          code: "VALIDATION_ERROR" as const,
+          message: msg,
+        })),
+        ...Object.entries(flat.fieldErrors).flatMap(([field, messages]) =>
+          (messages ?? []).map((msg) => ({
+            code: "VALIDATION_ERROR" as const,
+            field,
+            message: msg,
+          }))
+        ),
+      ]);
+    }
+
+    const data = parsed.data;
+
+    const existing = await prisma.sourceFeed.findUnique({
+      where: { id },
+      select: { id: true, projectId: true },
+    });
+
+    if (!existing || existing.projectId !== projectId) {
+      return notFound("Source feed not found");
+    }
+
+    const updateData: Prisma.SourceFeedUpdateInput = {};
+    if (data.name !== undefined) updateData.name = data.name;
+    if (data.feedUrl !== undefined) updateData.feedUrl = data.feedUrl;
+    if (data.platform !== undefined) updateData.platform = data.platform;
+    if (data.platformLabel !== undefined) updateData.platformLabel = data.platformLabel;
+    if (data.isActive !== undefined) updateData.isActive = data.isActive;
+
+    try {
+      const updated = await prisma.$transaction(async (tx) => {
+        const feed = await tx.sourceFeed.update({
+          where: { id },
+          data: updateData,
+        });
+
+        await tx.eventLog.create({
+          data: {
+            eventType: EventType.ENTITY_UPDATED,
+            entityType: EntityType.sourceFeed,
+            entityId: feed.id,
+            actor: auth.actor ?? ActorType.human,
+            actorId: auth.apiKeyId,
+            projectId,
+            details: {
+              model: "sourceFeed",
+              updatedFields: Object.keys(updateData),
+            },
+          },
+        });
+
+        return feed;
+      });
+
+      return successResponse(updated);
+    } catch (err) {
+      if (
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === "P2002"
+      ) {
+        return conflict("A feed with this feedUrl already exists");
+      }
+      throw err;
+    }
+  } catch (error) {
+    console.error("PATCH /api/source-feeds/[id] error:", error);
+    return serverError();
+  }
+}
+
+// =============================================================================
+// DELETE
+// =============================================================================
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const { id } = await context.params;
+
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const feed = await tx.sourceFeed.findUnique({
+        where: { id },
+        include: { _count: { select: { sourceItems: true } } },
+      });
+
+      if (!feed || feed.projectId !== projectId) {
+        return { kind: "not_found" as const };
+      }
+
+      if (feed._count.sourceItems > 0) {
+        return { kind: "has_items" as const, count: feed._count.sourceItems };
+      }
+
+      await tx.sourceFeed.delete({ where: { id } });
+
+      await tx.eventLog.create({
+        data: {
+          eventType: EventType.ENTITY_ARCHIVED,
+          entityType: EntityType.sourceFeed,
+          entityId: feed.id,
+          actor: auth.actor ?? ActorType.human,
+          actorId: auth.apiKeyId,
+          projectId,
+          details: {
+            model: "sourceFeed",
+            deleted: true,
+            name: feed.name,
+            feedUrl: feed.feedUrl,
+          },
+        },
+      });
+
+      return { kind: "deleted" as const };
+    });
+
+    if (result.kind === "not_found") {
+      return notFound("Source feed not found");
+    }
+
+    if (result.kind === "has_items") {
+      return errorResponse(
+        "INVALID_STATE_TRANSITION",
+        `Feed has ${result.count} captured source item(s); set isActive=false instead of deleting`,
+        409
+      );
+    }
+
+    return successResponse({ id, deleted: true });
+  } catch (error) {
+    console.error("DELETE /api/source-feeds/[id] error:", error);
+    return serverError();
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * GET /api/source-feeds/export — Export the project's source feeds as OPML
+ *
+ * - Project-scoped; active feeds only unless ?includeInactive=true
+ * - Feeds grouped into folder outlines by platformLabel (lib/opml.ts)
+ * - Served as an attachment: {projectSlug}-feeds.opml
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  badRequest,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import { buildOpml } from "@/lib/opml";
+import type { Prisma } from "@prisma/client";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const where: Prisma.SourceFeedWhereInput = { projectId };
+    if (request.nextUrl.searchParams.get("includeInactive") !== "true") {
+      where.isActive = true;
+    }
+
+    const [project, feeds] = await Promise.all([
+      prisma.project.findUnique({
+        where: { id: projectId },
+        select: { name: true, slug: true },
+      }),
+      prisma.sourceFeed.findMany({
+        where,
+        orderBy: [{ name: "asc" }, { id: "asc" }],
+        select: { name: true, feedUrl: true, platform: true, platformLabel: true },
+      }),
+    ]);
+
+    const slug = project?.slug ?? "project";
+    const opml = buildOpml({
+      title: `${project?.name ?? slug} source feeds`,
+      feeds,
+      now: new Date(),
+    });
+
+    return new Response(opml, {
+      headers: {
+        "Content-Type": "text/x-opml; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${slug}-feeds.opml"`,
+      },
+    });
+  } catch (error) {
+    console.error("GET /api/source-feeds/export error:", error);
+    return serverError();
+  }
+}
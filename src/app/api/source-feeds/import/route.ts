@@ -0,0 +1,187 @@
+/**
+ * POST /api/source-feeds/import — Import source feeds from OPML
+ *
+ * - Request body is the raw OPML document (any XML content type)
+ * - ?dryRun=true reports what would be created and skipped without writing
+ * - Outline categories map to platformLabel (lib/opml.ts)
+ * - Skips: invalid_url, duplicate_in_document, already_exists (feedUrl is
+ *   globally unique; the owning project is not disclosed)
+ * - Creates + one ENTITY_CREATED per created feed (same details as
+ *   POST /api/source-feeds) inside prisma.$transaction()
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  successResponse,
+  createdResponse,
+  badRequest,
+  conflict,
+  errorResponse,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import { parseOpml, type OpmlFeed } from "@/lib/opml";
+import { ActorType, EntityType, EventType, Prisma } from "@prisma/client";
+
+const MAX_OPML_BYTES = 2_000_000;
+
+type SkipReason = "invalid_url" | "duplicate_in_document" | "already_exists";
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const dryRunParam = request.nextUrl.searchParams.get("dryRun");
+    if (dryRunParam && dryRunParam !== "true" && dryRunParam !== "false") {
+      return badRequest("dryRun must be true or false");
+    }
+    const dryRun = dryRunParam === "true";
+
+    const text = await request.text();
+    if (text.trim().length === 0) {
+      return badRequest("Request body must be an OPML document");
+    }
+    if (text.length > MAX_OPML_BYTES) {
+      return badRequest(`OPML document exceeds ${MAX_OPML_BYTES} bytes`);
+    }
+
+    const outlines = parseOpml(text);
+    if (!outlines) {
+      return errorResponse(
+        "OPML_PARSE_FAILED",
+        "Request body is not a well-formed OPML document",
+        422
+      );
+    }
+
+    const skipped: { name: string; feedUrl: string; reason: SkipReason }[] = [];
+    const candidates = new Map<string, OpmlFeed>();
+    for (const feed of outlines) {
+      if (!isHttpUrl(feed.feedUrl)) {
+        skipped.push({ name: feed.name, feedUrl: feed.feedUrl, reason: "invalid_url" });
+      } else if (candidates.has(feed.feedUrl)) {
+        skipped.push({ name: feed.name, feedUrl: feed.feedUrl, reason: "duplicate_in_document" });
+      } else {
+        candidates.set(feed.feedUrl, feed);
+      }
+    }
+
+    const plan = async (tx: Prisma.TransactionClient) => {
+      const existing = await tx.sourceFeed.findMany({
+        where: { feedUrl: { in: [...candidates.keys()] } },
+        select: { feedUrl: true },
+      });
+      const taken = new Set(existing.map((f) => f.feedUrl));
+      const toCreate: OpmlFeed[] = [];
+      const planSkipped = [...skipped];
+      for (const feed of candidates.values()) {
+        if (taken.has(feed.feedUrl)) {
+          planSkipped.push({ name: feed.name, feedUrl: feed.feedUrl, reason: "already_exists" });
+        } else {
+          toCreate.push(feed);
+        }
+      }
+      return { toCreate, skipped: planSkipped };
+    };
+
+    if (dryRun) {
+      const result = await plan(prisma);
+      return successResponse({
+        dryRun: true,
+        outlineCount: outlines.length,
+        createdCount: result.toCreate.length,
+        skippedCount: result.skipped.length,
+        created: result.toCreate,
+        skipped: result.skipped,
+      });
+    }
+
+    try {
+      const result = await prisma.$transaction(async (tx) => {
+        const { toCreate, skipped: planSkipped } = await plan(tx);
+
+        const created = await tx.sourceFeed.createManyAndReturn({
+          data: toCreate.map((feed) => ({
+            name: feed.name,
+            feedUrl: feed.feedUrl,
+            platform: feed.platform,
+            platformLabel: feed.platformLabel,
+            projectId,
+          })),
+          select: {
+            id: true,
+            name: true,
+            feedUrl: true,
+            platform: true,
+            platformLabel: true,
+          },
+        });
+
+        if (created.length > 0) {
+          await tx.eventLog.createMany({
+            data: created.map((feed) => ({
+              eventType: EventType.ENTITY_CREATED,
+              entityType: EntityType.sourceFeed,
+              entityId: feed.id,
+              actor: auth.actor ?? ActorType.human,
+              actorId: auth.apiKeyId,
+              projectId,
+              details: {
+                model: "sourceFeed",
+                name: feed.name,
+                feedUrl: feed.feedUrl,
+              },
+            })),
+          });
+        }
+
+        return { created, skipped: planSkipped };
+      });
+
+      return createdResponse({
+        dryRun: false,
+        outlineCount: outlines.length,
+        createdCount: result.created.length,
+        skippedCount: result.skipped.length,
+        created: result.created,
+        skipped: result.skipped,
+      });
+    } catch (err) {
+      if (
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === "P2002"
+      ) {
+        return conflict("A feed in the document was created concurrently; import again");
+      }
+      throw err;
+    }
+  } catch (error) {
+    console.error("POST /api/source-feeds/import error:", error);
+    return serverError();
+  }
+}
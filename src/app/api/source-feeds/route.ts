@@ -0,0 +1,190 @@
+/**
+ * GET /api/source-feeds — List source feeds
+ * POST /api/source-feeds — Create a source feed
+ *
+ * GET:
+ * - Project-scoped; filters: ?platform=, ?isActive=true|false
+ * - Deterministic ordering (name, id), standard pagination
+ *
+ * POST:
+ * - feedUrl is globally unique (SourceFeed.feedUrl); duplicates → 409
+ * - Create + EventLog (ENTITY_CREATED, details.model "sourceFeed") inside prisma.$transaction()
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  listResponse,
+  createdResponse,
+  badRequest,
+  conflict,
+  serverError,
+  parsePagination,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { isValidEnum, VALID_PLATFORMS } from "@/lib/validation";
+import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import { CreateSourceFeedSchema } from "@/lib/schemas/source-feed";
+import { ActorType, EntityType, EventType, Prisma } from "@prisma/client";
+
+// =============================================================================
+// GET /api/source-feeds
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const { page, limit, skip } = parsePagination(searchParams);
+
+    const where: Prisma.SourceFeedWhereInput = { projectId };
+
+    const platform = searchParams.get("platform");
+    if (platform) {
+      if (!isValidEnum(platform, VALID_PLATFORMS)) {
+        return badRequest(`Invalid platform: ${platform}`);
+      }
+      where.platform = platform;
+    }
+
+    const isActive = searchParams.get("isActive");
+    if (isActive) {
+      if (isActive !== "true" && isActive !== "false") {
+        return badRequest("isActive must be true or false");
+      }
+      where.isActive = isActive === "true";
+    }
+
+    const [feeds, total] = await Promise.all([
+      prisma.sourceFeed.findMany({
+        where,
+        orderBy: [{ name: "asc" }, { id: "asc" }],
+        skip,
+        take: limit,
+      }),
+      prisma.sourceFeed.count({ where }),
+    ]);
+
+    return listResponse(feeds, { page, limit, total });
+  } catch (error) {
+    console.error("GET /api/source-feeds error:", error);
+    return serverError();
+  }
+}
+
+// =============================================================================
+// POST /api/source-feeds
+// =============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return badRequest("Invalid JSON body");
+    }
+
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return badRequest("Request body must be an object");
+    }
+
+    const parsed = CreateSourceFeedSchema.safeParse(body);
+    if (!parsed.success) {
+      const flat = parsed.error.flatten();
+      return badRequest("Validation failed", [
+        ...flat.formErrors.map((msg) => ({
+          code: "VALIDATION_ERROR" as const,
+          message: msg,
+        })),
+        ...Object.entries(flat.fieldErrors).flatMap(([field, messages]) =>
+          (messages ?? []).map((msg) => ({
+            code: "VALIDATION_ERROR" as const,
+            field,
+            message: msg,
+          }))
+        ),
+      ]);
+    }
+
+    const data = parsed.data;
+
+    // SourceFeed.feedUrl is globally unique; rely on the constraint to avoid races.
+    // The 409 does not say which project owns the URL.
+    try {
+      const feed = await prisma.$transaction(async (tx) => {
+        const created = await tx.sourceFeed.create({
+          data: {
+            name: data.name,
+            feedUrl: data.feedUrl,
+            platform: data.platform,
+            platformLabel: data.platformLabel ?? null,
+            isActive: data.isActive ?? true,
+            projectId,
+          },
+        });
+
+        await tx.eventLog.create({
+          data: {
+            eventType: EventType.ENTITY_CREATED,
+            entityType: EntityType.sourceFeed,
+            entityId: created.id,
+            actor: auth.actor ?? ActorType.human,
+            actorId: auth.apiKeyId,
+            projectId,
+            details: {
+              model: "sourceFeed",
+              name: created.name,
+              feedUrl: created.feedUrl,
+            },
+          },
+        });
+
+        return created;
+      });
+
+      return createdResponse(feed);
+    } catch (err) {
+      if (
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === "P2002"
+      ) {
+        return conflict("A feed with this feedUrl already exists");
+      }
+      throw err;
+    }
+  } catch (error) {
+    console.error("POST /api/source-feeds error:", error);
+    return serverError();
+  }
+}
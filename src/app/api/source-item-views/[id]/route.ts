@@ -0,0 +1,216 @@
+/**
+ * PATCH /api/source-item-views/[id]
+ * DELETE /api/source-item-views/[id]
+ *
+ * - Project-scoped; cross-project ids return 404 (non-disclosure)
+ * - PATCH: name stays unique per project (409); filters are replaced whole.
+ *   ENTITY_UPDATED on the project, details.model "sourceItemView"
+ * - DELETE: hard delete (a view holds no history of its own).
+ *   ENTITY_ARCHIVED on the project with details.deleted=true
+ * - Mutation + EventLog inside prisma.$transaction()
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  successResponse,
+  badRequest,
+  notFound,
+  conflict,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import { UpdateSourceItemViewSchema } from "@/lib/schemas/source-item-view";
+import { ActorType, EntityType, EventType, Prisma } from "@prisma/client";
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+// =============================================================================
+// PATCH
+// =============================================================================
+
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const { id } = await context.params;
+
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return badRequest("Invalid JSON body");
+    }
+
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return badRequest("Request body must be an object");
+    }
+
+    const parsed = UpdateSourceItemViewSchema.safeParse(body);
+    if (!parsed.success) {
+      const flat = parsed.error.flatten();
+      return badRequest("Validation failed", [
+        ...flat.formErrors.map((msg) => ({
+          code: "VALIDATION_ERROR" as const,
+          message: msg,
+        })),
+        ...Object.entries(flat.fieldErrors).flatMap(([field, messages]) =>
+          (messages ?? []).map((msg) => ({
+            code: "VALIDATION_ERROR" as const,
+            field,
+            message: msg,
+          }))
+        ),
+      ]);
+    }
+
+    const data = parsed.data;
+
+    const existing = await prisma.sourceItemView.findUnique({
+      where: { id },
+      select: { id: true, projectId: true },
+    });
+
+    if (!existing || existing.projectId !== projectId) {
+      return notFound("Saved view not found");
+    }
+
+    const updateData: Prisma.SourceItemViewUpdateInput = {};
+    if (data.name !== undefined) updateData.name = data.name;
+    if (data.filters !== undefined) updateData.filters = data.filters;
+    if (data.position !== undefined) updateData.position = data.position;
+
+    try {
+      const updated = await prisma.$transaction(async (tx) => {
+        const view = await tx.sourceItemView.update({
+          where: { id },
+          data: updateData,
+        });
+
+        await tx.eventLog.create({
+          data: {
+            eventType: EventType.ENTITY_UPDATED,
+            entityType: EntityType.project,
+            entityId: projectId,
+            actor: auth.actor ?? ActorType.human,
+            actorId: auth.apiKeyId,
+            projectId,
+            details: {
+              model: "sourceItemView",
+              sourceItemViewId: view.id,
+              updatedFields: Object.keys(updateData),
+            },
+          },
+        });
+
+        return view;
+      });
+
+      return successResponse(updated);
+    } catch (err) {
+      if (
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === "P2002"
+      ) {
+        return conflict("A view with this name already exists");
+      }
+      throw err;
+    }
+  } catch (error) {
+    console.error("PATCH /api/source-item-views/[id] error:", error);
+    return serverError();
+  }
+}
+
+// =============================================================================
+// DELETE
+// =============================================================================
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const { id } = await context.params;
+
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const view = await tx.sourceItemView.findUnique({ where: { id } });
+
+      if (!view || view.projectId !== projectId) {
+        return { kind: "not_found" as const };
+      }
+
+      await tx.sourceItemView.delete({ where: { id } });
+
+      await tx.eventLog.create({
+        data: {
+          eventType: EventType.ENTITY_ARCHIVED,
+          entityType: EntityType.project,
+          entityId: projectId,
+          actor: auth.actor ?? ActorType.human,
+          actorId: auth.apiKeyId,
+          projectId,
+          details: {
+            model: "sourceItemView",
+            sourceItemViewId: view.id,
+            deleted: true,
+            name: view.name,
+          },
+        },
+      });
+
+      return { kind: "deleted" as const };
+    });
+
+    if (result.kind === "not_found") {
+      return notFound("Saved view not found");
+    }
+
+    return successResponse({ id, deleted: true });
+  } catch (error) {
+    console.error("DELETE /api/source-item-views/[id] error:", error);
+    return serverError();
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * GET /api/source-item-views — List saved Source Inbox views
+ * POST /api/source-item-views — Create a saved view
+ *
+ * A saved view is a named set of GET /api/source-items filters (status,
+ * sourceType, platform, tags, tagMode), shown as a tab in the inbox.
+ *
+ * GET:
+ * - Project-scoped; ordered by position, then name. Not paginated.
+ *
+ * POST:
+ * - name is unique per project; duplicates → 409
+ * - Create + EventLog inside prisma.$transaction(). Views are a project
+ *   setting, so the event is ENTITY_CREATED on the project with
+ *   details.model "sourceItemView".
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  successResponse,
+  createdResponse,
+  badRequest,
+  conflict,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import { CreateSourceItemViewSchema } from "@/lib/schemas/source-item-view";
+import { ActorType, EntityType, EventType, Prisma } from "@prisma/client";
+
+// =============================================================================
+// GET /api/source-item-views
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const views = await prisma.sourceItemView.findMany({
+      where: { projectId },
+      orderBy: [{ position: "asc" }, { name: "asc" }, { id: "asc" }],
+    });
+
+    return successResponse(views);
+  } catch (error) {
+    console.error("GET /api/source-item-views error:", error);
+    return serverError();
+  }
+}
+
+// =============================================================================
+// POST /api/source-item-views
+// =============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return badRequest("Invalid JSON body");
+    }
+
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return badRequest("Request body must be an object");
+    }
+
+    const parsed = CreateSourceItemViewSchema.safeParse(body);
+    if (!parsed.success) {
+      const flat = parsed.error.flatten();
+      return badRequest("Validation failed", [
+        ...flat.formErrors.map((msg) => ({
+          code: "VALIDATION_ERROR" as const,
+          message: msg,
+        })),
+        ...Object.entries(flat.fieldErrors).flatMap(([field, messages]) =>
+          (messages ?? []).map((msg) => ({
+            code: "VALIDATION_ERROR" as const,
+            field,
+            message: msg,
+          }))
+        ),
+      ]);
+    }
+
+    const data = parsed.data;
+
+    try {
+      const view = await prisma.$transaction(async (tx) => {
+        const created = await tx.sourceItemView.create({
+          data: {
+            name: data.name,
+            filters: data.filters,
+            position: data.position ?? 0,
+            projectId,
+          },
+        });
+
+        await tx.eventLog.create({
+          data: {
+            eventType: EventType.ENTITY_CREATED,
+            entityType: EntityType.project,
+            entityId: projectId,
+            actor: auth.actor ?? ActorType.human,
+            actorId: auth.apiKeyId,
+            projectId,
+            details: {
+              model: "sourceItemView",
+              sourceItemViewId: created.id,
+              name: created.name,
+              filters: data.filters,
+            },
+          },
+        });
+
+        return created;
+      });
+
+      return createdResponse(view);
+    } catch (err) {
+      if (
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === "P2002"
+      ) {
+        return conflict("A view with this name already exists");
+      }
+      throw err;
+    }
+  } catch (error) {
+    console.error("POST /api/source-item-views error:", error);
+    return serverError();
+  }
+}
@@ -7,6 +7,8 @@
  * - No UI changes
  * - No schema changes
  * - No LLM integration (stub content only)
+ * - Variant limit and expiry from SystemConfig (draft_reply_max_count,
+ *   draft_reply_expiration_days), resolved per project
  *
  * Multi-project hardening:
  * - Project-scoped reads and writes
@@ -21,9 +23,13 @@ import {
   notFound,
   badRequest,
   serverError,
+  unauthorized,
+  forbidden,
 } from "@/lib/api-response";
 import { resolveProjectId } from "@/lib/project";
-import { CreateDraftReplySchema } from "@/lib/schemas/draft-reply";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import { buildCreateDraftReplySchema } from "@/lib/schemas/draft-reply";
+import { getProjectConfigs } from "@/lib/system-config";
 
 type DraftStyle = "short" | "medium" | "thread";
 
@@ -67,7 +73,7 @@ function buildStubReply(args: {
 // =============================================================================
 // POST /api/source-items/[id]/draft-replies
 // Query params:
-// - count=N (1–5 variants, default 1)
+// - count=N (1–draft_reply_max_count variants, default 1)
 // - style=short|medium|thread (default short)
 // =============================================================================
 
@@ -76,11 +82,21 @@ export async function POST(
   context: { params: Promise<{ id: string }> }
 ) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     const { id } = await context.params;
 
     if (!id || !UUID_RE.test(id)) {
@@ -106,7 +122,14 @@ export async function POST(
     const rawCount = url.searchParams.get("count");
     const rawStyle = url.searchParams.get("style");
 
-    const parsed = CreateDraftReplySchema.safeParse({
+    const config = await getProjectConfigs(
+      ["draft_reply_max_count", "draft_reply_expiration_days"],
+      projectId
+    );
+
+    const parsed = buildCreateDraftReplySchema(
+      config.draft_reply_max_count
+    ).safeParse({
       count: rawCount !== null ? Number(rawCount) : undefined,
       style: rawStyle ?? undefined,
     });
@@ -131,7 +154,7 @@ export async function POST(
     const style: DraftStyle = parsed.data.style;
 
     const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 30);
+    expiresAt.setDate(expiresAt.getDate() + config.draft_reply_expiration_days);
 
     // --- Create draft variants + event log atomically ---
     const draftIds = await prisma.$transaction(async (tx) => {
@@ -165,7 +188,8 @@ export async function POST(
           eventType: "DRAFT_CREATED",
           entityType: "sourceItem",
           entityId: sourceItem.id,
-          actor: "system",
+          actor: auth.actor ?? "system",
+          actorId: auth.apiKeyId,
           projectId,
           details: {
             draftIds: ids,
@@ -201,11 +225,21 @@ export async function GET(
   context: { params: Promise<{ id: string }> }
 ) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     const { id } = await context.params;
 
     if (!id || !UUID_RE.test(id)) {
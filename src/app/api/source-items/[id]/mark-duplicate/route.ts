@@ -0,0 +1,223 @@
+/**
+ * POST /api/source-items/[id]/mark-duplicate — Triage an item as a duplicate
+ *
+ * Required: duplicateOfId (the original)
+ * Optional: notes (triage reasoning, appended like status notes)
+ *
+ * - Archives the item (archivedAt kept if already archived) and links it to
+ *   the original via duplicateOfId
+ * - duplicateOfId always points at an original: marking against an item that
+ *   is itself a duplicate links to that item's original, and items that were
+ *   duplicates of this one are re-pointed to the same original
+ * - Items with status=used cannot be marked (409 INVALID_STATE_TRANSITION)
+ * - Both items must be in the request's project (404 otherwise)
+ * - Logs SOURCE_TRIAGED (details.duplicateOfId), plus one SOURCE_TRIAGED per
+ *   re-pointed duplicate (details.repointed: true); updates + events are atomic
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  successResponse,
+  badRequest,
+  notFound,
+  errorResponse,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import { MarkDuplicateSchema } from "@/lib/schemas/source-item";
+import { similarity } from "@/lib/simhash";
+
+// UUID validation regex
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const { id } = await params;
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return badRequest("Invalid JSON body");
+    }
+
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return badRequest("Request body must be an object");
+    }
+
+    const parsed = MarkDuplicateSchema.safeParse(body);
+    if (!parsed.success) {
+      const flat = parsed.error.flatten();
+      return badRequest("Validation failed", [
+        ...flat.formErrors.map((msg) => ({
+          code: "VALIDATION_ERROR" as const,
+          message: msg,
+        })),
+        ...Object.entries(flat.fieldErrors).flatMap(([field, messages]) =>
+          (messages ?? []).map((msg) => ({
+            code: "VALIDATION_ERROR" as const,
+            field,
+            message: msg,
+          }))
+        ),
+      ]);
+    }
+
+    const data = parsed.data;
+
+    if (data.duplicateOfId === id) {
+      return badRequest("A source item cannot be a duplicate of itself");
+    }
+
+    const select = {
+      id: true,
+      projectId: true,
+      status: true,
+      notes: true,
+      archivedAt: true,
+      simhash: true,
+      duplicateOfId: true,
+    } as const;
+
+    const [existing, target] = await Promise.all([
+      prisma.sourceItem.findUnique({ where: { id }, select }),
+      prisma.sourceItem.findUnique({ where: { id: data.duplicateOfId }, select }),
+    ]);
+
+    if (!existing || existing.projectId !== projectId) {
+      return notFound(`SourceItem ${id} not found`);
+    }
+    if (!target || target.projectId !== projectId) {
+      return notFound(`SourceItem ${data.duplicateOfId} not found`);
+    }
+
+    if (existing.status === "used") {
+      return errorResponse(
+        "INVALID_STATE_TRANSITION",
+        "SourceItem is used by content and cannot be marked as a duplicate",
+        409
+      );
+    }
+
+    // Link to the original, never to another duplicate
+    const originalId = target.duplicateOfId ?? target.id;
+    if (originalId === id) {
+      return badRequest(`SourceItem ${data.duplicateOfId} is already a duplicate of this item`);
+    }
+
+    const original =
+      originalId === target.id
+        ? target
+        : await prisma.sourceItem.findUnique({ where: { id: originalId }, select });
+
+    const score =
+      existing.simhash && original?.simhash ? similarity(existing.simhash, original.simhash) : null;
+
+    const now = new Date();
+    const hasNotes = typeof data.notes === "string" && data.notes.length > 0;
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const repointed = await tx.sourceItem.findMany({
+        where: { duplicateOfId: id, projectId },
+        select: { id: true, status: true },
+      });
+      if (repointed.length > 0) {
+        await tx.sourceItem.updateMany({
+          where: { id: { in: repointed.map((r) => r.id) } },
+          data: { duplicateOfId: originalId },
+        });
+      }
+
+      const item = await tx.sourceItem.update({
+        where: { id },
+        data: {
+          status: "archived",
+          archivedAt: existing.archivedAt ?? now,
+          duplicateOfId: originalId,
+          ...(hasNotes
+            ? { notes: `${existing.notes || ""}\n\n[Triage ${now.toISOString()}]: ${data.notes}` }
+            : {}),
+        },
+      });
+
+      await tx.eventLog.create({
+        data: {
+          eventType: "SOURCE_TRIAGED",
+          entityType: "sourceItem",
+          entityId: id,
+          actor: auth.actor ?? "human",
+          actorId: auth.apiKeyId,
+          projectId,
+          details: {
+            previousStatus: existing.status,
+            newStatus: "archived",
+            duplicateOfId: originalId,
+            ...(existing.duplicateOfId ? { previousDuplicateOfId: existing.duplicateOfId } : {}),
+            ...(score !== null ? { similarity: score } : {}),
+            ...(repointed.length > 0 ? { repointedDuplicateCount: repointed.length } : {}),
+            ...(hasNotes ? { notes: data.notes } : {}),
+          },
+        },
+      });
+
+      // Each re-pointed duplicate gets its own event; its status is unchanged
+      if (repointed.length > 0) {
+        await tx.eventLog.createMany({
+          data: repointed.map((r) => ({
+            eventType: "SOURCE_TRIAGED" as const,
+            entityType: "sourceItem" as const,
+            entityId: r.id,
+            actor: auth.actor ?? "human",
+            actorId: auth.apiKeyId,
+            projectId,
+            details: {
+              previousStatus: r.status,
+              newStatus: r.status,
+              duplicateOfId: originalId,
+              previousDuplicateOfId: id,
+              repointed: true,
+            },
+          })),
+        });
+      }
+
+      return item;
+    });
+
+    return successResponse({
+      id: updated.id,
+      status: updated.status,
+      duplicateOfId: updated.duplicateOfId,
+      archivedAt: updated.archivedAt?.toISOString() ?? null,
+      updatedAt: updated.updatedAt.toISOString(),
+    });
+  } catch (error) {
+    console.error("POST /api/source-items/[id]/mark-duplicate error:", error);
+    return serverError();
+  }
+}
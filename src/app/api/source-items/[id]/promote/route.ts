@@ -1,33 +1,442 @@
 /**
- * DEPRECATED / DISABLED ENDPOINT
+ * GET /api/source-items/[id]/promote — Preview a news draft from sources
+ * POST /api/source-items/[id]/promote — Promote sources to a news draft
  *
- * This file previously contained a mistaken copy of GET /api/source-items.
- * The canonical API contract (docs/operations-planning-api/01-API-ENDPOINTS-AND-VALIDATION-CONTRACTS.md)
- * does not define a source-item "promote" endpoint.
+ * [id] is the primary source; additional sources are optional
+ * (?sourceItemIds=a,b on GET, sourceItemIds on POST). Archived sources
+ * cannot be promoted (409). Prefill and concept matching: lib/source-promotion.ts.
  *
- * We intentionally return 404 for all methods until a real spec exists.
+ * GET (read-only): the prefilled draft (title, summary, slug and whether
+ * the slug is taken), the sources with the relation each would get, and
+ * suggested NEWS_REFERENCES_CONCEPT links.
+ *
+ * POST — one transaction:
+ * - Creates a draft news entity (title/summary default to the prefill);
+ *   ENTITY_CREATED with details.promotedFrom, revision 1 recorded
+ * - NEWS_DERIVED_FROM_SOURCE to every source; RELATION_CREATED each
+ * - NEWS_REFERENCES_CONCEPT to each accepted conceptId (must be a
+ *   non-archived concept in the project); RELATION_CREATED each
+ * - Sources are re-read first, so one archived since the pre-check → 409
+ *   and nothing is written
+ * - Sources not yet used → status used; SOURCE_TRIAGED each with
+ *   details.promotedToEntityId
+ * Slug taken → 400 (same as POST /api/entities), also when a concurrent
+ * promote takes it first (P2002). Project-scoped: cross-project ids → 404.
  */
-
-import { serverError } from "@/lib/api-response";
 import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  successResponse,
+  createdResponse,
+  badRequest,
+  notFound,
+  errorResponse,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import { PromoteSourceItemSchema } from "@/lib/schemas/source-item";
+import {
+  MAX_PROMOTION_SOURCES,
+  buildPromotionDraft,
+  suggestConceptLinks,
+  type PromotionSource,
+} from "@/lib/source-promotion";
+import { slugify } from "@/lib/validation";
+import { recordEntityRevision, snapshotEntity } from "@/lib/entity-revisions";
+import { Prisma } from "@prisma/client";
+
+// UUID validation regex
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+const SOURCE_RELATION = "NEWS_DERIVED_FROM_SOURCE" as const;
+const CONCEPT_RELATION = "NEWS_REFERENCES_CONCEPT" as const;
+
+type LoadedSource = PromotionSource & { status: string };
+
+/**
+ * Primary first, then additional sources in request order.
+ * Returns an error response when a source is missing or archived.
+ */
+async function loadSources(
+  client: Prisma.TransactionClient,
+  projectId: string,
+  ids: string[]
+): Promise<{ sources: LoadedSource[]; error?: Response }> {
+  const rows = await client.sourceItem.findMany({
+    where: { id: { in: ids }, projectId },
+    select: {
+      id: true,
+      url: true,
+      title: true,
+      excerpt: true,
+      extractedText: true,
+      status: true,
+    },
+  });
+  const byId = new Map(rows.map((row) => [row.id, row]));
+
+  const sources: LoadedSource[] = [];
+  for (const id of ids) {
+    const source = byId.get(id);
+    if (!source) {
+      return { sources: [], error: notFound(`SourceItem ${id} not found`) };
+    }
+    if (source.status === "archived") {
+      return {
+        sources: [],
+        error: errorResponse(
+          "INVALID_STATE_TRANSITION",
+          `SourceItem ${id} is archived and cannot be promoted`,
+          409
+        ),
+      };
+    }
+    sources.push(source);
+  }
+  return { sources };
+}
 
-function disabled() {
-  // Intentionally do not resolve projectId or reveal existence.
-  return new Response(null, { status: 404 });
+function sourceSummary(source: LoadedSource) {
+  return {
+    id: source.id,
+    url: source.url,
+    title: source.title,
+    status: source.status,
+    relationType: SOURCE_RELATION,
+  };
 }
 
-export async function GET(_request: NextRequest) {
+// =============================================================================
+// GET /api/source-items/[id]/promote
+// =============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
   try {
-    return disabled();
-  } catch {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const { id } = await params;
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    const additionalParam = request.nextUrl.searchParams.get("sourceItemIds");
+    const additional = additionalParam
+      ? [...new Set(additionalParam.split(",").map((s) => s.trim()).filter(Boolean))]
+      : [];
+    if (additional.some((sourceId) => !UUID_RE.test(sourceId))) {
+      return badRequest("sourceItemIds must be comma-separated UUIDs");
+    }
+
+    const ids = [id, ...additional.filter((sourceId) => sourceId !== id)];
+    if (ids.length > MAX_PROMOTION_SOURCES) {
+      return badRequest(`At most ${MAX_PROMOTION_SOURCES} sources can be promoted together`);
+    }
+
+    const { sources, error: sourceError } = await loadSources(prisma, projectId, ids);
+    if (sourceError) {
+      return sourceError;
+    }
+
+    const draft = buildPromotionDraft(sources[0]);
+
+    const [concepts, slugOwner] = await Promise.all([
+      prisma.entity.findMany({
+        where: { projectId, entityType: "concept", status: { not: "archived" } },
+        select: { id: true, title: true, slug: true },
+      }),
+      prisma.entity.findUnique({
+        where: {
+          projectId_entityType_slug: { projectId, entityType: "news", slug: draft.slug },
+        },
+        select: { id: true },
+      }),
+    ]);
+
+    return successResponse({
+      draft: { entityType: "news", ...draft, slugAvailable: !slugOwner },
+      sources: sources.map(sourceSummary),
+      suggestedConcepts: suggestConceptLinks(sources, concepts).map((suggestion) => ({
+        ...suggestion,
+        relationType: CONCEPT_RELATION,
+      })),
+    });
+  } catch (error) {
+    console.error("GET /api/source-items/[id]/promote error:", error);
     return serverError();
   }
 }
 
-export async function POST(_request: NextRequest) {
+// =============================================================================
+// POST /api/source-items/[id]/promote
+// =============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
   try {
-    return disabled();
-  } catch {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const { id } = await params;
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return badRequest("Invalid JSON body");
+    }
+
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return badRequest("Request body must be an object");
+    }
+
+    const parsed = PromoteSourceItemSchema.safeParse(body);
+    if (!parsed.success) {
+      const flat = parsed.error.flatten();
+      return badRequest("Validation failed", [
+        ...flat.formErrors.map((msg) => ({
+          code: "VALIDATION_ERROR" as const,
+          message: msg,
+        })),
+        ...Object.entries(flat.fieldErrors).flatMap(([field, messages]) =>
+          (messages ?? []).map((msg) => ({
+            code: "VALIDATION_ERROR" as const,
+            field,
+            message: msg,
+          }))
+        ),
+      ]);
+    }
+
+    const data = parsed.data;
+    const ids = [id, ...(data.sourceItemIds ?? []).filter((sourceId) => sourceId !== id)];
+    const conceptIds = data.conceptIds ?? [];
+
+    const { sources: checked, error: sourceError } = await loadSources(prisma, projectId, ids);
+    if (sourceError) {
+      return sourceError;
+    }
+
+    const prefill = buildPromotionDraft(checked[0]);
+    const title = data.title ?? prefill.title;
+    const summary = data.summary !== undefined ? data.summary || null : prefill.summary;
+    const slug = data.slug || slugify(title);
+
+    if (!slug) {
+      return badRequest("Cannot derive a slug from the title; provide slug");
+    }
+
+    if (conceptIds.length > 0) {
+      const concepts = await prisma.entity.findMany({
+        where: {
+          id: { in: conceptIds },
+          projectId,
+          entityType: "concept",
+          status: { not: "archived" },
+        },
+        select: { id: true },
+      });
+      const found = new Set(concepts.map((concept) => concept.id));
+      const missing = conceptIds.find((conceptId) => !found.has(conceptId));
+      if (missing) {
+        return notFound(`Concept not found: ${missing}`);
+      }
+    }
+
+    const existingSlug = await prisma.entity.findUnique({
+      where: {
+        projectId_entityType_slug: { projectId, entityType: "news", slug },
+      },
+      select: { id: true },
+    });
+    if (existingSlug) {
+      return badRequest(`Slug "${slug}" already exists for news`);
+    }
+
+    const actor = auth.actor ?? "human";
+
+    try {
+      const result = await prisma.$transaction(async (tx) => {
+        // Re-read: a source may have been archived or used since the pre-check
+        const { sources, error: sourceError } = await loadSources(tx, projectId, ids);
+        if (sourceError) {
+          return { kind: "source_rejected" as const, error: sourceError };
+        }
+
+        const entity = await tx.entity.create({
+          data: {
+            entityType: "news",
+            title,
+            slug,
+            summary,
+            status: "draft",
+            projectId,
+          },
+        });
+
+        await tx.eventLog.create({
+          data: {
+            eventType: "ENTITY_CREATED",
+            entityType: "news",
+            entityId: entity.id,
+            actor,
+            actorId: auth.apiKeyId,
+            projectId,
+            details: {
+              title: entity.title,
+              slug: entity.slug,
+              promotedFrom: ids,
+              ...(data.llmAssisted ? { llmAssisted: true } : {}),
+            },
+          },
+        });
+
+        await recordEntityRevision(tx, {
+          entityId: entity.id,
+          projectId,
+          before: null,
+          after: snapshotEntity(entity),
+          actor,
+          actorId: auth.apiKeyId,
+        });
+
+        const links = [
+          ...ids.map((toEntityId) => ({
+            relationType: SOURCE_RELATION,
+            toEntityType: "sourceItem" as const,
+            toEntityId,
+          })),
+          ...conceptIds.map((toEntityId) => ({
+            relationType: CONCEPT_RELATION,
+            toEntityType: "concept" as const,
+            toEntityId,
+          })),
+        ];
+
+        const relations = [];
+        for (const link of links) {
+          const relation = await tx.entityRelation.create({
+            data: {
+              fromEntityType: "news",
+              fromEntityId: entity.id,
+              toEntityType: link.toEntityType,
+              toEntityId: link.toEntityId,
+              relationType: link.relationType,
+              projectId,
+            },
+          });
+          relations.push(relation);
+        }
+
+        await tx.eventLog.createMany({
+          data: relations.map((relation) => ({
+            eventType: "RELATION_CREATED" as const,
+            entityType: "news" as const,
+            entityId: entity.id,
+            actor,
+            actorId: auth.apiKeyId,
+            projectId,
+            details: {
+              relationType: relation.relationType,
+              fromEntityId: entity.id,
+              toEntityId: relation.toEntityId,
+            },
+          })),
+        });
+
+        const newlyUsed = sources.filter((source) => source.status !== "used");
+        if (newlyUsed.length > 0) {
+          await tx.sourceItem.updateMany({
+            where: { id: { in: newlyUsed.map((source) => source.id) } },
+            data: { status: "used" },
+          });
+
+          await tx.eventLog.createMany({
+            data: newlyUsed.map((source) => ({
+              eventType: "SOURCE_TRIAGED" as const,
+              entityType: "sourceItem" as const,
+              entityId: source.id,
+              actor,
+              actorId: auth.apiKeyId,
+              projectId,
+              details: {
+                previousStatus: source.status,
+                newStatus: "used",
+                promotedToEntityId: entity.id,
+              },
+            })),
+          });
+        }
+
+        return { kind: "created" as const, entity, relations, sources };
+      });
+
+      if (result.kind === "source_rejected") {
+        return result.error;
+      }
+
+      return createdResponse({
+        entity: result.entity,
+        relations: result.relations.map((relation) => ({
+          id: relation.id,
+          relationType: relation.relationType,
+          toEntityType: relation.toEntityType,
+          toEntityId: relation.toEntityId,
+        })),
+        sourceItems: result.sources.map((source) => ({
+          id: source.id,
+          previousStatus: source.status,
+          status: "used",
+        })),
+      });
+    } catch (err) {
+      // A concurrent promote or create took the slug after the pre-check
+      if (
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === "P2002"
+      ) {
+        return badRequest(`Slug "${slug}" already exists for news`);
+      }
+      throw err;
+    }
+  } catch (error) {
+    console.error("POST /api/source-items/[id]/promote error:", error);
     return serverError();
   }
 }
@@ -0,0 +1,115 @@
+/**
+ * GET /api/source-items/[id]/similar — Near-duplicate SourceItems
+ *
+ * Compares the item's SimHash fingerprint (set at capture from the
+ * extracted text) with the project's other fingerprinted items.
+ * - ?threshold=0.5–1 (default 0.9; similarity = 1 - differing bits / 64)
+ * - ?limit=1–50 (default 10)
+ * - Items marked as duplicates are not returned; matches are originals
+ * - An item with no fingerprint (no HTML/text snapshot, or too little text)
+ *   returns fingerprint: null and no matches
+ * - Project-scoped: cross-project ids → 404
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  successResponse,
+  badRequest,
+  notFound,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import { DEFAULT_SIMILARITY_THRESHOLD } from "@/lib/simhash";
+import { findSimilarSourceItems } from "@/lib/near-duplicates";
+
+// UUID validation regex
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const { id } = await params;
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+
+    let threshold = DEFAULT_SIMILARITY_THRESHOLD;
+    const rawThreshold = searchParams.get("threshold");
+    if (rawThreshold !== null) {
+      threshold = Number(rawThreshold);
+      if (!Number.isFinite(threshold) || threshold < 0.5 || threshold > 1) {
+        return badRequest("threshold must be a number between 0.5 and 1");
+      }
+    }
+
+    let limit = DEFAULT_LIMIT;
+    const rawLimit = searchParams.get("limit");
+    if (rawLimit !== null) {
+      limit = Number(rawLimit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+        return badRequest(`limit must be an integer between 1 and ${MAX_LIMIT}`);
+      }
+    }
+
+    const item = await prisma.sourceItem.findUnique({
+      where: { id },
+      select: { id: true, projectId: true, simhash: true, duplicateOfId: true, capturedAt: true },
+    });
+
+    if (!item || item.projectId !== projectId) {
+      return notFound(`SourceItem ${id} not found`);
+    }
+
+    const matches = item.simhash
+      ? await findSimilarSourceItems(
+          projectId,
+          { id: item.id, simhash: item.simhash, capturedAt: item.capturedAt },
+          { threshold, limit }
+        )
+      : [];
+
+    return successResponse({
+      sourceItemId: item.id,
+      fingerprint: item.simhash,
+      duplicateOfId: item.duplicateOfId,
+      threshold,
+      items: matches.map((m) => ({
+        id: m.id,
+        url: m.url,
+        title: m.title,
+        status: m.status,
+        capturedAt: m.capturedAt.toISOString(),
+        similarity: m.similarity,
+      })),
+    });
+  } catch (error) {
+    console.error("GET /api/source-items/[id]/similar error:", error);
+    return serverError();
+  }
+}
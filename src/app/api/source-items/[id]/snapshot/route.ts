@@ -0,0 +1,98 @@
+/**
+ * GET /api/source-items/[id]/snapshot — Download the archived snapshot
+ *
+ * - Project-scoped; cross-project ids return 404 (non-disclosure)
+ * - 404 when the item has no snapshot or the blob is missing
+ * - Bytes are verified against contentHash before they are served;
+ *   a mismatch is a 500 (SNAPSHOT_INTEGRITY_FAILED), never silent
+ * - Always an attachment, sandboxed and nosniff, so archived HTML cannot
+ *   run in the app's origin
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  badRequest,
+  notFound,
+  errorResponse,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import { getBlobStore } from "@/lib/blob-store";
+import { sha256Hex, snapshotFilename } from "@/lib/snapshot";
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) return unauthorized(authError);
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) return badRequest(error);
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) return forbidden(grantError);
+
+    const { id } = await context.params;
+
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    const item = await prisma.sourceItem.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        projectId: true,
+        contentHash: true,
+        snapshotRef: true,
+        snapshotMime: true,
+      },
+    });
+
+    if (!item || item.projectId !== projectId) {
+      return notFound("Source item not found");
+    }
+
+    if (!item.snapshotRef) {
+      return notFound("Source item has no archived snapshot");
+    }
+
+    const bytes = await getBlobStore().get(item.snapshotRef);
+    if (!bytes) {
+      return notFound("Archived snapshot is missing from the blob store");
+    }
+
+    if (sha256Hex(bytes) !== item.contentHash) {
+      console.error(
+        `GET /api/source-items/[id]/snapshot: hash mismatch for ${item.id} (${item.snapshotRef})`
+      );
+      return errorResponse(
+        "SNAPSHOT_INTEGRITY_FAILED",
+        "Archived snapshot does not match its contentHash",
+        500
+      );
+    }
+
+    return new Response(new Uint8Array(bytes), {
+      headers: {
+        "Content-Type": item.snapshotMime ?? "application/octet-stream",
+        "Content-Length": String(bytes.length),
+        "Content-Disposition": `attachment; filename="${snapshotFilename(item.id, item.snapshotMime)}"`,
+        "Content-Security-Policy": "sandbox",
+        "X-Content-Type-Options": "nosniff",
+        ETag: `"${item.contentHash}"`,
+      },
+    });
+  } catch (error) {
+    console.error("GET /api/source-items/[id]/snapshot error:", error);
+    return serverError();
+  }
+}
@@ -17,9 +17,12 @@ import {
   badRequest,
   notFound,
   serverError,
+  unauthorized,
+  forbidden,
 } from "@/lib/api-response";
 import { isValidEnum, VALID_SOURCE_ITEM_STATUSES } from "@/lib/validation";
 import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
 
 // UUID validation regex
 const UUID_RE =
@@ -30,11 +33,21 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     const { id } = await params;
     if (!id || !UUID_RE.test(id)) {
       return badRequest("id must be a valid UUID");
@@ -109,7 +122,8 @@ export async function PUT(
           eventType: "SOURCE_TRIAGED",
           entityType: "sourceItem",
           entityId: id,
-          actor: "human",
+          actor: auth.actor ?? "human",
+          actorId: auth.apiKeyId,
           projectId,
           details: {
             previousStatus: existing.status,
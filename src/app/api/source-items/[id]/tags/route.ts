@@ -0,0 +1,151 @@
+/**
+ * PATCH /api/source-items/[id]/tags — Add and/or remove source item tags
+ *
+ * Body: { add?: string[], remove?: string[] } (at least one tag overall)
+ * - Tags are normalized (trimmed, lowercased, whitespace collapsed)
+ * - A tag may not appear in both add and remove
+ * - At most MAX_TAGS_PER_ITEM tags per item after the change
+ * - Adding a present tag or removing an absent one is a no-op; when nothing
+ *   changes no event is logged
+ * - Logs ENTITY_UPDATED (details.model = "sourceItem", tagsAdded,
+ *   tagsRemoved, tags); update + event are atomic
+ * - Project-scoped: cross-project ids → 404
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  successResponse,
+  badRequest,
+  notFound,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import { MAX_TAGS_PER_ITEM, UpdateSourceItemTagsSchema } from "@/lib/schemas/source-item";
+
+// UUID validation regex
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const { id } = await params;
+    if (!id || !UUID_RE.test(id)) {
+      return badRequest("id must be a valid UUID");
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return badRequest("Invalid JSON body");
+    }
+
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return badRequest("Request body must be an object");
+    }
+
+    const parsed = UpdateSourceItemTagsSchema.safeParse(body);
+    if (!parsed.success) {
+      const flat = parsed.error.flatten();
+      return badRequest("Validation failed", [
+        ...flat.formErrors.map((msg) => ({
+          code: "VALIDATION_ERROR" as const,
+          message: msg,
+        })),
+        ...Object.entries(flat.fieldErrors).flatMap(([field, messages]) =>
+          (messages ?? []).map((msg) => ({
+            code: "VALIDATION_ERROR" as const,
+            field,
+            message: msg,
+          }))
+        ),
+      ]);
+    }
+
+    const add = [...new Set(parsed.data.add ?? [])];
+    const remove = new Set(parsed.data.remove ?? []);
+
+    const overlap = add.filter((tag) => remove.has(tag));
+    if (overlap.length > 0) {
+      return badRequest("Validation failed", [
+        {
+          code: "VALIDATION_ERROR",
+          field: "add",
+          message: `tags cannot be both added and removed: ${overlap.join(", ")}`,
+        },
+      ]);
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const existing = await tx.sourceItem.findUnique({
+        where: { id },
+        select: { id: true, projectId: true, tags: true },
+      });
+      if (!existing || existing.projectId !== projectId) {
+        return { kind: "not_found" as const };
+      }
+
+      const current = new Set(existing.tags);
+      const tagsAdded = add.filter((tag) => !current.has(tag));
+      const tagsRemoved = existing.tags.filter((tag) => remove.has(tag));
+      const tags = [...existing.tags.filter((tag) => !remove.has(tag)), ...tagsAdded];
+
+      if (tags.length > MAX_TAGS_PER_ITEM) {
+        return { kind: "too_many" as const };
+      }
+
+      if (tagsAdded.length === 0 && tagsRemoved.length === 0) {
+        return { kind: "ok" as const, tags: existing.tags, changed: false };
+      }
+
+      await tx.sourceItem.update({ where: { id }, data: { tags } });
+
+      await tx.eventLog.create({
+        data: {
+          eventType: "ENTITY_UPDATED",
+          entityType: "sourceItem",
+          entityId: id,
+          actor: auth.actor ?? "human",
+          actorId: auth.apiKeyId,
+          projectId,
+          details: { model: "sourceItem", tagsAdded, tagsRemoved, tags },
+        },
+      });
+
+      return { kind: "ok" as const, tags, changed: true };
+    });
+
+    if (result.kind === "not_found") {
+      return notFound(`SourceItem ${id} not found`);
+    }
+    if (result.kind === "too_many") {
+      return badRequest(`A source item can have at most ${MAX_TAGS_PER_ITEM} tags`);
+    }
+
+    return successResponse({ id, tags: result.tags, changed: result.changed });
+  } catch (error) {
+    console.error("PATCH /api/source-items/[id]/tags error:", error);
+    return serverError();
+  }
+}
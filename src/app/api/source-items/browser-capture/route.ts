@@ -0,0 +1,230 @@
+/**
+ * POST /api/source-items/browser-capture — Bookmarklet / share-target capture
+ *
+ * Authenticated by a capture token in the X-Capture-Token header
+ * (lib/capture-tokens.ts), not by an API key. The token names the project;
+ * project headers and path prefixes are ignored.
+ *
+ * Required: url, operatorIntent
+ * Optional: title, text (selected or shared text), notes,
+ *           via (bookmarklet | share_target | manual)
+ *
+ * - The URL is canonicalized (lib/canonical-url.ts); platform is inferred
+ *   from the host, sourceType is video for YouTube and webpage otherwise
+ * - New capture: title, excerpt (start of text) and metadata.selectedText
+ *   are saved; status=ingested → 201
+ * - Recapture: notes appended, title/excerpt filled only where empty → 200
+ * - URL already captured in another project → 409
+ * - A concurrent capture of the same new URL wins the unique constraint → 409;
+ *   capturing again records a recapture
+ * - Each capture consumes one token use inside the capture transaction;
+ *   a token used up, revoked or expired concurrently → 401, nothing written
+ * - Logs SOURCE_CAPTURED (details.via, details.captureTokenId), attributed
+ *   to the API key that minted the token
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  createdResponse,
+  successResponse,
+  badRequest,
+  conflict,
+  serverError,
+  unauthorized,
+} from "@/lib/api-response";
+import { generateContentHash } from "@/lib/validation";
+import { authenticateCaptureToken, consumeCaptureToken } from "@/lib/capture-tokens";
+import { BrowserCaptureSchema } from "@/lib/schemas/source-item";
+import { canonicalizeUrl } from "@/lib/canonical-url";
+import { inferPlatform } from "@/lib/opml";
+import { extractPlainText } from "@/lib/page-extraction";
+import { ActorType, Prisma } from "@prisma/client";
+
+function browserCaptureResponse(
+  item: {
+    id: string;
+    sourceType: string;
+    platform: string;
+    url: string;
+    status: string;
+    title: string | null;
+    excerpt: string | null;
+    capturedAt: Date;
+    createdAt: Date;
+  },
+  recapture: boolean
+) {
+  return {
+    id: item.id,
+    sourceType: item.sourceType,
+    platform: item.platform,
+    url: item.url,
+    status: item.status,
+    title: item.title,
+    excerpt: item.excerpt,
+    recapture,
+    capturedAt: item.capturedAt.toISOString(),
+    createdAt: item.createdAt.toISOString(),
+  };
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { grant, error: tokenError } = await authenticateCaptureToken(request);
+    if (!grant) {
+      return unauthorized(tokenError);
+    }
+
+    const projectId = grant.projectId;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return badRequest("Invalid JSON body");
+    }
+
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return badRequest("Request body must be an object");
+    }
+
+    const parsed = BrowserCaptureSchema.safeParse(body);
+    if (!parsed.success) {
+      const flat = parsed.error.flatten();
+      return badRequest("Validation failed", [
+        ...flat.formErrors.map((msg) => ({
+          code: "VALIDATION_ERROR" as const,
+          message: msg,
+        })),
+        ...Object.entries(flat.fieldErrors).flatMap(([field, messages]) =>
+          (messages ?? []).map((msg) => ({
+            code: "VALIDATION_ERROR" as const,
+            field,
+            message: msg,
+          }))
+        ),
+      ]);
+    }
+
+    const data = parsed.data;
+    const url = canonicalizeUrl(data.url);
+    const platform = inferPlatform(url);
+    const sourceType = platform === "youtube" ? "video" : "webpage";
+    const title = data.title || null;
+    const selectedText = data.text || null;
+    const excerpt = selectedText ? extractPlainText(selectedText).excerpt : null;
+
+    const eventDetails = {
+      via: data.via,
+      captureTokenId: grant.id,
+      sourceType,
+      url,
+      ...(url !== data.url ? { originalUrl: data.url } : {}),
+      operatorIntent: data.operatorIntent,
+      ...(title ? { title } : {}),
+      ...(selectedText ? { selectedText } : {}),
+      ...(data.notes ? { notes: data.notes } : {}),
+    };
+
+    // NOTE: SourceItem.url is globally unique in the schema. Enforce project isolation explicitly.
+    const existing = await prisma.sourceItem.findUnique({ where: { url } });
+
+    if (existing && existing.projectId !== projectId) {
+      return conflict("URL already exists");
+    }
+
+    try {
+      const result = await prisma.$transaction(async (tx) => {
+        if (!(await consumeCaptureToken(tx, grant))) {
+          return { kind: "token_rejected" as const };
+        }
+
+        if (existing) {
+          // --- Recapture: URL already exists ---
+          const item = await tx.sourceItem.update({
+            where: { id: existing.id },
+            data: {
+              ...(data.notes
+                ? { notes: `${existing.notes || ""}\n\n[Recapture ${new Date().toISOString()}]: ${data.notes}` }
+                : {}),
+              ...(!existing.title && title ? { title } : {}),
+              ...(!existing.excerpt && excerpt ? { excerpt } : {}),
+            },
+          });
+
+          await tx.eventLog.create({
+            data: {
+              eventType: "SOURCE_CAPTURED",
+              entityType: "sourceItem",
+              entityId: item.id,
+              actor: ActorType.human,
+              actorId: grant.createdByApiKeyId,
+              projectId,
+              details: { recapture: true, ...eventDetails },
+            },
+          });
+
+          return { kind: "recaptured" as const, item };
+        }
+
+        // --- New capture ---
+        const contentHash = await generateContentHash(url);
+        const item = await tx.sourceItem.create({
+          data: {
+            sourceType,
+            platform,
+            url,
+            capturedBy: "human",
+            contentHash,
+            title,
+            excerpt,
+            metadata: {
+              originalUrl: data.url,
+              ...(selectedText ? { selectedText } : {}),
+            },
+            operatorIntent: data.operatorIntent,
+            notes: data.notes || null,
+            status: "ingested",
+            projectId,
+          },
+        });
+
+        await tx.eventLog.create({
+          data: {
+            eventType: "SOURCE_CAPTURED",
+            entityType: "sourceItem",
+            entityId: item.id,
+            actor: ActorType.human,
+            actorId: grant.createdByApiKeyId,
+            projectId,
+            details: eventDetails,
+          },
+        });
+
+        return { kind: "created" as const, item };
+      });
+
+      if (result.kind === "token_rejected") {
+        return unauthorized("Capture token is no longer valid");
+      }
+
+      if (result.kind === "recaptured") {
+        return successResponse(browserCaptureResponse(result.item, true));
+      }
+
+      return createdResponse(browserCaptureResponse(result.item, false));
+    } catch (err) {
+      // A concurrent capture of the same URL won the unique constraint
+      if (
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === "P2002"
+      ) {
+        return conflict("URL was captured concurrently; capture again");
+      }
+      throw err;
+    }
+  } catch (error) {
+    console.error("POST /api/source-items/browser-capture error:", error);
+    return serverError();
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * POST /api/source-items/bulk-status — Triage many SourceItems at once
+ *
+ * Required: ids (1–100 unique UUIDs), status (ingested | triaged | archived)
+ * Optional: notes (appended to every updated item as a triage note)
+ *
+ * - Each transition is checked against SOURCE_ITEM_TRIAGE_TRANSITIONS;
+ *   items that fail (not found, invalid transition) are reported and
+ *   skipped, the rest are applied
+ * - Reads, updates and events run in one transaction: one updateMany for the
+ *   status, per-item updates only to append notes, and one SOURCE_TRIAGED
+ *   event per updated item (same details as PUT /status, plus bulk: true)
+ * - Archiving sets archivedAt; leaving archived clears it
+ * - Project-scoped: ids in other projects are reported as NOT_FOUND
+ * - Results are returned in request order
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  successResponse,
+  badRequest,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import { BulkStatusSchema } from "@/lib/schemas/source-item";
+import { SOURCE_ITEM_TRIAGE_TRANSITIONS } from "@/lib/validation";
+
+const BULK_STATUS_TRANSACTION_TIMEOUT_MS = 30_000;
+
+type BulkStatusResult =
+  | { id: string; ok: true; previousStatus: string; status: string }
+  | { id: string; ok: false; error: { code: string; message: string } };
+
+export async function POST(request: NextRequest) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return badRequest("Invalid JSON body");
+    }
+
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return badRequest("Request body must be an object");
+    }
+
+    const parsed = BulkStatusSchema.safeParse(body);
+    if (!parsed.success) {
+      const flat = parsed.error.flatten();
+      return badRequest("Validation failed", [
+        ...flat.formErrors.map((msg) => ({
+          code: "VALIDATION_ERROR" as const,
+          message: msg,
+        })),
+        ...Object.entries(flat.fieldErrors).flatMap(([field, messages]) =>
+          (messages ?? []).map((msg) => ({
+            code: "VALIDATION_ERROR" as const,
+            field,
+            message: msg,
+          }))
+        ),
+      ]);
+    }
+
+    const { ids, status: newStatus, notes } = parsed.data;
+    const hasNotes = typeof notes === "string" && notes.length > 0;
+
+    const results = await prisma.$transaction(
+      async (tx) => {
+        const now = new Date();
+        const existing = await tx.sourceItem.findMany({
+          where: { id: { in: ids }, projectId },
+          select: { id: true, status: true, notes: true },
+        });
+        const byId = new Map(existing.map((item) => [item.id, item]));
+
+        const out: BulkStatusResult[] = ids.map((id) => {
+          const item = byId.get(id);
+          if (!item) {
+            return {
+              id,
+              ok: false,
+              error: { code: "NOT_FOUND", message: `SourceItem ${id} not found` },
+            };
+          }
+
+          const allowed = SOURCE_ITEM_TRIAGE_TRANSITIONS[item.status] ?? [];
+          if (!allowed.includes(newStatus)) {
+            return {
+              id,
+              ok: false,
+              error: {
+                code: "INVALID_STATE_TRANSITION",
+                message: `Cannot change status from ${item.status} to ${newStatus}`,
+              },
+            };
+          }
+
+          return { id, ok: true, previousStatus: item.status, status: newStatus };
+        });
+
+        const updated = out.filter(
+          (r): r is Extract<BulkStatusResult, { ok: true }> => r.ok
+        );
+        if (updated.length === 0) return out;
+
+        // Every item gets the same status, so one statement covers them all
+        await tx.sourceItem.updateMany({
+          where: { id: { in: updated.map((r) => r.id) }, projectId },
+          data: { status: newStatus, archivedAt: newStatus === "archived" ? now : null },
+        });
+
+        // Notes are appended to each item's own text, one update per item
+        if (hasNotes) {
+          for (const r of updated) {
+            await tx.sourceItem.update({
+              where: { id: r.id },
+              data: {
+                notes: `${byId.get(r.id)!.notes || ""}\n\n[Triage ${now.toISOString()}]: ${notes}`,
+              },
+            });
+          }
+        }
+
+        await tx.eventLog.createMany({
+          data: updated.map((r) => ({
+            eventType: "SOURCE_TRIAGED" as const,
+            entityType: "sourceItem",
+            entityId: r.id,
+            actor: auth.actor ?? "human",
+            actorId: auth.apiKeyId,
+            projectId,
+            details: {
+              previousStatus: r.previousStatus,
+              newStatus,
+              bulk: true,
+              ...(hasNotes ? { notes } : {}),
+            },
+          })),
+        });
+
+        return out;
+      },
+      // Above Prisma's 5 s default: with notes, up to BULK_STATUS_MAX_IDS updates
+      { timeout: BULK_STATUS_TRANSACTION_TIMEOUT_MS }
+    );
+
+    const updatedCount = results.filter((r) => r.ok).length;
+
+    return successResponse({
+      status: newStatus,
+      updatedCount,
+      failedCount: results.length - updatedCount,
+      results,
+    });
+  } catch (error) {
+    console.error("POST /api/source-items/bulk-status error:", error);
+    return serverError();
+  }
+}
@@ -3,11 +3,27 @@
  * Per docs/operations-planning-api/01-API-ENDPOINTS-AND-VALIDATION-CONTRACTS.md
  *
  * Creates a new SourceItem, or handles recapture if URL already exists.
+ * The URL is canonicalized first (lib/canonical-url.ts) and uniqueness is
+ * checked on the canonical form; the URL as submitted is kept in
+ * metadata.originalUrl.
  * Required: sourceType, url, operatorIntent
- * Optional: platform, notes
+ * Optional: platform, notes, snapshot
+ *
+ * Body is JSON (snapshot inline as { mimeType, contentBase64 }) or
+ * multipart/form-data (same fields as text parts, snapshot as a file part).
+ * Snapshots (HTML, PDF, plain text) are archived in the blob store
+ * (lib/snapshot.ts); contentHash is then the SHA-256 of the snapshot bytes,
+ * otherwise of the URL.
+ *
+ * HTML and plain-text snapshots are run through lib/page-extraction.ts; the
+ * title, author, publishedAt, excerpt, readable text and page metadata are
+ * saved on the SourceItem, with a SimHash fingerprint of the text for
+ * near-duplicate detection (lib/simhash.ts). PDF snapshots are stored without extraction (a
+ * PDF recapture leaves earlier extracted fields as they were).
  *
  * New capture: status=ingested, generates contentHash, logs SOURCE_CAPTURED → 201
- * Recapture: logs SOURCE_CAPTURED with recapture=true, appends notes → 200
+ * Recapture: logs SOURCE_CAPTURED with recapture=true, appends notes, replaces
+ * the snapshot when one is sent (previous hash kept in the event) → 200
  */
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
@@ -17,23 +33,147 @@ import {
   badRequest,
   conflict,
   serverError,
+  unauthorized,
+  forbidden,
 } from "@/lib/api-response";
 import { generateContentHash } from "@/lib/validation";
 import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
 import { CaptureSourceItemSchema } from "@/lib/schemas/source-item";
+import {
+  SNAPSHOT_MIME_TYPES,
+  normalizeSnapshotMime,
+  storeSnapshot,
+  validateSnapshotBytes,
+  type StoredSnapshot,
+} from "@/lib/snapshot";
+import { extractSnapshot, type PageExtraction } from "@/lib/page-extraction";
+import { canonicalizeUrl } from "@/lib/canonical-url";
+import { simhash } from "@/lib/simhash";
+import type { Prisma } from "@prisma/client";
+
+function snapshotFields(snapshot: StoredSnapshot) {
+  return {
+    contentHash: snapshot.contentHash,
+    snapshotRef: snapshot.snapshotRef,
+    snapshotMime: snapshot.snapshotMime,
+    snapshotBytes: snapshot.snapshotBytes,
+  };
+}
+
+function snapshotDetails(snapshot: StoredSnapshot) {
+  return {
+    contentHash: snapshot.contentHash,
+    mime: snapshot.snapshotMime,
+    bytes: snapshot.snapshotBytes,
+  };
+}
+
+// Items captured before canonicalization have no originalUrl; their stored URL is the original
+function originalUrlOf(item: { url: string; metadata: Prisma.JsonValue }): string {
+  const metadata = item.metadata;
+  if (metadata && typeof metadata === "object" && !Array.isArray(metadata)) {
+    const originalUrl = metadata.originalUrl;
+    if (typeof originalUrl === "string") return originalUrl;
+  }
+  return item.url;
+}
+
+function extractionFields(extraction: PageExtraction, originalUrl: string) {
+  return {
+    title: extraction.title,
+    author: extraction.author,
+    publishedAt: extraction.publishedAt,
+    excerpt: extraction.excerpt,
+    extractedText: extraction.text,
+    simhash: simhash(extraction.text),
+    metadata: { ...extraction.metadata, originalUrl },
+    extractedAt: new Date(),
+  };
+}
+
+// Same shape for 201 (new) and 200 (recapture)
+function captureResponse(item: {
+  id: string;
+  sourceType: string;
+  url: string;
+  status: string;
+  contentHash: string;
+  snapshotMime: string | null;
+  snapshotBytes: number | null;
+  title: string | null;
+  author: string | null;
+  publishedAt: Date | null;
+  excerpt: string | null;
+  capturedAt: Date;
+  createdAt: Date;
+}) {
+  return {
+    id: item.id,
+    sourceType: item.sourceType,
+    url: item.url,
+    status: item.status,
+    contentHash: item.contentHash,
+    snapshotMime: item.snapshotMime,
+    snapshotBytes: item.snapshotBytes,
+    title: item.title,
+    author: item.author,
+    publishedAt: item.publishedAt?.toISOString() ?? null,
+    excerpt: item.excerpt,
+    capturedAt: item.capturedAt.toISOString(),
+    createdAt: item.createdAt.toISOString(),
+  };
+}
 
 export async function POST(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     let body: unknown;
-    try {
-      body = await request.json();
-    } catch {
-      return badRequest("Invalid JSON body");
+    let upload: { bytes: Uint8Array; mime: string } | null = null;
+
+    const contentType = request.headers.get("content-type") ?? "";
+    if (contentType.toLowerCase().startsWith("multipart/form-data")) {
+      let form: FormData;
+      try {
+        form = await request.formData();
+      } catch {
+        return badRequest("Invalid multipart body");
+      }
+
+      const fields: Record<string, string> = {};
+      for (const [key, value] of form.entries()) {
+        if (key !== "snapshot" && typeof value === "string") fields[key] = value;
+      }
+
+      const file = form.get("snapshot");
+      if (file !== null) {
+        if (typeof file === "string") {
+          return badRequest("snapshot must be uploaded as a file part");
+        }
+        upload = { bytes: new Uint8Array(await file.arrayBuffer()), mime: file.type };
+      }
+
+      body = fields;
+    } else {
+      try {
+        body = await request.json();
+      } catch {
+        return badRequest("Invalid JSON body");
+      }
     }
 
     if (!body || typeof body !== "object" || Array.isArray(body)) {
@@ -60,10 +200,35 @@ export async function POST(request: NextRequest) {
 
     const data = parsed.data;
 
+    if (data.snapshot) {
+      upload = {
+        bytes: Buffer.from(data.snapshot.contentBase64, "base64"),
+        mime: data.snapshot.mimeType,
+      };
+    }
+
+    const snapshotMime = upload ? normalizeSnapshotMime(upload.mime) : null;
+    if (upload) {
+      const snapshotError = snapshotMime
+        ? validateSnapshotBytes(upload.bytes, snapshotMime)
+        : `snapshot type must be one of: ${SNAPSHOT_MIME_TYPES.join(", ")}`;
+      if (snapshotError) {
+        return badRequest("Validation failed", [
+          { code: "VALIDATION_ERROR", field: "snapshot", message: snapshotError },
+        ]);
+      }
+    }
+
+    // Pure and synchronous; runs before any write
+    const extraction =
+      upload && snapshotMime ? extractSnapshot(upload.bytes, snapshotMime) : null;
+
+    const url = canonicalizeUrl(data.url);
+
     // --- Check for existing SourceItem with this URL ---
     // NOTE: SourceItem.url is globally unique in the schema. Enforce project isolation explicitly.
     const existing = await prisma.sourceItem.findUnique({
-      where: { url: data.url },
+      where: { url },
     });
 
     if (existing) {
@@ -73,14 +238,27 @@ export async function POST(request: NextRequest) {
         return conflict("URL already exists");
       }
 
+      // Blob writes are content-addressed and idempotent, so they happen
+      // before the transaction; an aborted transaction leaves an unreferenced blob.
+      const snapshot =
+        upload && snapshotMime
+          ? await storeSnapshot(projectId, upload.bytes, snapshotMime)
+          : null;
+
       // --- Recapture: URL already exists --- (transactional)
-      await prisma.$transaction(async (tx) => {
-        if (data.notes) {
+      const recaptured = await prisma.$transaction(async (tx) => {
+        let item = existing;
+        if (data.notes || snapshot) {
           const existingNotes = existing.notes || "";
-          const recaptureNote = `\n\n[Recapture ${new Date().toISOString()}]: ${data.notes}`;
-          await tx.sourceItem.update({
+          item = await tx.sourceItem.update({
             where: { id: existing.id },
-            data: { notes: existingNotes + recaptureNote },
+            data: {
+              ...(data.notes
+                ? { notes: `${existingNotes}\n\n[Recapture ${new Date().toISOString()}]: ${data.notes}` }
+                : {}),
+              ...(snapshot ? snapshotFields(snapshot) : {}),
+              ...(extraction ? extractionFields(extraction, originalUrlOf(existing)) : {}),
+            },
           });
         }
 
@@ -89,40 +267,54 @@ export async function POST(request: NextRequest) {
             eventType: "SOURCE_CAPTURED",
             entityType: "sourceItem",
             entityId: existing.id,
-            actor: "human",
+            actor: auth.actor ?? "human",
+            actorId: auth.apiKeyId,
             projectId,
             details: {
               recapture: true,
               sourceType: data.sourceType,
-              url: data.url,
+              url,
+              ...(url !== data.url ? { originalUrl: data.url } : {}),
               operatorIntent: data.operatorIntent,
               ...(data.notes ? { notes: data.notes } : {}),
+              ...(snapshot
+                ? {
+                    snapshot: snapshotDetails(snapshot),
+                    previousContentHash: existing.contentHash,
+                    previousSnapshotRef: existing.snapshotRef,
+                  }
+                : {}),
             },
           },
         });
-      });
 
-      return successResponse({
-        id: existing.id,
-        sourceType: existing.sourceType,
-        url: existing.url,
-        status: existing.status,
-        capturedAt: existing.capturedAt.toISOString(),
-        createdAt: existing.createdAt.toISOString(),
+        return item;
       });
+
+      return successResponse(captureResponse(recaptured));
     }
 
     // --- New capture: URL does not exist --- (transactional)
-    const contentHash = await generateContentHash(data.url);
+    const snapshot =
+      upload && snapshotMime
+        ? await storeSnapshot(projectId, upload.bytes, snapshotMime)
+        : null;
+    const contentHash = snapshot
+      ? snapshot.contentHash
+      : await generateContentHash(url);
 
     const sourceItem = await prisma.$transaction(async (tx) => {
       const item = await tx.sourceItem.create({
         data: {
           sourceType: data.sourceType,
           platform: data.platform || "other",
-          url: data.url,
+          url,
           capturedBy: "human",
           contentHash,
+          ...(snapshot ? snapshotFields(snapshot) : {}),
+          ...(extraction
+            ? extractionFields(extraction, data.url)
+            : { metadata: { originalUrl: data.url } }),
           operatorIntent: data.operatorIntent,
           notes: data.notes || null,
           status: "ingested",
@@ -135,12 +327,15 @@ export async function POST(request: NextRequest) {
           eventType: "SOURCE_CAPTURED",
           entityType: "sourceItem",
           entityId: item.id,
-          actor: "human",
+          actor: auth.actor ?? "human",
+          actorId: auth.apiKeyId,
           projectId,
           details: {
             sourceType: item.sourceType,
             url: item.url,
+            ...(url !== data.url ? { originalUrl: data.url } : {}),
             operatorIntent: data.operatorIntent,
+            ...(snapshot ? { snapshot: snapshotDetails(snapshot) } : {}),
           },
         },
       });
@@ -148,14 +343,7 @@ export async function POST(request: NextRequest) {
       return item;
     });
 
-    return createdResponse({
-      id: sourceItem.id,
-      sourceType: sourceItem.sourceType,
-      url: sourceItem.url,
-      status: sourceItem.status,
-      capturedAt: sourceItem.capturedAt.toISOString(),
-      createdAt: sourceItem.createdAt.toISOString(),
-    });
+    return createdResponse(captureResponse(sourceItem));
   } catch (error) {
     console.error("POST /api/source-items/capture error:", error);
     return serverError();
@@ -2,8 +2,18 @@
  * GET /api/source-items
  * Per docs/operations-planning-api/01-API-ENDPOINTS-AND-VALIDATION-CONTRACTS.md
  *
- * Lists SourceItems with filtering by status, sourceType, platform.
+ * Lists SourceItems with filtering by status, sourceType, platform, and tags.
+ * Tags: ?tags=a,b with ?tagMode=all (default — item has every tag) or
+ * any (item has at least one). Tags are normalized like on write.
  * Supports pagination: ?page=1&limit=20
+ * Extracted page fields (title, excerpt, ...) are included; the full
+ * extractedText is omitted to keep list pages small.
+ *
+ * With ?includeDuplicates=true each item carries possibleDuplicateOf: the
+ * most similar earlier capture at or above the default SimHash threshold
+ * (lib/near-duplicates.ts), or null. Archived items and items already
+ * marked as duplicates get null. The scan is opt-in because it reads up to
+ * MAX_NEAR_DUPLICATE_CANDIDATES earlier captures per page.
  */
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
@@ -12,6 +22,8 @@ import {
   badRequest,
   serverError,
   parsePagination,
+  unauthorized,
+  forbidden,
 } from "@/lib/api-response";
 import {
   isValidEnum,
@@ -20,15 +32,29 @@ import {
   VALID_PLATFORMS,
 } from "@/lib/validation";
 import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
 import type { Prisma } from "@prisma/client";
+import { DEFAULT_SIMILARITY_THRESHOLD } from "@/lib/simhash";
+import { findPossibleDuplicates } from "@/lib/near-duplicates";
+import { TagSchema } from "@/lib/schemas/source-item";
 
 export async function GET(request: NextRequest) {
   try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
     const { projectId, error } = await resolveProjectId(request);
     if (error) {
       return badRequest(error);
     }
 
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const { page, limit, skip } = parsePagination(searchParams);
 
@@ -59,9 +85,32 @@ export async function GET(request: NextRequest) {
       where.platform = platform;
     }
 
+    const rawTags = searchParams.get("tags");
+    if (rawTags) {
+      const tags: string[] = [];
+      for (const raw of rawTags.split(",")) {
+        if (raw.trim() === "") continue;
+        const tag = TagSchema.safeParse(raw);
+        if (!tag.success) {
+          return badRequest(`Invalid tag: ${raw.trim()}`);
+        }
+        tags.push(tag.data);
+      }
+
+      const tagMode = searchParams.get("tagMode") ?? "all";
+      if (tagMode !== "all" && tagMode !== "any") {
+        return badRequest(`Invalid tagMode: ${tagMode}`);
+      }
+
+      if (tags.length > 0) {
+        where.tags = tagMode === "all" ? { hasEvery: tags } : { hasSome: tags };
+      }
+    }
+
     const [items, total] = await Promise.all([
       prisma.sourceItem.findMany({
         where,
+        omit: { extractedText: true },
         orderBy: [{ createdAt: "desc" }, { id: "desc" }],
         skip,
         take: limit,
@@ -69,7 +118,24 @@ export async function GET(request: NextRequest) {
       prisma.sourceItem.count({ where }),
     ]);
 
-    return listResponse(items, { page, limit, total });
+    if (searchParams.get("includeDuplicates") !== "true") {
+      return listResponse(items, { page, limit, total });
+    }
+
+    const possible = await findPossibleDuplicates(projectId, items, DEFAULT_SIMILARITY_THRESHOLD);
+
+    return listResponse(
+      items.map((item) => {
+        const match = possible.get(item.id);
+        return {
+          ...item,
+          possibleDuplicateOf: match
+            ? { id: match.id, url: match.url, title: match.title, similarity: match.similarity }
+            : null,
+        };
+      }),
+      { page, limit, total }
+    );
   } catch (error) {
     console.error("GET /api/source-items error:", error);
     return serverError();
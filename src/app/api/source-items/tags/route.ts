@@ -0,0 +1,56 @@
+/**
+ * GET /api/source-items/tags — Tags in use in the project
+ *
+ * Tags are not a separate table; they exist while at least one of the
+ * project's SourceItems carries them. Returns each tag with the number of
+ * items carrying it, most used first (then alphabetical).
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  successResponse,
+  badRequest,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const rows = await prisma.sourceItem.findMany({
+      where: { projectId, NOT: { tags: { isEmpty: true } } },
+      select: { tags: true },
+    });
+
+    const counts = new Map<string, number>();
+    for (const row of rows) {
+      for (const tag of row.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+
+    const tags = [...counts.entries()]
+      .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+      .map(([tag, count]) => ({ tag, count }));
+
+    return successResponse(tags);
+  } catch (error) {
+    console.error("GET /api/source-items/tags error:", error);
+    return serverError();
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * GET /api/source-items/url-collisions — Canonical URL collision report
+ *
+ * Maintenance endpoint for items captured before URL canonicalization
+ * (lib/canonical-url.ts). Read-only: nothing is rewritten or merged.
+ *
+ * - Project-scoped via resolveProjectId(); only this project's items are scanned
+ * - nonCanonicalCount: items whose stored URL differs from its canonical form
+ * - collisions: canonical URLs shared by more than one item, oldest capture
+ *   first; groups ordered by canonical URL
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  badRequest,
+  serverError,
+  successResponse,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import { authenticateRequest, assertProjectGranted } from "@/lib/auth";
+import { canonicalizeUrl } from "@/lib/canonical-url";
+
+const SCAN_BATCH_SIZE = 1000;
+
+interface CollidingItem {
+  id: string;
+  url: string;
+  status: string;
+  capturedAt: string;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const byCanonical = new Map<string, CollidingItem[]>();
+    let scanned = 0;
+    let nonCanonicalCount = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const batch = await prisma.sourceItem.findMany({
+        where: { projectId },
+        select: { id: true, url: true, status: true, capturedAt: true },
+        orderBy: { id: "asc" },
+        take: SCAN_BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      });
+      if (batch.length === 0) break;
+
+      for (const item of batch) {
+        const canonicalUrl = canonicalizeUrl(item.url);
+        if (canonicalUrl !== item.url) nonCanonicalCount++;
+        const group = byCanonical.get(canonicalUrl) ?? [];
+        group.push({
+          id: item.id,
+          url: item.url,
+          status: item.status,
+          capturedAt: item.capturedAt.toISOString(),
+        });
+        byCanonical.set(canonicalUrl, group);
+      }
+
+      scanned += batch.length;
+      cursor = batch[batch.length - 1].id;
+      if (batch.length < SCAN_BATCH_SIZE) break;
+    }
+
+    const collisions = [...byCanonical.entries()]
+      .filter(([, items]) => items.length > 1)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([canonicalUrl, items]) => ({
+        canonicalUrl,
+        items: items.sort(
+          (a, b) => a.capturedAt.localeCompare(b.capturedAt) || a.id.localeCompare(b.id)
+        ),
+      }));
+
+    return successResponse({
+      scanned,
+      nonCanonicalCount,
+      collisionCount: collisions.length,
+      collisions,
+    });
+  } catch (error) {
+    console.error("GET /api/source-items/url-collisions error:", error);
+    return serverError();
+  }
+}
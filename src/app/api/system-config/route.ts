@@ -0,0 +1,235 @@
+/**
+ * GET /api/system-config — Resolved config for the current project
+ * PUT /api/system-config — Set or clear a default or project override
+ *
+ * SystemConfig itself is global; values follow the
+ * { default, overrides: { <projectId>: N } } convention (lib/system-config.ts).
+ *
+ * - Project-scoped via resolveProjectId(): GET only exposes the resolved
+ *   project's override, never other projects' overrides
+ * - Only registered keys are accepted; values are bounds-checked per key
+ * - PUT is human-only; scope "default" changes every project without an
+ *   override, so it also needs an unrestricted key (or open mode)
+ * - SystemConfig upsert + SYSTEM_CONFIG_CHANGED EventLog
+ *   inside prisma.$transaction(). The event is written into the resolved
+ *   project's log, also for scope "default".
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  successResponse,
+  badRequest,
+  serverError,
+  unauthorized,
+  forbidden,
+} from "@/lib/api-response";
+import { resolveProjectId } from "@/lib/project";
+import {
+  authenticateRequest,
+  assertProjectGranted,
+  assertHumanActor,
+} from "@/lib/auth";
+import {
+  CONFIG_DEFINITIONS,
+  CONFIG_KEYS,
+  parseStoredConfig,
+  resolveStoredConfig,
+  validateConfigValue,
+  type ConfigKey,
+  type ConfigOverrideValue,
+} from "@/lib/system-config";
+import { UpdateSystemConfigSchema } from "@/lib/schemas/system-config";
+import { ActorType, EntityType, EventType } from "@prisma/client";
+import type { Prisma } from "@prisma/client";
+
+function describe(key: ConfigKey, stored: ConfigOverrideValue, projectId: string) {
+  const def = CONFIG_DEFINITIONS[key];
+  const resolved = resolveStoredConfig(key, stored, projectId);
+  return {
+    key,
+    description: def.description,
+    value: resolved.value,
+    source: resolved.source,
+    default: stored.default ?? null,
+    override: stored.overrides?.[projectId] ?? null,
+    builtin: def.builtin,
+    min: def.min,
+    max: def.max,
+    integer: def.integer,
+  };
+}
+
+// =============================================================================
+// GET /api/system-config
+// =============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const rows = await prisma.systemConfig.findMany({
+      where: { key: { in: CONFIG_KEYS } },
+      select: { key: true, value: true },
+    });
+    const byKey = new Map(rows.map((r) => [r.key, r.value]));
+
+    const configs = CONFIG_KEYS.map((key) =>
+      describe(key, parseStoredConfig(key, byKey.get(key)), projectId)
+    );
+
+    return successResponse({ projectId, configs });
+  } catch (error) {
+    console.error("GET /api/system-config error:", error);
+    return serverError();
+  }
+}
+
+// =============================================================================
+// PUT /api/system-config
+// =============================================================================
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { auth, error: authError } = await authenticateRequest(request);
+    if (authError) {
+      return unauthorized(authError);
+    }
+
+    const { projectId, error } = await resolveProjectId(request);
+    if (error) {
+      return badRequest(error);
+    }
+
+    const grantError = assertProjectGranted(auth, projectId);
+    if (grantError) {
+      return forbidden(grantError);
+    }
+
+    const actorError = assertHumanActor(auth, "change system configuration");
+    if (actorError) {
+      return forbidden(actorError);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return badRequest("Invalid JSON body");
+    }
+
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return badRequest("Request body must be an object");
+    }
+
+    const parsed = UpdateSystemConfigSchema.safeParse(body);
+    if (!parsed.success) {
+      const flat = parsed.error.flatten();
+      return badRequest("Validation failed", [
+        ...flat.formErrors.map((msg) => ({
+          code: "VALIDATION_ERROR" as const,
+          message: msg,
+        })),
+        ...Object.entries(flat.fieldErrors).flatMap(([field, messages]) =>
+          (messages ?? []).map((msg) => ({
+            code: "VALIDATION_ERROR" as const,
+            field,
+            message: msg,
+          }))
+        ),
+      ]);
+    }
+
+    const { scope, value } = parsed.data;
+    const key = parsed.data.key as ConfigKey;
+
+    if (value !== null) {
+      const valueError = validateConfigValue(key, value);
+      if (valueError) {
+        return badRequest("Validation failed", [
+          { code: "VALIDATION_ERROR", field: "value", message: valueError },
+        ]);
+      }
+    }
+
+    if (scope === "default" && auth.projectIds !== null) {
+      return forbidden(
+        "Only an unrestricted API key may change the default for all projects"
+      );
+    }
+
+    const actor = auth.actor ?? ActorType.human;
+
+    const result = await prisma.$transaction(async (tx) => {
+      const existing = await tx.systemConfig.findUnique({
+        where: { key },
+        select: { value: true },
+      });
+      const stored = parseStoredConfig(key, existing?.value);
+
+      const previousValue =
+        scope === "default"
+          ? stored.default ?? null
+          : stored.overrides?.[projectId] ?? null;
+
+      const overrides: Record<string, number> = { ...(stored.overrides ?? {}) };
+      const next: ConfigOverrideValue = {
+        ...(stored.default !== undefined ? { default: stored.default } : {}),
+        overrides,
+      };
+      if (scope === "default") {
+        if (value === null) delete next.default;
+        else next.default = value;
+      } else {
+        if (value === null) delete overrides[projectId];
+        else overrides[projectId] = value;
+      }
+
+      const nextJson = next as Prisma.InputJsonObject;
+      await tx.systemConfig.upsert({
+        where: { key },
+        create: { key, value: nextJson, updatedBy: actor },
+        update: { value: nextJson, updatedBy: actor },
+      });
+
+      const details: Prisma.InputJsonObject = {
+        model: "systemConfig",
+        key,
+        scope,
+        previousValue,
+        value,
+      };
+
+      await tx.eventLog.create({
+        data: {
+          eventType: EventType.SYSTEM_CONFIG_CHANGED,
+          entityType: EntityType.project,
+          entityId: projectId,
+          actor,
+          actorId: auth.apiKeyId,
+          projectId,
+          details,
+        },
+      });
+
+      return next;
+    });
+
+    return successResponse(describe(key, result, projectId));
+  } catch (error) {
+    console.error("PUT /api/system-config error:", error);
+    return serverError();
+  }
+}
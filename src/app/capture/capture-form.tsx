@@ -0,0 +1,221 @@
+"use client";
+
+/**
+ * Capture Form — client side of /capture
+ *
+ * The capture token arrives once in the URL fragment (#token=..., from the
+ * dashboard activation link or the bookmarklet), is kept in localStorage
+ * and removed from the address bar. Requests go to
+ * POST /api/source-items/browser-capture with the X-Capture-Token header.
+ */
+
+import React, { useState, useEffect } from "react";
+
+const TOKEN_STORAGE_KEY = "psymetric.captureToken";
+
+type Via = "bookmarklet" | "share_target" | "manual";
+
+interface CaptureResult {
+  id: string;
+  url: string;
+  title: string | null;
+  recapture: boolean;
+}
+
+// Share sheets on Android usually send the link inside text, not url
+function splitSharedText(url: string, text: string): { url: string; text: string } {
+  if (url || !text) return { url, text };
+  const match = text.match(/https?:\/\/\S+/);
+  if (!match) return { url, text };
+  return { url: match[0], text: text.replace(match[0], "").trim() };
+}
+
+export function CaptureForm({
+  sharedUrl,
+  sharedTitle,
+  sharedText,
+  via,
+}: {
+  sharedUrl: string;
+  sharedTitle: string;
+  sharedText: string;
+  via: "bookmarklet" | null;
+}) {
+  const shared = splitSharedText(sharedUrl, sharedText);
+  const captureVia: Via =
+    via ?? (sharedUrl || sharedTitle || sharedText ? "share_target" : "manual");
+
+  const [token, setToken] = useState<string | null>(null);
+  const [tokenLoaded, setTokenLoaded] = useState(false);
+  const [url, setUrl] = useState(shared.url);
+  const [title, setTitle] = useState(sharedTitle);
+  const [text, setText] = useState(shared.text);
+  const [operatorIntent, setOperatorIntent] = useState("");
+  const [notes, setNotes] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<CaptureResult | null>(null);
+
+  useEffect(() => {
+    const hash = new URLSearchParams(window.location.hash.slice(1));
+    const fromHash = hash.get("token");
+    if (fromHash) {
+      window.localStorage.setItem(TOKEN_STORAGE_KEY, fromHash);
+      window.history.replaceState(null, "", window.location.pathname + window.location.search);
+    }
+    setToken(window.localStorage.getItem(TOKEN_STORAGE_KEY));
+    setTokenLoaded(true);
+  }, []);
+
+  const forgetToken = () => {
+    window.localStorage.removeItem(TOKEN_STORAGE_KEY);
+    setToken(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/source-items/browser-capture", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Capture-Token": token },
+        body: JSON.stringify({
+          url: url.trim(),
+          ...(title.trim() ? { title: title.trim() } : {}),
+          ...(text.trim() ? { text: text.trim() } : {}),
+          operatorIntent: operatorIntent.trim(),
+          ...(notes.trim() ? { notes: notes.trim() } : {}),
+          via: captureVia,
+        }),
+      });
+      const json = await res.json();
+      if (res.status === 401) {
+        forgetToken();
+        throw new Error(json.error?.message || "Capture token is no longer valid");
+      }
+      if (!res.ok) {
+        const details: { field?: string; message: string }[] = json.error?.details ?? [];
+        throw new Error(
+          details.length > 0
+            ? details.map((d) => (d.field ? `${d.field}: ${d.message}` : d.message)).join("; ")
+            : json.error?.message || "Capture failed"
+        );
+      }
+      setResult(json.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Capture failed");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!tokenLoaded) {
+    return null;
+  }
+
+  if (result) {
+    return (
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <p className="text-sm font-medium text-green-700">
+          {result.recapture ? "Already in the inbox — recapture logged." : "Captured to the Source Inbox."}
+        </p>
+        <p className="mt-1 text-sm text-gray-900">{result.title || result.url}</p>
+        <p className="mt-0.5 text-xs text-gray-500 break-all">{result.url}</p>
+        {captureVia === "bookmarklet" && (
+          <button
+            type="button"
+            onClick={() => window.close()}
+            className="mt-4 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50"
+          >
+            Close
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if (!token) {
+    return (
+      <div className="bg-white border border-gray-200 rounded-lg p-4 text-sm text-gray-700">
+        {error && <p className="mb-2 text-red-700">{error}</p>}
+        <p>
+          No capture token on this device. Mint one on the dashboard Capture page and open
+          its activation link (or use its bookmarklet) in this browser.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">URL *</label>
+        <input
+          type="url"
+          required
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Selected text</label>
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={4}
+          className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Operator Intent *</label>
+        <textarea
+          required
+          autoFocus
+          value={operatorIntent}
+          onChange={(e) => setOperatorIntent(e.target.value)}
+          rows={2}
+          placeholder="Why are you capturing this?"
+          className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={2}
+          className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+        />
+      </div>
+      {error && <p className="text-sm text-red-700">{error}</p>}
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={forgetToken}
+          className="text-xs text-gray-500 hover:text-gray-700"
+        >
+          Forget token
+        </button>
+        <button
+          type="submit"
+          disabled={submitting || !url.trim() || !operatorIntent.trim()}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {submitting ? "Capturing..." : "Capture"}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * GET /capture/manifest.webmanifest — Web app manifest for mobile capture
+ *
+ * Installing /capture as an app registers it as a Web Share Target: sharing
+ * a page from the OS share sheet opens /capture with title, text and url
+ * as query parameters. Android apps often put the URL inside text; the
+ * capture form pulls it out.
+ */
+const MANIFEST = {
+  name: "PsyMetric Capture",
+  short_name: "Capture",
+  description: "Send pages to the PsyMetric Source Inbox",
+  id: "/capture",
+  start_url: "/capture",
+  scope: "/capture",
+  display: "standalone",
+  background_color: "#f9fafb",
+  theme_color: "#111827",
+  icons: [{ src: "/favicon.ico", sizes: "48x48", type: "image/x-icon" }],
+  share_target: {
+    action: "/capture",
+    method: "GET",
+    params: { title: "title", text: "text", url: "url" },
+  },
+};
+
+export function GET() {
+  return new Response(JSON.stringify(MANIFEST), {
+    headers: {
+      "Content-Type": "application/manifest+json",
+      "Cache-Control": "public, max-age=3600",
+    },
+  });
+}
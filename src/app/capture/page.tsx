@@ -0,0 +1,50 @@
+/**
+ * Capture Page — Bookmarklet popup and Web Share Target
+ * Per docs/06-CAPTURE-SOURCES-AND-CHROME-EXTENSION.md (Bookmarklet & Share Target)
+ *
+ * Opened by the generated bookmarklet (?via=bookmarklet&url=&title=&text=)
+ * or by the OS share sheet once the page is installed (share_target in
+ * /capture/manifest.webmanifest sends title, text, url as query params).
+ *
+ * Capture is never automatic: the operator reviews the fields and must
+ * state an operator intent before submitting.
+ */
+import type { Metadata } from "next";
+import { CaptureForm } from "./capture-form";
+
+export const metadata: Metadata = {
+  title: "Capture — PsyMetric",
+  manifest: "/capture/manifest.webmanifest",
+};
+
+interface SearchParams {
+  url?: string;
+  title?: string;
+  text?: string;
+  via?: string;
+}
+
+export default async function CapturePage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const params = await searchParams;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-lg mx-auto px-4 py-6">
+        <h1 className="text-xl font-semibold text-gray-900">Capture Source</h1>
+        <p className="mt-1 mb-6 text-sm text-gray-500">
+          Save this page to the Source Inbox.
+        </p>
+        <CaptureForm
+          sharedUrl={params.url ?? ""}
+          sharedTitle={params.title ?? ""}
+          sharedText={params.text ?? ""}
+          via={params.via === "bookmarklet" ? "bookmarklet" : null}
+        />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * /concepts/[slug] — Public single concept page
+ *
+ * Phase 1 public projection pages - server component only
+ * - Direct Prisma reads for published concepts
+ * - conceptKind=comparison lists its comparisonTargets (published only)
+ * - Body rendered by lib/markdown.ts
+ * - Related sections from EntityRelation edges (lib/public-entities.ts)
+ * - schema.org JSON-LD from lib/json-ld.ts
+ */
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import {
+  getComparisonTargets,
+  getPublishedEntity,
+  getRelatedSections,
+} from "@/lib/public-entities";
+import { EntityBody } from "@/app/_components/entity-body";
+import { EntityJsonLd } from "@/app/_components/entity-json-ld";
+import { RelatedSections } from "@/app/_components/related-sections";
+
+// This page reads from the database; it must not be statically prerendered at build time.
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default async function ConceptPage(
+  context: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await context.params;
+  const concept = await getPublishedEntity("concept", slug);
+
+  if (!concept) {
+    notFound();
+  }
+
+  const isComparison = concept.conceptKind === "comparison";
+
+  const [related, comparisonTargets] = await Promise.all([
+    getRelatedSections(concept),
+    isComparison
+      ? getComparisonTargets(concept.projectId, concept.comparisonTargets)
+      : Promise.resolve([]),
+  ]);
+
+  return (
+    <article>
+      <EntityJsonLd entityId={concept.id} projectId={concept.projectId} />
+      <h1>{concept.title}</h1>
+
+      {concept.summary && (
+        <div>
+          <h2>Summary</h2>
+          <p>{concept.summary}</p>
+        </div>
+      )}
+
+      {isComparison && comparisonTargets.length > 0 && (
+        <section>
+          <h2>Compares</h2>
+          <ul>
+            {comparisonTargets.map((target) => (
+              <li key={target.id}>
+                <Link href={target.url}>{target.title}</Link>
+                {target.summary && <p>{target.summary}</p>}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <EntityBody entityId={concept.id} projectId={concept.projectId} />
+
+      <RelatedSections sections={related} />
+    </article>
+  );
+}
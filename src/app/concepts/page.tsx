@@ -0,0 +1,44 @@
+/**
+ * /concepts — Public concept listing page
+ *
+ * Phase 1 public projection pages - server component only
+ * - Direct Prisma reads for published concepts
+ * - Simple semantic HTML rendering
+ */
+import Link from "next/link";
+import { getPublishedEntities } from "@/lib/public-entities";
+import { publicUrlFor } from "@/lib/public-url";
+
+// This page reads from the database; it must not be statically prerendered at build time.
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default async function ConceptsPage() {
+  const concepts = await getPublishedEntities("concept");
+
+  if (concepts.length === 0) {
+    return (
+      <div>
+        <h1>Concepts</h1>
+        <p>No published concepts yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h1>Concepts</h1>
+      <div>
+        {concepts.map((concept) => (
+          <article key={concept.id}>
+            <h2>
+              <Link href={publicUrlFor(concept)}>{concept.title}</Link>
+            </h2>
+            {concept.conceptKind === "comparison" && <p>Comparison</p>}
+            {concept.summary && <p>{concept.summary}</p>}
+          </article>
+        ))}
+      </div>
+    </div>
+  );
+}
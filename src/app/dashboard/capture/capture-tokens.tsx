@@ -0,0 +1,339 @@
+"use client";
+
+/**
+ * Capture Tokens Component
+ *
+ * Mints tokens via POST /api/capture-tokens. The plaintext token, its
+ * bookmarklet and activation link are shown once, right after minting;
+ * the list only ever shows the display prefix.
+ */
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import { useToast } from "@/lib/use-toast";
+import { ToastContainer } from "@/app/dashboard/toast-container";
+
+interface CaptureToken {
+  id: string;
+  label: string | null;
+  tokenPrefix: string;
+  expiresAt: string;
+  maxUses: number | null;
+  useCount: number;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  status: "active" | "expired" | "used" | "revoked";
+}
+
+interface MintedToken extends CaptureToken {
+  token: string;
+  activationUrl: string;
+  bookmarklet: string;
+}
+
+const TTL_OPTIONS = [
+  { hours: 1, label: "1 hour" },
+  { hours: 24, label: "24 hours" },
+  { hours: 24 * 7, label: "7 days" },
+  { hours: 24 * 30, label: "30 days" },
+];
+
+const STATUS_COLORS: Record<CaptureToken["status"], string> = {
+  active: "bg-green-100 text-green-800",
+  expired: "bg-gray-100 text-gray-600",
+  used: "bg-gray-100 text-gray-600",
+  revoked: "bg-red-100 text-red-800",
+};
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+// React refuses javascript: URLs in href, so the bookmarklet is set on the DOM node
+function BookmarkletLink({ href }: { href: string }) {
+  const ref = useRef<HTMLAnchorElement>(null);
+
+  useEffect(() => {
+    ref.current?.setAttribute("href", href);
+  }, [href]);
+
+  return (
+    <a
+      ref={ref}
+      onClick={(e) => e.preventDefault()}
+      className="inline-block px-3 py-1.5 text-sm font-medium text-white bg-gray-900 rounded cursor-move"
+    >
+      Capture to PsyMetric
+    </a>
+  );
+}
+
+export function CaptureTokens() {
+  const [tokens, setTokens] = useState<CaptureToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [includeInactive, setIncludeInactive] = useState(false);
+  const [minted, setMinted] = useState<MintedToken | null>(null);
+  const [label, setLabel] = useState("");
+  const [ttlHours, setTtlHours] = useState(24);
+  const [oneTime, setOneTime] = useState(false);
+  const [minting, setMinting] = useState(false);
+  const { toasts, addToast, dismissToast } = useToast();
+
+  const fetchTokens = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(
+        `/api/capture-tokens?limit=50${includeInactive ? "&includeInactive=true" : ""}`
+      );
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error?.message || "Failed to load capture tokens");
+      }
+      const json = await res.json();
+      setTokens(json.data);
+    } catch (err) {
+      addToast("error", err instanceof Error ? err.message : "Failed to load capture tokens");
+    } finally {
+      setLoading(false);
+    }
+  }, [includeInactive, addToast]);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  const handleMint = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMinting(true);
+    try {
+      const res = await fetch("/api/capture-tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...(label.trim() ? { label: label.trim() } : {}),
+          ttlHours,
+          ...(oneTime ? { maxUses: 1 } : {}),
+        }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error?.message || "Failed to mint capture token");
+      }
+      const json = await res.json();
+      setMinted(json.data);
+      setLabel("");
+      addToast("success", "Capture token minted");
+      fetchTokens();
+    } catch (err) {
+      addToast("error", err instanceof Error ? err.message : "Failed to mint capture token");
+    } finally {
+      setMinting(false);
+    }
+  };
+
+  const handleRevoke = async (token: CaptureToken) => {
+    try {
+      const res = await fetch(`/api/capture-tokens/${token.id}/revoke`, { method: "POST" });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error?.message || "Failed to revoke capture token");
+      }
+      if (minted?.id === token.id) setMinted(null);
+      addToast("success", `Revoked ${token.tokenPrefix}…`);
+      fetchTokens();
+    } catch (err) {
+      addToast("error", err instanceof Error ? err.message : "Failed to revoke capture token");
+    }
+  };
+
+  const copy = async (text: string, what: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      addToast("success", `${what} copied`);
+    } catch {
+      addToast("error", `Failed to copy ${what.toLowerCase()}`);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <ToastContainer toasts={toasts} onDismiss={dismissToast} />
+
+      {/* Mint */}
+      <form onSubmit={handleMint} className="bg-white border border-gray-200 rounded-lg p-4">
+        <h2 className="text-sm font-medium text-gray-900 mb-3">New capture token</h2>
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Label</label>
+            <input
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g. Phone, work laptop"
+              maxLength={80}
+              className="px-3 py-1.5 border border-gray-300 rounded text-sm w-56"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Expires after</label>
+            <select
+              value={ttlHours}
+              onChange={(e) => setTtlHours(Number(e.target.value))}
+              className="px-3 py-1.5 border border-gray-300 rounded text-sm"
+            >
+              {TTL_OPTIONS.map((option) => (
+                <option key={option.hours} value={option.hours}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 pb-1.5">
+            <input
+              type="checkbox"
+              checked={oneTime}
+              onChange={(e) => setOneTime(e.target.checked)}
+            />
+            One-time
+          </label>
+          <button
+            type="submit"
+            disabled={minting}
+            className="px-4 py-1.5 text-sm font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            {minting ? "Minting..." : "Mint token"}
+          </button>
+        </div>
+      </form>
+
+      {/* Newly minted token — shown once */}
+      {minted && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 space-y-3">
+          <p className="text-sm text-amber-900">
+            This token is shown only once. Expires {formatDate(minted.expiresAt)}
+            {minted.maxUses === 1 ? "; valid for a single capture." : "."}
+          </p>
+          <div>
+            <p className="text-xs font-medium text-gray-700 mb-1">Bookmarklet</p>
+            <div className="flex items-center gap-3">
+              <BookmarkletLink href={minted.bookmarklet} />
+              <span className="text-xs text-gray-600">Drag it to your bookmarks bar.</span>
+              <button
+                type="button"
+                onClick={() => copy(minted.bookmarklet, "Bookmarklet")}
+                className="text-xs text-blue-600 hover:text-blue-800"
+              >
+                Copy code
+              </button>
+            </div>
+          </div>
+          <div>
+            <p className="text-xs font-medium text-gray-700 mb-1">Mobile (share sheet)</p>
+            <p className="text-xs text-gray-600 mb-1">
+              Open this link on the phone, then “Add to Home screen”. The capture app then
+              appears in the share sheet.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 text-xs bg-white border border-gray-200 rounded px-2 py-1 break-all">
+                {minted.activationUrl}
+              </code>
+              <button
+                type="button"
+                onClick={() => copy(minted.activationUrl, "Link")}
+                className="text-xs text-blue-600 hover:text-blue-800"
+              >
+                Copy
+              </button>
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={() => setMinted(null)}
+            className="text-xs text-gray-500 hover:text-gray-700"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Token list */}
+      <div className="bg-white border border-gray-200 rounded-lg">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <h2 className="text-sm font-medium text-gray-900">Capture tokens</h2>
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={includeInactive}
+              onChange={(e) => setIncludeInactive(e.target.checked)}
+            />
+            Show expired and revoked
+          </label>
+        </div>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Token</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Uses</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Expires</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Last used</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {loading ? (
+              <tr>
+                <td colSpan={6} className="px-4 py-6 text-center text-sm text-gray-500">
+                  Loading...
+                </td>
+              </tr>
+            ) : tokens.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-4 py-6 text-center text-sm text-gray-500">
+                  No capture tokens
+                </td>
+              </tr>
+            ) : (
+              tokens.map((token) => (
+                <tr key={token.id} className={token.status === "active" ? "" : "opacity-60"}>
+                  <td className="px-4 py-2 text-sm">
+                    <span className="font-mono text-gray-900">{token.tokenPrefix}…</span>
+                    {token.label && <span className="ml-2 text-gray-600">{token.label}</span>}
+                  </td>
+                  <td className="px-4 py-2">
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded ${STATUS_COLORS[token.status]}`}>
+                      {token.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-700">
+                    {token.useCount}
+                    {token.maxUses !== null ? ` / ${token.maxUses}` : ""}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-700">{formatDate(token.expiresAt)}</td>
+                  <td className="px-4 py-2 text-sm text-gray-700">
+                    {token.lastUsedAt ? formatDate(token.lastUsedAt) : "—"}
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    {!token.revokedAt && (
+                      <button
+                        type="button"
+                        onClick={() => handleRevoke(token)}
+                        className="text-xs text-red-600 hover:text-red-800"
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+/**
+ * Capture Tokens Page
+ * Per docs/06-CAPTURE-SOURCES-AND-CHROME-EXTENSION.md (Bookmarklet & Share Target)
+ *
+ * Mint short-lived capture tokens for the bookmarklet and mobile share
+ * target, list them, and revoke them.
+ */
+import { CaptureTokens } from "./capture-tokens";
+
+export default function CapturePage() {
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold text-gray-900">Browser Capture</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Capture from any browser or phone with a bookmarklet or the share sheet.
+        </p>
+      </div>
+      <CaptureTokens />
+    </div>
+  );
+}
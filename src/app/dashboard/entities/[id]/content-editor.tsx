@@ -0,0 +1,115 @@
+"use client";
+
+/**
+ * Content Editor Component
+ * Client form for the entity's hosted Markdown/MDX body
+ *
+ * Saves via PUT /api/entities/[id]/content with baseHash, so a save made
+ * from a stale copy is rejected instead of overwriting someone else's edit.
+ */
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useToast } from "@/lib/use-toast";
+import { ToastContainer } from "@/app/dashboard/toast-container";
+
+type ContentFormat = "markdown" | "mdx";
+
+interface ContentEditorProps {
+  id: string;
+  body: string | null;
+  format: ContentFormat | null;
+  contentHash: string | null;
+  version: number | null;
+}
+
+export function ContentEditor({
+  id,
+  body: initialBody,
+  format: initialFormat,
+  contentHash,
+  version,
+}: ContentEditorProps) {
+  const router = useRouter();
+
+  const [body, setBody] = useState(initialBody ?? "");
+  const [format, setFormat] = useState<ContentFormat>(initialFormat ?? "markdown");
+  const [saving, setSaving] = useState(false);
+  const { toasts, addToast, dismissToast } = useToast();
+
+  const hasChanges =
+    body !== (initialBody ?? "") || format !== (initialFormat ?? "markdown");
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/entities/${id}/content`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body, format, baseHash: contentHash }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || "Failed to save content");
+      }
+
+      const result = await response.json();
+      addToast(
+        "success",
+        result.data.changed
+          ? `Saved content version ${result.data.version}`
+          : "Content unchanged"
+      );
+      router.refresh();
+    } catch (err) {
+      addToast("error", err instanceof Error ? err.message : "Failed to save content");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <ToastContainer toasts={toasts} onDismiss={dismissToast} />
+
+      <div className="bg-white border border-gray-200 rounded-lg p-6">
+        <div className="mb-6 flex items-start justify-between">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900 mb-2">Content</h2>
+            <p className="text-sm text-gray-500">
+              {version !== null
+                ? `Version ${version} · ${contentHash?.slice(0, 12)}`
+                : "No content yet. Guides and news need a body before publish."}
+            </p>
+          </div>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ContentFormat)}
+            className="border border-gray-300 rounded px-2 py-1 text-sm"
+          >
+            <option value="markdown">Markdown</option>
+            <option value="mdx">MDX</option>
+          </select>
+        </div>
+
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          className="w-full border border-gray-300 rounded px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          rows={16}
+          placeholder="# Title&#10;&#10;Write the body in Markdown..."
+        />
+
+        <div className="pt-4 mt-4 border-t border-gray-200">
+          <button
+            onClick={handleSave}
+            disabled={saving || !hasChanges}
+            className="bg-blue-600 text-white px-4 py-2 rounded text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? "Saving..." : "Save Content"}
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -5,6 +5,8 @@
  * Phase 2A.3A — Added lifecycle action panel
  * Phase 2A.3B — Added EventLog timeline panel
  * Phase 2B.1 — Added read-only relationships panel
+ * Added revision history panel (diff + restore)
+ * Added hosted content body editor
  *
  * Displays entity metadata in dashboard with editing capabilities, lifecycle actions,
  * event timeline, and relationship visualization.
@@ -12,10 +14,14 @@
 import { notFound } from "next/navigation";
 import { prisma } from "@/lib/prisma";
 import { EntityType } from "@prisma/client";
+import { getCurrentContent } from "@/lib/entity-content";
 import { EntityEditor } from "./entity-editor";
+import { ContentEditor } from "./content-editor";
 import { LifecycleActions } from "./lifecycle-actions";
 import { RelationshipCreator } from "./relationship-creator";
 import { RelationshipsPanel } from "./relationships-panel";
+import { RevisionHistory } from "./revision-history";
+import { RelationMetadataSchema } from "@/lib/schemas/relationship";
 
 // UUID validation regex
 const UUID_RE =
@@ -26,6 +32,7 @@ async function getEntity(id: string) {
     where: { id },
     select: {
       id: true,
+      projectId: true,
       entityType: true,
       title: true,
       slug: true,
@@ -59,6 +66,23 @@ async function getEntityEvents(entity: { id: string; entityType: string }) {
   return events;
 }
 
+async function getEntityRevisions(entityId: string) {
+  const revisions = await prisma.entityRevision.findMany({
+    where: { entityId },
+    orderBy: { revisionNumber: "desc" },
+    select: {
+      revisionNumber: true,
+      changedFields: true,
+      actor: true,
+      restoredFromRevision: true,
+      createdAt: true,
+    },
+    take: 50,
+  });
+
+  return revisions;
+}
+
 async function getEntityRelationships(entityId: string) {
   // Get all relationships where this entity is either from or to
   const relations = await prisma.entityRelation.findMany({
@@ -126,18 +150,43 @@ async function getEntityRelationships(entityId: string) {
   });
 }
 
-async function getAvailableEntities() {
-  // Fetch all entities for relationship creation dropdown
-  const entities = await prisma.entity.findMany({
-    select: {
-      id: true,
-      title: true,
-      entityType: true,
-    },
-    orderBy: [{ entityType: "asc" }, { title: "asc" }],
-  });
+// Stored metadata that no longer matches the schema is not shown
+function parseRelationMetadata(value: unknown) {
+  const parsed = RelationMetadataSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+// Most recent non-archived source items offered as relationship targets
+const AVAILABLE_SOURCE_ITEM_LIMIT = 200;
+
+async function getAvailableEntities(projectId: string) {
+  // Fetch the project's entities, plus its recent source items, for the relationship picker
+  const [entities, sourceItems] = await Promise.all([
+    prisma.entity.findMany({
+      where: { projectId },
+      select: {
+        id: true,
+        title: true,
+        entityType: true,
+      },
+      orderBy: [{ entityType: "asc" }, { title: "asc" }],
+    }),
+    prisma.sourceItem.findMany({
+      where: { projectId, status: { not: "archived" } },
+      select: { id: true, title: true, url: true },
+      orderBy: [{ capturedAt: "desc" }, { id: "desc" }],
+      take: AVAILABLE_SOURCE_ITEM_LIMIT,
+    }),
+  ]);
 
-  return entities;
+  return [
+    ...entities,
+    ...sourceItems.map((item) => ({
+      id: item.id,
+      title: item.title || item.url,
+      entityType: "sourceItem",
+    })),
+  ];
 }
 
 export default async function EntityDetailPage(
@@ -163,12 +212,19 @@ export default async function EntityDetailPage(
     notFound();
   }
 
-  const [events, relationshipsRaw, availableEntities] = await Promise.all([
+  const [events, relationshipsRaw, availableEntities, revisionsRaw, content] = await Promise.all([
     getEntityEvents(entity),
     getEntityRelationships(entity.id),
-    getAvailableEntities(),
+    getAvailableEntities(entity.projectId),
+    getEntityRevisions(entity.id),
+    getCurrentContent(entity.id),
   ]);
 
+  const revisions = revisionsRaw.map((rev) => ({
+    ...rev,
+    createdAt: rev.createdAt.toISOString(),
+  }));
+
   // Transform relationships for client component (serialize createdAt)
   const relationships = relationshipsRaw.map((rel) => ({
     id: rel.id,
@@ -179,6 +235,8 @@ export default async function EntityDetailPage(
     createdAt: rel.createdAt.toISOString(),
     fromEntityId: rel.fromEntityId,
     toEntityId: rel.toEntityId,
+    notes: rel.notes,
+    metadata: parseRelationMetadata(rel.metadata),
   }));
 
   return (
@@ -200,6 +258,15 @@ export default async function EntityDetailPage(
           canonicalUrl={entity.canonicalUrl}
         />
 
+        {/* Content Body */}
+        <ContentEditor
+          id={entity.id}
+          body={content?.body ?? null}
+          format={content?.format ?? null}
+          contentHash={content?.contentHash ?? null}
+          version={content?.version ?? null}
+        />
+
         {/* Lifecycle Actions */}
         <LifecycleActions
           id={entity.id}
@@ -283,12 +350,16 @@ export default async function EntityDetailPage(
           </div>
         </div>
 
+        {/* Revision History */}
+        <RevisionHistory entityId={entity.id} revisions={revisions} />
+
         {/* Relationships */}
         <RelationshipsPanel relationships={relationships} />
 
         {/* Relationship Creator */}
         <RelationshipCreator
           currentEntityId={entity.id}
+          currentEntityType={entity.entityType}
           availableEntities={availableEntities}
         />
 
@@ -2,14 +2,16 @@
 
 /**
  * Relationship Creator Component
- * Deterministic relationship creation with strict validation and toast feedback.
- * No automation, no business logic beyond form submission.
+ * Multi-select picker: check any number of targets, pick a relation type per
+ * target (only types valid for the pair are offered), and create them in one
+ * POST /api/relationships/batch call. Rows that fail stay selected with the
+ * server's reason next to them.
  */
-import { useState } from "react";
+import { useState, useMemo } from "react";
 import { useRouter } from "next/navigation";
-import { RelationType } from "@prisma/client";
 import { useToast } from "@/lib/use-toast";
 import { ToastContainer } from "@/app/dashboard/toast-container";
+import { VALID_RELATION_TYPES_BY_PAIR } from "@/lib/validation";
 
 interface Entity {
   id: string;
@@ -19,138 +21,280 @@ interface Entity {
 
 interface RelationshipCreatorProps {
   currentEntityId: string;
+  currentEntityType: string;
   availableEntities: Entity[];
 }
 
-// Valid relation types from schema
-const VALID_RELATION_TYPES = Object.values(RelationType);
+type BatchResult =
+  | { index: number; ok: true }
+  | { index: number; ok: false; error: { code: string; message: string } };
+
+// Matches MAX_BATCH_RELATIONSHIPS in lib/schemas/relationship.ts
+const MAX_SELECTED = 100;
+
+const NO_ALLOWED_TARGETS: Record<string, string[]> = {};
 
 export function RelationshipCreator({
   currentEntityId,
+  currentEntityType,
   availableEntities,
 }: RelationshipCreatorProps) {
   const router = useRouter();
+  const allowedByTargetType = VALID_RELATION_TYPES_BY_PAIR[currentEntityType] ?? NO_ALLOWED_TARGETS;
 
-  // Form state
-  const [toEntityId, setToEntityId] = useState("");
-  const [relationType, setRelationType] = useState("");
+  // Form state: target id → relation type
+  const [selected, setSelected] = useState<Record<string, string>>({});
+  const [search, setSearch] = useState("");
+  const [typeFilter, setTypeFilter] = useState("");
+  const [allOrNothing, setAllOrNothing] = useState(true);
 
   // UI state
   const [creating, setCreating] = useState(false);
+  const [rowErrors, setRowErrors] = useState<Record<string, string>>({});
   const { toasts, addToast, dismissToast } = useToast();
 
+  // Only targets this entity can point at
+  const targetEntities = useMemo(
+    () =>
+      availableEntities.filter(
+        (entity) =>
+          entity.id !== currentEntityId && (allowedByTargetType[entity.entityType]?.length ?? 0) > 0
+      ),
+    [availableEntities, currentEntityId, allowedByTargetType]
+  );
+  const targetTypes = Object.keys(allowedByTargetType);
+
+  const visibleTargets = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return targetEntities.filter(
+      (entity) =>
+        (!typeFilter || entity.entityType === typeFilter) &&
+        (!query || entity.title.toLowerCase().includes(query))
+    );
+  }, [targetEntities, search, typeFilter]);
+
+  const selectedIds = Object.keys(selected);
+
+  const toggle = (entity: Entity) => {
+    setSelected((prev) => {
+      const next = { ...prev };
+      if (next[entity.id]) {
+        delete next[entity.id];
+      } else {
+        next[entity.id] = allowedByTargetType[entity.entityType][0];
+      }
+      return next;
+    });
+    setRowErrors((prev) => {
+      const next = { ...prev };
+      delete next[entity.id];
+      return next;
+    });
+  };
+
   const handleSubmit = async () => {
     // Client-side validation
-    if (!toEntityId) {
-      addToast("error", "Please select a target entity");
+    if (selectedIds.length === 0) {
+      addToast("error", "Please select at least one target entity");
       return;
     }
 
-    if (!relationType) {
-      addToast("error", "Please select a relation type");
+    if (selectedIds.length > MAX_SELECTED) {
+      addToast("error", `Select at most ${MAX_SELECTED} targets at a time`);
       return;
     }
 
     setCreating(true);
+    setRowErrors({});
 
     try {
-      const response = await fetch("/api/relationships", {
+      const response = await fetch("/api/relationships/batch", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          fromEntityId: currentEntityId,
-          toEntityId,
-          relationType,
+          mode: allOrNothing ? "all_or_nothing" : "best_effort",
+          relationships: selectedIds.map((toEntityId) => ({
+            fromEntityId: currentEntityId,
+            toEntityId,
+            relationType: selected[toEntityId],
+          })),
         }),
       });
+      const json = await response.json();
+
+      if (response.status === 422 && json.error?.code === "BATCH_REJECTED") {
+        const errors: Record<string, string> = {};
+        for (const detail of json.error.details as { field: string; message: string }[]) {
+          const index = Number(detail.field.match(/\[(\d+)\]/)?.[1]);
+          if (selectedIds[index]) errors[selectedIds[index]] = detail.message;
+        }
+        setRowErrors(errors);
+        throw new Error(json.error.message);
+      }
 
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error?.message || "Failed to create relationship");
+        throw new Error(json.error?.message || "Failed to create relationships");
       }
 
-      addToast("success", "Relationship created successfully");
+      const results: BatchResult[] = json.data.results;
+      const errors: Record<string, string> = {};
+      const remaining: Record<string, string> = {};
+      for (const result of results) {
+        const toEntityId = selectedIds[result.index];
+        if (!result.ok) {
+          errors[toEntityId] = result.error.message;
+          remaining[toEntityId] = selected[toEntityId];
+        }
+      }
 
-      // Reset form
-      setToEntityId("");
-      setRelationType("");
+      // Failed rows stay selected so they can be fixed and resubmitted
+      setSelected(remaining);
+      setRowErrors(errors);
 
-      // Refresh server component to show updated relationships
-      router.refresh();
+      const { createdCount, failedCount } = json.data;
+      if (createdCount > 0) {
+        addToast(
+          failedCount > 0 ? "error" : "success",
+          `Created ${createdCount} relationship${createdCount === 1 ? "" : "s"}` +
+            (failedCount > 0 ? `; ${failedCount} failed` : "")
+        );
+        // Refresh server component to show updated relationships
+        router.refresh();
+      } else {
+        addToast("error", `${failedCount} relationship${failedCount === 1 ? "" : "s"} failed`);
+      }
     } catch (err) {
-      addToast("error", err instanceof Error ? err.message : "Failed to create relationship");
+      addToast("error", err instanceof Error ? err.message : "Failed to create relationships");
     } finally {
       setCreating(false);
     }
   };
 
-  // Filter out current entity from available targets
-  const targetEntities = availableEntities.filter(entity => entity.id !== currentEntityId);
-
   return (
     <>
       <ToastContainer toasts={toasts} onDismiss={dismissToast} />
 
       <div className="bg-white border border-gray-200 rounded-lg p-6">
         <div className="mb-6">
-          <h2 className="text-lg font-medium text-gray-900 mb-2">Create Relationship</h2>
+          <h2 className="text-lg font-medium text-gray-900 mb-2">Create Relationships</h2>
           <p className="text-sm text-gray-500">
-            Add a new relationship from this entity to another entity.
+            Select one or more targets. Only targets and relation types valid for a{" "}
+            {currentEntityType} are offered.
           </p>
         </div>
 
-        <div className="space-y-4">
-          {/* Target Entity Dropdown */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Target Entity <span className="text-red-500">*</span>
-            </label>
-            <select
-              value={toEntityId}
-              onChange={(e) => setToEntityId(e.target.value)}
-              className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              disabled={creating}
-            >
-              <option value="">Select target entity...</option>
-              {targetEntities.map((entity) => (
-                <option key={entity.id} value={entity.id}>
-                  {entity.title} ({entity.entityType})
-                </option>
-              ))}
-            </select>
-          </div>
+        {targetTypes.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">
+            No outgoing relationships are defined for {currentEntityType}.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {/* Filters */}
+            <div className="flex gap-3">
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search targets..."
+                className="flex-1 border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={creating}
+              />
+              <select
+                value={typeFilter}
+                onChange={(e) => setTypeFilter(e.target.value)}
+                className="border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={creating}
+              >
+                <option value="">All types</option>
+                {targetTypes.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+            </div>
 
-          {/* Relation Type Dropdown */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Relation Type <span className="text-red-500">*</span>
-            </label>
-            <select
-              value={relationType}
-              onChange={(e) => setRelationType(e.target.value)}
-              className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              disabled={creating}
-            >
-              <option value="">Select relation type...</option>
-              {VALID_RELATION_TYPES.map((type) => (
-                <option key={type} value={type}>
-                  {type}
-                </option>
-              ))}
-            </select>
-          </div>
+            {/* Target list */}
+            <div className="border border-gray-200 rounded max-h-80 overflow-y-auto divide-y divide-gray-100">
+              {visibleTargets.length === 0 ? (
+                <p className="px-3 py-4 text-sm text-gray-500 italic">No matching targets.</p>
+              ) : (
+                visibleTargets.map((entity) => {
+                  const relationType = selected[entity.id];
+                  const allowed = allowedByTargetType[entity.entityType];
+                  return (
+                    <div key={entity.id} className={`px-3 py-2 ${relationType ? "bg-blue-50" : ""}`}>
+                      <div className="flex items-center gap-3">
+                        <input
+                          type="checkbox"
+                          checked={!!relationType}
+                          onChange={() => toggle(entity)}
+                          disabled={creating}
+                        />
+                        <span className="flex-1 text-sm text-gray-900 truncate">{entity.title}</span>
+                        <span className="text-xs text-gray-500">{entity.entityType}</span>
+                        {relationType && (
+                          <select
+                            value={relationType}
+                            onChange={(e) =>
+                              setSelected((prev) => ({ ...prev, [entity.id]: e.target.value }))
+                            }
+                            className="border border-gray-300 rounded px-2 py-1 text-xs font-mono"
+                            disabled={creating || allowed.length === 1}
+                          >
+                            {allowed.map((type) => (
+                              <option key={type} value={type}>
+                                {type}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                      </div>
+                      {rowErrors[entity.id] && (
+                        <p className="mt-1 ml-7 text-xs text-red-600">{rowErrors[entity.id]}</p>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
 
-          {/* Submit Button */}
-          <div className="pt-4 border-t border-gray-200">
-            <button
-              onClick={handleSubmit}
-              disabled={creating || !toEntityId || !relationType}
-              className="bg-blue-600 text-white px-4 py-2 rounded text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {creating ? "Creating..." : "Create Relationship"}
-            </button>
+            {/* Submit */}
+            <div className="pt-4 border-t border-gray-200 flex items-center gap-4">
+              <button
+                onClick={handleSubmit}
+                disabled={creating || selectedIds.length === 0}
+                className="bg-blue-600 text-white px-4 py-2 rounded text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {creating
+                  ? "Creating..."
+                  : `Create ${selectedIds.length || ""} Relationship${selectedIds.length === 1 ? "" : "s"}`}
+              </button>
+              {selectedIds.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setSelected({});
+                    setRowErrors({});
+                  }}
+                  disabled={creating}
+                  className="text-sm text-gray-500 hover:text-gray-700"
+                >
+                  Clear
+                </button>
+              )}
+              <label className="ml-auto flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={allOrNothing}
+                  onChange={(e) => setAllOrNothing(e.target.checked)}
+                  disabled={creating}
+                />
+                All or nothing
+              </label>
+            </div>
           </div>
-        </div>
+        )}
       </div>
     </>
   );
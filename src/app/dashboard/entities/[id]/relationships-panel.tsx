@@ -4,8 +4,10 @@
  * Relationships Panel Component
  * Displays relationships table with remove functionality.
  * Moved from server component to support client-side removal actions.
+ * Notes and metadata (cited passage, anchor) are shown under the related
+ * entity and edited inline via PATCH /api/relationships/[id].
  */
-import { useState, useCallback } from "react";
+import React, { useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { useToast } from "@/lib/use-toast";
@@ -20,6 +22,8 @@ interface RelationshipRow {
   createdAt: string; // ISO string
   fromEntityId: string;
   toEntityId: string;
+  notes: string | null;
+  metadata: { citedPassage?: string; anchor?: string } | null;
 }
 
 interface RelationshipsPanelProps {
@@ -31,8 +35,55 @@ export function RelationshipsPanel({ relationships }: RelationshipsPanelProps) {
 
   // UI state
   const [removingId, setRemovingId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [draftNotes, setDraftNotes] = useState("");
+  const [draftPassage, setDraftPassage] = useState("");
+  const [draftAnchor, setDraftAnchor] = useState("");
   const { toasts, addToast, dismissToast } = useToast();
 
+  const startEdit = (relationship: RelationshipRow) => {
+    setEditingId(relationship.id);
+    setDraftNotes(relationship.notes ?? "");
+    setDraftPassage(relationship.metadata?.citedPassage ?? "");
+    setDraftAnchor(relationship.metadata?.anchor ?? "");
+  };
+
+  const handleSave = async (relationship: RelationshipRow) => {
+    setSaving(true);
+
+    try {
+      const citedPassage = draftPassage.trim();
+      const anchor = draftAnchor.trim();
+      const response = await fetch(`/api/relationships/${relationship.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          notes: draftNotes.trim() || null,
+          metadata:
+            citedPassage || anchor
+              ? { ...(citedPassage ? { citedPassage } : {}), ...(anchor ? { anchor } : {}) }
+              : null,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || "Failed to update relationship");
+      }
+
+      addToast("success", "Relationship updated");
+      setEditingId(null);
+
+      // Refresh server component to show updated relationships
+      router.refresh();
+    } catch (err) {
+      addToast("error", err instanceof Error ? err.message : "Failed to update relationship");
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const handleRemove = useCallback(async (relationship: RelationshipRow) => {
     const confirmed = confirm("Remove this relationship?");
     if (!confirmed) return;
@@ -40,14 +91,9 @@ export function RelationshipsPanel({ relationships }: RelationshipsPanelProps) {
     setRemovingId(relationship.id);
 
     try {
-      const response = await fetch("/api/relationships", {
+      // By id: works for source-item and other non-entity endpoints
+      const response = await fetch(`/api/relationships/${relationship.id}`, {
         method: "DELETE",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          fromEntityId: relationship.fromEntityId,
-          toEntityId: relationship.toEntityId,
-          relationType: relationship.relationType,
-        }),
       });
 
       if (!response.ok) {
@@ -94,46 +140,124 @@ export function RelationshipsPanel({ relationships }: RelationshipsPanelProps) {
               </thead>
               <tbody>
                 {relationships.map((relationship) => (
-                  <tr key={relationship.id} className="border-b border-gray-100 hover:bg-gray-50">
-                    <td className="py-3">
-                      <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                        relationship.direction === "Outgoing"
-                          ? "bg-green-100 text-green-800"
-                          : "bg-blue-100 text-blue-800"
-                      }`}>
-                        {relationship.direction}
-                      </span>
-                    </td>
-                    <td className="py-3">
-                      <span className="font-mono text-xs bg-gray-100 px-2 py-1 rounded">
-                        {relationship.relationType}
-                      </span>
-                    </td>
-                    <td className="py-3">
-                      {relationship.otherEntityLink ? (
-                        <Link 
-                          href={relationship.otherEntityLink}
-                          className="text-blue-600 hover:text-blue-800 hover:underline"
+                  <React.Fragment key={relationship.id}>
+                    <tr className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-3">
+                        <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                          relationship.direction === "Outgoing"
+                            ? "bg-green-100 text-green-800"
+                            : "bg-blue-100 text-blue-800"
+                        }`}>
+                          {relationship.direction}
+                        </span>
+                      </td>
+                      <td className="py-3">
+                        <span className="font-mono text-xs bg-gray-100 px-2 py-1 rounded">
+                          {relationship.relationType}
+                        </span>
+                      </td>
+                      <td className="py-3">
+                        {relationship.otherEntityLink ? (
+                          <Link 
+                            href={relationship.otherEntityLink}
+                            className="text-blue-600 hover:text-blue-800 hover:underline"
+                          >
+                            {relationship.otherEntityLabel}
+                          </Link>
+                        ) : (
+                          <span className="text-gray-900">{relationship.otherEntityLabel}</span>
+                        )}
+                        {relationship.notes && (
+                          <p className="mt-1 text-xs text-gray-600 whitespace-pre-wrap">
+                            {relationship.notes}
+                          </p>
+                        )}
+                        {relationship.metadata?.citedPassage && (
+                          <blockquote className="mt-1 pl-2 border-l-2 border-gray-300 text-xs text-gray-700 italic whitespace-pre-wrap">
+                            {relationship.metadata.citedPassage}
+                          </blockquote>
+                        )}
+                        {relationship.metadata?.anchor && (
+                          <p className="mt-1 text-xs text-gray-500">§ {relationship.metadata.anchor}</p>
+                        )}
+                      </td>
+                      <td className="py-3 text-gray-500">
+                        {new Date(relationship.createdAt).toLocaleDateString()}
+                      </td>
+                      <td className="py-3 space-x-3 whitespace-nowrap">
+                        <button
+                          onClick={() => startEdit(relationship)}
+                          disabled={removingId !== null || saving}
+                          className="text-blue-600 hover:text-blue-800 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleRemove(relationship)}
+                          disabled={removingId !== null}
+                          className="text-red-600 hover:text-red-800 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
                         >
-                          {relationship.otherEntityLabel}
-                        </Link>
-                      ) : (
-                        <span className="text-gray-900">{relationship.otherEntityLabel}</span>
-                      )}
-                    </td>
-                    <td className="py-3 text-gray-500">
-                      {new Date(relationship.createdAt).toLocaleDateString()}
-                    </td>
-                    <td className="py-3">
-                      <button
-                        onClick={() => handleRemove(relationship)}
-                        disabled={removingId !== null}
-                        className="text-red-600 hover:text-red-800 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
-                      >
-                        {removingId === relationship.id ? "Removing..." : "Remove"}
-                      </button>
-                    </td>
-                  </tr>
+                          {removingId === relationship.id ? "Removing..." : "Remove"}
+                        </button>
+                      </td>
+                    </tr>
+                    {editingId === relationship.id && (
+                      <tr className="border-b border-gray-100 bg-gray-50">
+                        <td colSpan={5} className="p-3">
+                          <div className="space-y-2">
+                            <div>
+                              <label className="block text-xs font-medium text-gray-700 mb-1">Notes</label>
+                              <textarea
+                                value={draftNotes}
+                                onChange={(e) => setDraftNotes(e.target.value)}
+                                rows={2}
+                                placeholder="Why does this relationship hold?"
+                                className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+                                disabled={saving}
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-xs font-medium text-gray-700 mb-1">Cited passage</label>
+                              <textarea
+                                value={draftPassage}
+                                onChange={(e) => setDraftPassage(e.target.value)}
+                                rows={3}
+                                className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+                                disabled={saving}
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-xs font-medium text-gray-700 mb-1">Anchor / section</label>
+                              <input
+                                type="text"
+                                value={draftAnchor}
+                                onChange={(e) => setDraftAnchor(e.target.value)}
+                                placeholder="e.g. Section 3.2, #results, p. 14"
+                                className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+                                disabled={saving}
+                              />
+                            </div>
+                            <div className="flex gap-3">
+                              <button
+                                onClick={() => handleSave(relationship)}
+                                disabled={saving}
+                                className="bg-blue-600 text-white px-3 py-1.5 rounded text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                              >
+                                {saving ? "Saving..." : "Save"}
+                              </button>
+                              <button
+                                onClick={() => setEditingId(null)}
+                                disabled={saving}
+                                className="text-sm text-gray-500 hover:text-gray-700"
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
                 ))}
               </tbody>
             </table>
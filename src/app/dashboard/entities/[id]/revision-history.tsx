@@ -0,0 +1,216 @@
+"use client";
+
+/**
+ * Revision History Component
+ * Client panel for entity revisions: list, field-level diff, restore
+ *
+ * Diffs are computed by GET /api/entities/[id]/revisions/diff; restores call
+ * POST /api/entities/[id]/revisions/[revision]/restore, which appends a new
+ * revision rather than rewriting history.
+ */
+import { useState, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { useToast } from "@/lib/use-toast";
+import { ToastContainer } from "@/app/dashboard/toast-container";
+
+interface Revision {
+  revisionNumber: number;
+  changedFields: string[];
+  actor: string;
+  restoredFromRevision: number | null;
+  createdAt: string;
+}
+
+interface FieldChange {
+  field: string;
+  from: string | null;
+  to: string | null;
+}
+
+interface RevisionHistoryProps {
+  entityId: string;
+  revisions: Revision[]; // newest first
+}
+
+export function RevisionHistory({ entityId, revisions }: RevisionHistoryProps) {
+  const router = useRouter();
+
+  const latest = revisions[0]?.revisionNumber ?? null;
+  const [fromRev, setFromRev] = useState<number | null>(
+    revisions[1]?.revisionNumber ?? latest
+  );
+  const [toRev, setToRev] = useState<number | null>(latest);
+  const [changes, setChanges] = useState<FieldChange[] | null>(null);
+  const [loadingDiff, setLoadingDiff] = useState(false);
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const { toasts, addToast, dismissToast } = useToast();
+
+  const handleDiff = useCallback(async () => {
+    if (fromRev === null || toRev === null) return;
+    setLoadingDiff(true);
+    try {
+      const response = await fetch(
+        `/api/entities/${entityId}/revisions/diff?from=${fromRev}&to=${toRev}`
+      );
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || "Failed to load diff");
+      }
+      const result = await response.json();
+      setChanges(result.data.changes);
+    } catch (err) {
+      addToast("error", err instanceof Error ? err.message : "Failed to load diff");
+    } finally {
+      setLoadingDiff(false);
+    }
+  }, [entityId, fromRev, toRev, addToast]);
+
+  const handleRestore = useCallback(async (revisionNumber: number) => {
+    if (!confirm(`Restore revision ${revisionNumber}? This creates a new revision.`)) {
+      return;
+    }
+    setRestoring(revisionNumber);
+    try {
+      const response = await fetch(
+        `/api/entities/${entityId}/revisions/${revisionNumber}/restore`,
+        { method: "POST" }
+      );
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || "Restore failed");
+      }
+      addToast("success", `Revision ${revisionNumber} restored`);
+      setChanges(null);
+      router.refresh();
+    } catch (err) {
+      addToast("error", err instanceof Error ? err.message : "Restore failed");
+    } finally {
+      setRestoring(null);
+    }
+  }, [entityId, router, addToast]);
+
+  return (
+    <>
+      <ToastContainer toasts={toasts} onDismiss={dismissToast} />
+
+      <div className="bg-white border border-gray-200 rounded-lg p-6">
+        <div className="mb-4">
+          <h2 className="text-lg font-medium text-gray-900">Revision History</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Every edit is kept. Compare any two revisions or restore an earlier one.
+          </p>
+        </div>
+
+        {revisions.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">
+            No revisions recorded. History starts with the next edit.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            {/* Diff selector */}
+            <div className="flex flex-wrap items-end gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">From</label>
+                <select
+                  value={fromRev ?? ""}
+                  onChange={(e) => setFromRev(Number(e.target.value))}
+                  className="border border-gray-300 rounded px-2 py-1 text-sm"
+                >
+                  {revisions.map((r) => (
+                    <option key={r.revisionNumber} value={r.revisionNumber}>
+                      Revision {r.revisionNumber}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">To</label>
+                <select
+                  value={toRev ?? ""}
+                  onChange={(e) => setToRev(Number(e.target.value))}
+                  className="border border-gray-300 rounded px-2 py-1 text-sm"
+                >
+                  {revisions.map((r) => (
+                    <option key={r.revisionNumber} value={r.revisionNumber}>
+                      Revision {r.revisionNumber}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button
+                onClick={handleDiff}
+                disabled={loadingDiff || fromRev === null || toRev === null}
+                className="bg-blue-600 text-white px-3 py-1.5 rounded text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loadingDiff ? "Comparing..." : "Compare"}
+              </button>
+            </div>
+
+            {/* Diff result */}
+            {changes !== null && (
+              changes.length === 0 ? (
+                <p className="text-sm text-gray-500 italic">No differences.</p>
+              ) : (
+                <div className="space-y-3">
+                  {changes.map((change) => (
+                    <div key={change.field} className="border border-gray-200 rounded">
+                      <div className="px-3 py-1.5 bg-gray-50 border-b border-gray-200 text-xs font-medium text-gray-700">
+                        {change.field}
+                      </div>
+                      <div className="grid grid-cols-1 md:grid-cols-2">
+                        <pre className="text-xs bg-red-50 text-red-800 p-2 whitespace-pre-wrap break-words">
+                          {change.from ?? "(empty)"}
+                        </pre>
+                        <pre className="text-xs bg-green-50 text-green-800 p-2 whitespace-pre-wrap break-words">
+                          {change.to ?? "(empty)"}
+                        </pre>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )
+            )}
+
+            {/* Revision list */}
+            <div className="divide-y divide-gray-200">
+              {revisions.map((r) => (
+                <div key={r.revisionNumber} className="flex items-start justify-between py-3">
+                  <div>
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="text-sm font-medium text-gray-900">
+                        Revision {r.revisionNumber}
+                      </span>
+                      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                        {r.actor}
+                      </span>
+                      {r.restoredFromRevision !== null && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                          restored from {r.restoredFromRevision}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {new Date(r.createdAt).toLocaleString()}
+                      {r.changedFields.length > 0
+                        ? ` — ${r.changedFields.join(", ")}`
+                        : " — baseline"}
+                    </p>
+                  </div>
+                  {r.revisionNumber !== latest && (
+                    <button
+                      onClick={() => handleRestore(r.revisionNumber)}
+                      disabled={restoring !== null}
+                      className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    >
+                      {restoring === r.revisionNumber ? "Restoring..." : "Restore"}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
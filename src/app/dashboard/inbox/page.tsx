@@ -11,7 +11,7 @@
  * 1. Capture Source (POST /api/source-items/capture)
  * 2. Change Source Status (PUT /api/source-items/{id}/status)
  * 3. Attach Source to Entity (POST /api/relationships)
- * 4. Promote Source to Draft (POST /api/entities + POST /api/relationships)
+ * 4. Promote Source to News Draft (GET preview, then POST /api/source-items/{id}/promote)
  *
  * Per UI contract: "Archived items must appear visually muted."
  */
@@ -16,6 +16,10 @@
  * 5. Promote Source to Draft entity
  * 6. Generate X reply drafts
  * 7. Manage draft replies (copy, archive)
+ * 8. Bulk triage: checkbox multi-select (shift-click selects a range),
+ *    keyboard shortcuts t = keep, a = archive, Esc = clear selection
+ * 9. Tag source items; filter by tags (all / any)
+ * 10. Saved views (named filter combinations) as tabs
  *
  * Error handling per UI contract:
  * - Success: brief confirmation toast
@@ -24,12 +28,19 @@
  * - 409 → state conflict → prompt refresh
  */
 
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useMemo, useRef } from "react";
 
 // =============================================================================
 // Types
 // =============================================================================
 
+interface PossibleDuplicate {
+  id: string;
+  url: string;
+  title: string | null;
+  similarity: number;
+}
+
 interface SourceItem {
   id: string;
   sourceType: string;
@@ -38,6 +49,11 @@ interface SourceItem {
   capturedAt: string;
   capturedBy: string;
   contentHash: string;
+  title: string | null;
+  excerpt: string | null;
+  duplicateOfId: string | null;
+  possibleDuplicateOf: PossibleDuplicate | null;
+  tags: string[];
   operatorIntent: string;
   notes: string | null;
   status: string;
@@ -45,6 +61,21 @@ interface SourceItem {
   updatedAt: string;
 }
 
+interface ViewFilters {
+  status?: string;
+  sourceType?: string;
+  platform?: string;
+  tags?: string[];
+  tagMode?: "all" | "any";
+}
+
+interface SavedView {
+  id: string;
+  name: string;
+  filters: ViewFilters;
+  position: number;
+}
+
 interface EntitySummary {
   id: string;
   entityType: string;
@@ -82,8 +113,32 @@ interface DraftArtifact {
 const SOURCE_TYPES = ["rss", "webpage", "comment", "reply", "video", "other"];
 const SOURCE_STATUSES = ["ingested", "triaged", "used", "archived"];
 const PLATFORMS = ["website", "x", "youtube", "github", "other"];
-const CONTENT_ENTITY_TYPES = ["guide", "concept", "project", "news"];
-const CONCEPT_KINDS = ["standard", "model", "comparison"];
+
+// The built-in first tab; matches the initial filter state
+const DEFAULT_VIEW_FILTERS: ViewFilters = { status: "ingested" };
+
+function sameFilters(a: ViewFilters, b: ViewFilters): boolean {
+  const tagsA = [...(a.tags ?? [])].sort().join(",");
+  const tagsB = [...(b.tags ?? [])].sort().join(",");
+  return (
+    (a.status ?? "") === (b.status ?? "") &&
+    (a.sourceType ?? "") === (b.sourceType ?? "") &&
+    (a.platform ?? "") === (b.platform ?? "") &&
+    tagsA === tagsB &&
+    (tagsA === "" || (a.tagMode ?? "all") === (b.tagMode ?? "all"))
+  );
+}
+
+function parseTagInput(value: string): string[] {
+  return [
+    ...new Set(
+      value
+        .split(",")
+        .map((tag) => tag.trim().toLowerCase().replace(/\s+/g, " "))
+        .filter((tag) => tag.length > 0)
+    ),
+  ];
+}
 
 /**
  * Per docs/07-RELATIONSHIP-AND-EVENT-VOCABULARY.md
@@ -112,6 +167,10 @@ export function SourceInbox() {
   const [filterStatus, setFilterStatus] = useState<string>("ingested");
   const [filterSourceType, setFilterSourceType] = useState<string>("");
   const [filterPlatform, setFilterPlatform] = useState<string>("");
+  const [filterTags, setFilterTags] = useState<string[]>([]);
+  const [filterTagsInput, setFilterTagsInput] = useState("");
+  const [filterTagMode, setFilterTagMode] = useState<"all" | "any">("all");
+  const [views, setViews] = useState<SavedView[]>([]);
   const [loading, setLoading] = useState(false);
   const [toasts, setToasts] = useState<Toast[]>([]);
 
@@ -120,6 +179,11 @@ export function SourceInbox() {
   const [showAttachModal, setShowAttachModal] = useState<SourceItem | null>(null);
   const [showPromoteModal, setShowPromoteModal] = useState<SourceItem | null>(null);
 
+  // Bulk selection (ids on the current page; cleared on every fetch)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkUpdating, setBulkUpdating] = useState(false);
+  const lastSelectedIndex = useRef<number | null>(null);
+
   // Draft reply states
   const [draftsBySourceId, setDraftsBySourceId] = useState<Record<string, DraftArtifact[]>>({});
   const [draftLoadingBySourceId, setDraftLoadingBySourceId] = useState<Record<string, boolean>>({});
@@ -150,8 +214,13 @@ export function SourceInbox() {
         if (filterStatus) params.set("status", filterStatus);
         if (filterSourceType) params.set("sourceType", filterSourceType);
         if (filterPlatform) params.set("platform", filterPlatform);
+        if (filterTags.length > 0) {
+          params.set("tags", filterTags.join(","));
+          params.set("tagMode", filterTagMode);
+        }
         params.set("page", String(page));
         params.set("limit", "20");
+        params.set("includeDuplicates", "true");
 
         const res = await fetch(`/api/source-items?${params}`);
         if (!res.ok) {
@@ -161,19 +230,125 @@ export function SourceInbox() {
         const json = await res.json();
         setItems(json.data);
         setPagination(json.pagination);
+        setSelectedIds(new Set());
+        lastSelectedIndex.current = null;
       } catch (err) {
         addToast("error", err instanceof Error ? err.message : "Failed to fetch source items");
       } finally {
         setLoading(false);
       }
     },
-    [filterStatus, filterSourceType, filterPlatform, addToast]
+    [filterStatus, filterSourceType, filterPlatform, filterTags, filterTagMode, addToast]
   );
 
   useEffect(() => {
     fetchItems();
   }, [fetchItems]);
 
+  // --- Saved views ---
+  const fetchViews = useCallback(async () => {
+    try {
+      const res = await fetch("/api/source-item-views");
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error?.message || "Failed to fetch saved views");
+      }
+      const json = await res.json();
+      setViews(json.data);
+    } catch (err) {
+      addToast("error", err instanceof Error ? err.message : "Failed to fetch saved views");
+    }
+  }, [addToast]);
+
+  useEffect(() => {
+    fetchViews();
+  }, [fetchViews]);
+
+  const currentFilters = useMemo<ViewFilters>(
+    () => ({
+      ...(filterStatus ? { status: filterStatus } : {}),
+      ...(filterSourceType ? { sourceType: filterSourceType } : {}),
+      ...(filterPlatform ? { platform: filterPlatform } : {}),
+      ...(filterTags.length > 0 ? { tags: filterTags, tagMode: filterTagMode } : {}),
+    }),
+    [filterStatus, filterSourceType, filterPlatform, filterTags, filterTagMode]
+  );
+
+  const applyFilters = (filters: ViewFilters) => {
+    setFilterStatus(filters.status ?? "");
+    setFilterSourceType(filters.sourceType ?? "");
+    setFilterPlatform(filters.platform ?? "");
+    setFilterTags(filters.tags ?? []);
+    setFilterTagsInput((filters.tags ?? []).join(", "));
+    setFilterTagMode(filters.tagMode ?? "all");
+  };
+
+  const commitTagFilter = () => {
+    const tags = parseTagInput(filterTagsInput);
+    if (tags.join(",") !== filterTags.join(",")) setFilterTags(tags);
+  };
+
+  const saveView = async (name: string) => {
+    try {
+      const res = await fetch("/api/source-item-views", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, filters: currentFilters, position: views.length }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error?.message || "Failed to save view");
+      }
+      addToast("success", `Saved view "${name}"`);
+      await fetchViews();
+      return true;
+    } catch (err) {
+      addToast("error", err instanceof Error ? err.message : "Failed to save view");
+      return false;
+    }
+  };
+
+  const deleteView = async (view: SavedView) => {
+    if (!window.confirm(`Delete saved view "${view.name}"?`)) return;
+    try {
+      const res = await fetch(`/api/source-item-views/${view.id}`, { method: "DELETE" });
+      if (!res.ok && res.status !== 404) {
+        const err = await res.json();
+        throw new Error(err.error?.message || "Failed to delete view");
+      }
+      addToast("success", `Deleted view "${view.name}"`);
+      await fetchViews();
+    } catch (err) {
+      addToast("error", err instanceof Error ? err.message : "Failed to delete view");
+    }
+  };
+
+  // --- Tags ---
+  const updateTags = async (item: SourceItem, change: { add?: string[]; remove?: string[] }) => {
+    try {
+      const res = await fetch(`/api/source-items/${item.id}/tags`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(change),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        if (res.status === 404) {
+          addToast("error", "Source item not found — it may have been removed.");
+          return;
+        }
+        const detail = err.error?.details?.[0]?.message;
+        throw new Error(detail || err.error?.message || "Failed to update tags");
+      }
+      const json = await res.json();
+      setItems((prev) =>
+        prev.map((i) => (i.id === item.id ? { ...i, tags: json.data.tags } : i))
+      );
+    } catch (err) {
+      addToast("error", err instanceof Error ? err.message : "Failed to update tags");
+    }
+  };
+
   // --- Change status ---
   const changeStatus = async (item: SourceItem, newStatus: string) => {
     try {
@@ -200,6 +375,132 @@ export function SourceInbox() {
     }
   };
 
+  // --- Bulk selection ---
+  const toggleSelect = (index: number, shiftKey: boolean) => {
+    const id = items[index].id;
+    const anchor = lastSelectedIndex.current;
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      const select = !prev.has(id);
+      // Shift-click applies the clicked row's new state to the whole range
+      const range =
+        shiftKey && anchor !== null
+          ? items.slice(Math.min(anchor, index), Math.max(anchor, index) + 1)
+          : [items[index]];
+      for (const item of range) {
+        if (select) next.add(item.id);
+        else next.delete(item.id);
+      }
+      return next;
+    });
+    lastSelectedIndex.current = index;
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds((prev) =>
+      prev.size === items.length ? new Set() : new Set(items.map((item) => item.id))
+    );
+    lastSelectedIndex.current = null;
+  };
+
+  // --- Bulk status change ---
+  const bulkChangeStatus = useCallback(
+    async (newStatus: string) => {
+      const ids = [...selectedIds];
+      if (ids.length === 0 || bulkUpdating) return;
+      setBulkUpdating(true);
+      try {
+        const res = await fetch("/api/source-items/bulk-status", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ids, status: newStatus }),
+        });
+        const json = await res.json();
+        if (!res.ok) {
+          throw new Error(json.error?.message || "Failed to update status");
+        }
+        const { updatedCount, failedCount, results } = json.data as {
+          updatedCount: number;
+          failedCount: number;
+          results: { ok: boolean; error?: { message: string } }[];
+        };
+        if (updatedCount > 0) {
+          addToast("success", `${updatedCount} item(s) changed to ${newStatus}`);
+        }
+        if (failedCount > 0) {
+          const firstError = results.find((r) => !r.ok)?.error?.message;
+          addToast(
+            "error",
+            `${failedCount} item(s) not changed${firstError ? ` — ${firstError}` : ""}`
+          );
+        }
+        fetchItems(pagination.page);
+      } catch (err) {
+        addToast("error", err instanceof Error ? err.message : "Failed to update status");
+      } finally {
+        setBulkUpdating(false);
+      }
+    },
+    [selectedIds, bulkUpdating, addToast, fetchItems, pagination.page]
+  );
+
+  // --- Keyboard shortcuts (ignored while typing or with a modal open) ---
+  const modalOpen = showCaptureModal || showAttachModal !== null || showPromoteModal !== null;
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (modalOpen || e.metaKey || e.ctrlKey || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (
+        target &&
+        (target.isContentEditable ||
+          target.tagName === "TEXTAREA" ||
+          target.tagName === "SELECT" ||
+          (target instanceof HTMLInputElement && target.type !== "checkbox"))
+      ) {
+        return;
+      }
+
+      if (e.key === "Escape") {
+        setSelectedIds(new Set());
+        lastSelectedIndex.current = null;
+      } else if (e.key === "t" && selectedIds.size > 0) {
+        e.preventDefault();
+        bulkChangeStatus("triaged");
+      } else if (e.key === "a" && selectedIds.size > 0) {
+        e.preventDefault();
+        bulkChangeStatus("archived");
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [modalOpen, selectedIds, bulkChangeStatus]);
+
+  // --- Mark as duplicate (archives and links to the original) ---
+  const markDuplicate = async (item: SourceItem, duplicateOfId: string) => {
+    try {
+      const res = await fetch(`/api/source-items/${item.id}/mark-duplicate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ duplicateOfId }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        if (res.status === 404) {
+          addToast("error", "Source item not found — it may have been removed.");
+        } else if (res.status === 409) {
+          addToast("error", err.error?.message || "State conflict — please refresh.");
+        } else {
+          throw new Error(err.error?.message || "Failed to mark as duplicate");
+        }
+        return;
+      }
+      addToast("success", "Marked as duplicate and archived");
+      fetchItems(pagination.page);
+    } catch (err) {
+      addToast("error", err instanceof Error ? err.message : "Failed to mark as duplicate");
+    }
+  };
+
   // --- Draft reply helpers ---
   const fetchDrafts = useCallback(async (sourceItemId: string) => {
     setDraftLoadingBySourceId((prev) => ({ ...prev, [sourceItemId]: true }));
@@ -286,6 +587,15 @@ export function SourceInbox() {
       {/* Toast container */}
       <ToastContainer toasts={toasts} onDismiss={dismissToast} />
 
+      {/* Saved views */}
+      <SavedViewTabs
+        views={views}
+        currentFilters={currentFilters}
+        onSelect={applyFilters}
+        onSave={saveView}
+        onDelete={deleteView}
+      />
+
       {/* Filters + Actions bar */}
       <div className="flex flex-wrap items-center gap-3 bg-white border border-gray-200 rounded-lg p-4">
         {/* Status filter */}
@@ -339,6 +649,31 @@ export function SourceInbox() {
           </select>
         </div>
 
+        {/* Tag filter */}
+        <div className="flex items-center gap-2">
+          <label className="text-sm font-medium text-gray-700">Tags:</label>
+          <input
+            type="text"
+            value={filterTagsInput}
+            onChange={(e) => setFilterTagsInput(e.target.value)}
+            onBlur={commitTagFilter}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitTagFilter();
+            }}
+            placeholder="tag, tag"
+            className="text-sm border border-gray-300 rounded px-2 py-1.5 w-40"
+          />
+          <select
+            value={filterTagMode}
+            onChange={(e) => setFilterTagMode(e.target.value as "all" | "any")}
+            className="text-sm border border-gray-300 rounded px-2 py-1.5"
+            title="all = item has every tag; any = item has at least one"
+          >
+            <option value="all">all</option>
+            <option value="any">any</option>
+          </select>
+        </div>
+
         {/* Spacer */}
         <div className="flex-1" />
 
@@ -351,6 +686,34 @@ export function SourceInbox() {
         </button>
       </div>
 
+      {/* Bulk actions bar */}
+      {selectedIds.size > 0 && (
+        <div className="flex flex-wrap items-center gap-3 bg-blue-50 border border-blue-200 rounded-lg px-4 py-2 text-sm">
+          <span className="font-medium text-blue-900">{selectedIds.size} selected</span>
+          <button
+            onClick={() => bulkChangeStatus("triaged")}
+            disabled={bulkUpdating}
+            className="text-xs font-medium text-green-700 bg-green-50 border border-green-200 px-2 py-1 rounded hover:bg-green-100 disabled:opacity-50"
+          >
+            Keep <kbd className="ml-1 font-mono text-[10px] text-green-600">t</kbd>
+          </button>
+          <button
+            onClick={() => bulkChangeStatus("archived")}
+            disabled={bulkUpdating}
+            className="text-xs font-medium text-gray-600 bg-gray-50 border border-gray-200 px-2 py-1 rounded hover:bg-gray-100 disabled:opacity-50"
+          >
+            Archive <kbd className="ml-1 font-mono text-[10px] text-gray-500">a</kbd>
+          </button>
+          <button
+            onClick={() => setSelectedIds(new Set())}
+            className="text-xs text-blue-700 hover:underline"
+          >
+            Clear <kbd className="ml-1 font-mono text-[10px]">Esc</kbd>
+          </button>
+          <span className="text-xs text-blue-700">Shift-click to select a range</span>
+        </div>
+      )}
+
       {/* Source items list */}
       <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
         {loading ? (
@@ -363,11 +726,19 @@ export function SourceInbox() {
           <table className="w-full text-sm">
             <thead>
               <tr className="border-b border-gray-200 bg-gray-50">
+                <th className="w-8 pl-4 py-2">
+                  <input
+                    type="checkbox"
+                    aria-label="Select all on this page"
+                    checked={selectedIds.size > 0 && selectedIds.size === items.length}
+                    onChange={toggleSelectAll}
+                  />
+                </th>
                 <th className="text-left px-4 py-2 font-medium text-gray-600">
                   Type
                 </th>
                 <th className="text-left px-4 py-2 font-medium text-gray-600">
-                  URL
+                  Source
                 </th>
                 <th className="text-left px-4 py-2 font-medium text-gray-600">
                   Platform
@@ -384,27 +755,83 @@ export function SourceInbox() {
               </tr>
             </thead>
             <tbody>
-              {items.map((item) => (
+              {items.map((item, index) => (
                 <React.Fragment key={item.id}>
                   <tr
                     className={`border-b border-gray-100 hover:bg-gray-50 ${
                       item.status === "archived" ? "opacity-50" : ""
-                    }`}
+                    } ${selectedIds.has(item.id) ? "bg-blue-50" : ""}`}
                   >
+                    <td className="w-8 pl-4 py-3">
+                      <input
+                        type="checkbox"
+                        aria-label="Select item"
+                        checked={selectedIds.has(item.id)}
+                        onClick={(e) => toggleSelect(index, e.shiftKey)}
+                        readOnly
+                      />
+                    </td>
                     <td className="px-4 py-3">
                       <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700">
                         {item.sourceType}
                       </span>
                     </td>
-                    <td className="px-4 py-3 max-w-xs truncate">
-                      <a
-                        href={item.url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-blue-600 hover:underline"
-                      >
-                        {item.url}
-                      </a>
+                    <td className="px-4 py-3 max-w-md">
+                      {item.title ? (
+                        <>
+                          <a
+                            href={item.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="block truncate font-medium text-blue-600 hover:underline"
+                          >
+                            {item.title}
+                          </a>
+                          {item.excerpt && (
+                            <p className="text-xs text-gray-600 line-clamp-2">
+                              {item.excerpt}
+                            </p>
+                          )}
+                          <p className="text-xs text-gray-400 truncate">{item.url}</p>
+                        </>
+                      ) : (
+                        <a
+                          href={item.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="block truncate text-blue-600 hover:underline"
+                        >
+                          {item.url}
+                        </a>
+                      )}
+                      {item.possibleDuplicateOf && (
+                        <div className="mt-1 flex items-center gap-2 text-xs">
+                          <span
+                            className="inline-flex items-center px-2 py-0.5 rounded bg-amber-50 border border-amber-200 text-amber-800 truncate"
+                            title={item.possibleDuplicateOf.url}
+                          >
+                            Possible duplicate of{" "}
+                            {item.possibleDuplicateOf.title || item.possibleDuplicateOf.url} (
+                            {Math.round(item.possibleDuplicateOf.similarity * 100)}%)
+                          </span>
+                          {item.status !== "used" && (
+                            <button
+                              onClick={() => markDuplicate(item, item.possibleDuplicateOf!.id)}
+                              className="shrink-0 font-medium text-amber-800 hover:underline"
+                            >
+                              Mark as duplicate
+                            </button>
+                          )}
+                        </div>
+                      )}
+                      {item.duplicateOfId && (
+                        <p className="mt-1 text-xs text-gray-500">Marked as duplicate</p>
+                      )}
+                      <TagEditor
+                        tags={item.tags}
+                        onAdd={(tags) => updateTags(item, { add: tags })}
+                        onRemove={(tag) => updateTags(item, { remove: [tag] })}
+                      />
                     </td>
                     <td className="px-4 py-3 text-gray-600">{item.platform}</td>
                     <td className="px-4 py-3">
@@ -475,7 +902,7 @@ export function SourceInbox() {
                    item.status !== "archived" && 
                    expandedDrafts[item.id] && (
                     <tr>
-                      <td colSpan={6} className="px-4 py-3 bg-gray-50 border-b border-gray-100">
+                      <td colSpan={7} className="px-4 py-3 bg-gray-50 border-b border-gray-100">
                         <div className="space-y-3">
                           {draftErrorBySourceId[item.id] && (
                             <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded px-3 py-2">
@@ -592,10 +1019,16 @@ export function SourceInbox() {
       {showPromoteModal && (
         <PromoteModal
           sourceItem={showPromoteModal}
+          additionalCandidates={items.filter(
+            (i) =>
+              selectedIds.has(i.id) &&
+              i.id !== showPromoteModal.id &&
+              i.status !== "archived"
+          )}
           onClose={() => setShowPromoteModal(null)}
           onSuccess={() => {
             setShowPromoteModal(null);
-            addToast("success", "Source promoted to draft entity");
+            addToast("success", "Source promoted to news draft");
             fetchItems(pagination.page);
           }}
           onError={(msg) => addToast("error", msg)}
@@ -627,6 +1060,165 @@ function StatusBadge({ status }: { status: string }) {
   );
 }
 
+function SavedViewTabs({
+  views,
+  currentFilters,
+  onSelect,
+  onSave,
+  onDelete,
+}: {
+  views: SavedView[];
+  currentFilters: ViewFilters;
+  onSelect: (filters: ViewFilters) => void;
+  onSave: (name: string) => Promise<boolean>;
+  onDelete: (view: SavedView) => void;
+}) {
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState("");
+
+  const isDefault = sameFilters(currentFilters, DEFAULT_VIEW_FILTERS);
+  const activeView = views.find((view) => sameFilters(view.filters, currentFilters));
+
+  const tabClass = (active: boolean) =>
+    `text-sm px-3 py-1.5 border-b-2 ${
+      active
+        ? "border-blue-600 text-blue-700 font-medium"
+        : "border-transparent text-gray-600 hover:text-gray-900"
+    }`;
+
+  const submit = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    if (await onSave(trimmed)) {
+      setNaming(false);
+      setName("");
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 border-b border-gray-200">
+      <button onClick={() => onSelect(DEFAULT_VIEW_FILTERS)} className={tabClass(isDefault)}>
+        Inbox
+      </button>
+      {views.map((view) => (
+        <span key={view.id} className="inline-flex items-center">
+          <button onClick={() => onSelect(view.filters)} className={tabClass(view.id === activeView?.id)}>
+            {view.name}
+          </button>
+          {view.id === activeView?.id && (
+            <button
+              onClick={() => onDelete(view)}
+              className="text-xs text-gray-400 hover:text-red-600 px-1"
+              aria-label={`Delete view ${view.name}`}
+            >
+              ✕
+            </button>
+          )}
+        </span>
+      ))}
+      <div className="flex-1" />
+      {naming ? (
+        <span className="inline-flex items-center gap-2 pb-1">
+          <input
+            autoFocus
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") submit();
+              if (e.key === "Escape") setNaming(false);
+            }}
+            placeholder="View name"
+            maxLength={60}
+            className="text-sm border border-gray-300 rounded px-2 py-1"
+          />
+          <button onClick={submit} className="text-xs font-medium text-blue-700 hover:underline">
+            Save
+          </button>
+          <button onClick={() => setNaming(false)} className="text-xs text-gray-500 hover:underline">
+            Cancel
+          </button>
+        </span>
+      ) : (
+        !isDefault &&
+        !activeView && (
+          <button
+            onClick={() => setNaming(true)}
+            className="text-xs font-medium text-blue-700 hover:underline pb-1"
+          >
+            + Save current filters as view
+          </button>
+        )
+      )}
+    </div>
+  );
+}
+
+function TagEditor({
+  tags,
+  onAdd,
+  onRemove,
+}: {
+  tags: string[];
+  onAdd: (tags: string[]) => void;
+  onRemove: (tag: string) => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [value, setValue] = useState("");
+
+  const submit = () => {
+    const added = parseTagInput(value).filter((tag) => !tags.includes(tag));
+    if (added.length > 0) onAdd(added);
+    setValue("");
+    setEditing(false);
+  };
+
+  return (
+    <div className="mt-1 flex flex-wrap items-center gap-1">
+      {tags.map((tag) => (
+        <span
+          key={tag}
+          className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-gray-100 text-xs text-gray-700"
+        >
+          {tag}
+          <button
+            onClick={() => onRemove(tag)}
+            className="text-gray-400 hover:text-red-600"
+            aria-label={`Remove tag ${tag}`}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      {editing ? (
+        <input
+          autoFocus
+          type="text"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onBlur={submit}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") submit();
+            if (e.key === "Escape") {
+              setValue("");
+              setEditing(false);
+            }
+          }}
+          placeholder="tag, tag"
+          className="text-xs border border-gray-300 rounded px-1.5 py-0.5 w-28"
+        />
+      ) : (
+        <button
+          onClick={() => setEditing(true)}
+          className="text-xs text-gray-400 hover:text-gray-700"
+        >
+          + tag
+        </button>
+      )}
+    </div>
+  );
+}
+
 function ToastContainer({
   toasts,
   onDismiss,
@@ -956,37 +1548,120 @@ function AttachModal({
 }
 
 // =============================================================================
-// Promote Source to Draft Modal
+// Promote Source to News Draft Modal
 // =============================================================================
 
+interface PromotionPreview {
+  draft: {
+    entityType: "news";
+    title: string;
+    summary: string | null;
+    slug: string;
+    slugAvailable: boolean;
+  };
+  sources: { id: string; url: string; title: string | null; status: string }[];
+  suggestedConcepts: {
+    id: string;
+    title: string;
+    slug: string;
+    matchedOn: "title" | "slug";
+    occurrences: number;
+  }[];
+}
+
+/**
+ * Two steps: edit (prefilled from GET /promote, pick extra sources and
+ * concept links), then a read-only preview of everything POST /promote
+ * will write. Selected inbox rows are offered as additional sources.
+ */
 function PromoteModal({
   sourceItem,
+  additionalCandidates,
   onClose,
   onSuccess,
   onError,
 }: {
   sourceItem: SourceItem;
+  additionalCandidates: SourceItem[];
   onClose: () => void;
   onSuccess: () => void;
   onError: (msg: string) => void;
 }) {
-  const [entityType, setEntityType] = useState("guide");
-  const [title, setTitle] = useState("");
-  const [conceptKind, setConceptKind] = useState("standard");
+  const [additionalIds, setAdditionalIds] = useState<string[]>(() =>
+    additionalCandidates.map((c) => c.id)
+  );
+  const [preview, setPreview] = useState<PromotionPreview | null>(null);
+  const [loadingPreview, setLoadingPreview] = useState(true);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [title, setTitle] = useState<string | null>(null);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [conceptIds, setConceptIds] = useState<Set<string>>(new Set());
+  const [step, setStep] = useState<"edit" | "preview">("edit");
   const [submitting, setSubmitting] = useState(false);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Suggestions depend on the chosen sources; the prefill only on the primary
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setLoadingPreview(true);
+      setPreviewError(null);
+      try {
+        const params = new URLSearchParams();
+        if (additionalIds.length > 0) params.set("sourceItemIds", additionalIds.join(","));
+        const res = await fetch(`/api/source-items/${sourceItem.id}/promote?${params}`);
+        if (!res.ok) {
+          const err = await res.json();
+          throw new Error(err.error?.message || "Failed to load promotion preview");
+        }
+        const json = await res.json();
+        if (!cancelled) setPreview(json.data);
+      } catch (err) {
+        if (!cancelled) {
+          setPreviewError(err instanceof Error ? err.message : "Failed to load promotion preview");
+        }
+      } finally {
+        if (!cancelled) setLoadingPreview(false);
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceItem.id, additionalIds]);
+
+  const effectiveTitle = title ?? preview?.draft.title ?? "";
+  const effectiveSummary = summary ?? preview?.draft.summary ?? "";
+  const suggestions = preview?.suggestedConcepts ?? [];
+  const chosenConcepts = suggestions.filter((c) => conceptIds.has(c.id));
+  const titleUnchanged = title === null || title === preview?.draft.title;
+
+  const toggleAdditional = (id: string) => {
+    setAdditionalIds((prev) =>
+      prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]
+    );
+  };
+
+  const toggleConcept = (id: string) => {
+    setConceptIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleSubmit = async () => {
     setSubmitting(true);
     try {
-      // Single atomic endpoint: entity + relationship + status update
+      // Single atomic endpoint: entity + relationships + source status
       const res = await fetch(`/api/source-items/${sourceItem.id}/promote`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          entityType,
-          title,
-          ...(entityType === "concept" ? { conceptKind } : {}),
+          title: effectiveTitle.trim(),
+          summary: effectiveSummary.trim(),
+          ...(additionalIds.length > 0 ? { sourceItemIds: additionalIds } : {}),
+          ...(chosenConcepts.length > 0 ? { conceptIds: chosenConcepts.map((c) => c.id) } : {}),
         }),
       });
       if (!res.ok) {
@@ -1002,61 +1677,171 @@ function PromoteModal({
     }
   };
 
+  if (step === "preview" && preview) {
+    return (
+      <ModalOverlay onClose={onClose}>
+        <div className="space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">Review News Draft</h2>
+
+          <div className="border border-gray-200 rounded p-3">
+            <p className="text-xs font-medium text-gray-500 uppercase mb-1">Draft news entity</p>
+            <p className="text-sm font-medium text-gray-900">{effectiveTitle}</p>
+            {effectiveSummary.trim() && (
+              <p className="text-sm text-gray-600 mt-1">{effectiveSummary}</p>
+            )}
+          </div>
+
+          <div>
+            <p className="text-xs font-medium text-gray-500 uppercase mb-1">
+              NEWS_DERIVED_FROM_SOURCE ({preview.sources.length})
+            </p>
+            <ul className="space-y-1">
+              {preview.sources.map((s) => (
+                <li key={s.id} className="text-sm text-gray-700 truncate">
+                  {s.title || s.url}
+                  {s.status !== "used" && (
+                    <span className="ml-2 text-xs text-gray-500">{s.status} → used</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div>
+            <p className="text-xs font-medium text-gray-500 uppercase mb-1">
+              NEWS_REFERENCES_CONCEPT ({chosenConcepts.length})
+            </p>
+            {chosenConcepts.length === 0 ? (
+              <p className="text-sm text-gray-500">None</p>
+            ) : (
+              <ul className="space-y-1">
+                {chosenConcepts.map((c) => (
+                  <li key={c.id} className="text-sm text-gray-700">{c.title}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={() => setStep("edit")}
+              className="text-sm px-4 py-2 border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+            >
+              Back
+            </button>
+            <button
+              type="button"
+              onClick={handleSubmit}
+              disabled={submitting}
+              className="text-sm px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              {submitting ? "Creating…" : "Create Draft"}
+            </button>
+          </div>
+        </div>
+      </ModalOverlay>
+    );
+  }
+
   return (
     <ModalOverlay onClose={onClose}>
-      <form onSubmit={handleSubmit} className="space-y-4">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          setStep("preview");
+        }}
+        className="space-y-4"
+      >
         <h2 className="text-lg font-semibold text-gray-900">
-          Promote to Draft Entity
+          Promote to News Draft
         </h2>
         <p className="text-sm text-gray-600 truncate">
-          Source: {sourceItem.url}
+          Source: {sourceItem.title || sourceItem.url}
         </p>
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-1">
-            Entity Type <span className="text-red-500">*</span>
-          </label>
-          <select
-            value={entityType}
-            onChange={(e) => setEntityType(e.target.value)}
-            className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
-          >
-            {CONTENT_ENTITY_TYPES.map((t) => (
-              <option key={t} value={t}>{t}</option>
-            ))}
-          </select>
-        </div>
+        {previewError && <p className="text-sm text-red-700">{previewError}</p>}
 
-        {entityType === "concept" && (
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Concept Kind
-            </label>
-            <select
-              value={conceptKind}
-              onChange={(e) => setConceptKind(e.target.value)}
-              className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
-            >
-              {CONCEPT_KINDS.map((k) => (
-                <option key={k} value={k}>{k}</option>
-              ))}
-            </select>
-          </div>
-        )}
+        {!preview ? (
+          loadingPreview && <p className="text-sm text-gray-500">Loading…</p>
+        ) : (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Title <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                value={effectiveTitle}
+                onChange={(e) => setTitle(e.target.value)}
+                className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                required
+              />
+              {preview && titleUnchanged && !preview.draft.slugAvailable && (
+                <p className="mt-1 text-xs text-amber-700">
+                  A news entity with slug “{preview.draft.slug}” already exists; change the title.
+                </p>
+              )}
+            </div>
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-1">
-            Title <span className="text-red-500">*</span>
-          </label>
-          <input
-            type="text"
-            value={title}
-            onChange={(e) => setTitle(e.target.value)}
-            className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
-            placeholder="Title for the new draft..."
-            required
-          />
-        </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Summary</label>
+              <textarea
+                value={effectiveSummary}
+                onChange={(e) => setSummary(e.target.value)}
+                rows={3}
+                className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+              />
+            </div>
+
+            {additionalCandidates.length > 0 && (
+              <div>
+                <p className="block text-sm font-medium text-gray-700 mb-1">
+                  Also derived from (selected rows)
+                </p>
+                <div className="space-y-1 max-h-32 overflow-y-auto">
+                  {additionalCandidates.map((c) => (
+                    <label key={c.id} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={additionalIds.includes(c.id)}
+                        onChange={() => toggleAdditional(c.id)}
+                      />
+                      <span className="truncate">{c.title || c.url}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <p className="block text-sm font-medium text-gray-700 mb-1">
+                Suggested concept links
+              </p>
+              {suggestions.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  {loadingPreview ? "Loading…" : "No concept titles found in the source text."}
+                </p>
+              ) : (
+                <div className="space-y-1 max-h-40 overflow-y-auto">
+                  {suggestions.map((c) => (
+                    <label key={c.id} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={conceptIds.has(c.id)}
+                        onChange={() => toggleConcept(c.id)}
+                      />
+                      <span>{c.title}</span>
+                      <span className="text-xs text-gray-400">
+                        {c.occurrences}× by {c.matchedOn}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
 
         <div className="flex justify-end gap-3 pt-2">
           <button
@@ -1068,10 +1853,10 @@ function PromoteModal({
           </button>
           <button
             type="submit"
-            disabled={submitting}
+            disabled={!preview || !effectiveTitle.trim()}
             className="text-sm px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
           >
-            {submitting ? "Creating…" : "Create Draft"}
+            Preview
           </button>
         </div>
       </form>
@@ -33,6 +33,12 @@ export default function DashboardLayout({
                 >
                   Source Inbox
                 </Link>
+                <Link
+                  href="/dashboard/capture"
+                  className="text-sm font-medium text-gray-700 hover:text-gray-900 px-2 py-1 rounded"
+                >
+                  Capture
+                </Link>
                 <Link
                   href="/dashboard/entities"
                   className="text-sm font-medium text-gray-700 hover:text-gray-900 px-2 py-1 rounded"
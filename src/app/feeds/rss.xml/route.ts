@@ -0,0 +1,28 @@
+/**
+ * GET /feeds/rss.xml — RSS 2.0 feed of published entities
+ *
+ * - News by default; ?type=news,guide,... selects content types
+ * - ?project={slug} narrows to one project
+ * - Latest FEED_ITEM_LIMIT items, newest first (lib/feeds.ts)
+ */
+import { NextRequest } from "next/server";
+import { badRequest, notFound, serverError } from "@/lib/api-response";
+import { publicSiteOrigin } from "@/lib/public-url";
+import { buildRssFeed, loadFeed } from "@/lib/feeds";
+import { xmlResponse } from "@/lib/xml";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    const origin = publicSiteOrigin(request.nextUrl.origin);
+    const { feed, error, notFound: missing } = await loadFeed(request.nextUrl, origin);
+    if (error) return badRequest(error);
+    if (missing || !feed) return notFound("Project not found");
+
+    return xmlResponse(buildRssFeed(feed), "application/rss+xml");
+  } catch (error) {
+    console.error("GET /feeds/rss.xml error:", error);
+    return serverError();
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * /guides/[slug] — Public single guide page
+ *
+ * Phase 1 public projection pages - server component only
+ * - Direct Prisma reads for published guides
+ * - Body rendered by lib/markdown.ts
+ * - Related sections from EntityRelation edges (lib/public-entities.ts)
+ * - schema.org JSON-LD from lib/json-ld.ts
+ */
+import { notFound } from "next/navigation";
+import { getPublishedEntity, getRelatedSections } from "@/lib/public-entities";
+import { EntityBody } from "@/app/_components/entity-body";
+import { EntityJsonLd } from "@/app/_components/entity-json-ld";
+import { RelatedSections } from "@/app/_components/related-sections";
+
+// This page reads from the database; it must not be statically prerendered at build time.
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default async function GuidePage(
+  context: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await context.params;
+  const guide = await getPublishedEntity("guide", slug);
+
+  if (!guide) {
+    notFound();
+  }
+
+  const related = await getRelatedSections(guide);
+
+  return (
+    <article>
+      <EntityJsonLd entityId={guide.id} projectId={guide.projectId} />
+      <h1>{guide.title}</h1>
+
+      {guide.difficulty && <p>Difficulty: {guide.difficulty}</p>}
+
+      {guide.summary && (
+        <div>
+          <h2>Summary</h2>
+          <p>{guide.summary}</p>
+        </div>
+      )}
+
+      <EntityBody entityId={guide.id} projectId={guide.projectId} />
+
+      <RelatedSections sections={related} />
+    </article>
+  );
+}
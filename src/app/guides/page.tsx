@@ -0,0 +1,44 @@
+/**
+ * /guides — Public guide listing page
+ *
+ * Phase 1 public projection pages - server component only
+ * - Direct Prisma reads for published guides
+ * - Simple semantic HTML rendering
+ */
+import Link from "next/link";
+import { getPublishedEntities } from "@/lib/public-entities";
+import { publicUrlFor } from "@/lib/public-url";
+
+// This page reads from the database; it must not be statically prerendered at build time.
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default async function GuidesPage() {
+  const guides = await getPublishedEntities("guide");
+
+  if (guides.length === 0) {
+    return (
+      <div>
+        <h1>Guides</h1>
+        <p>No published guides yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h1>Guides</h1>
+      <div>
+        {guides.map((guide) => (
+          <article key={guide.id}>
+            <h2>
+              <Link href={publicUrlFor(guide)}>{guide.title}</Link>
+            </h2>
+            {guide.difficulty && <p>Difficulty: {guide.difficulty}</p>}
+            {guide.summary && <p>{guide.summary}</p>}
+          </article>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -4,52 +4,37 @@
  * Phase 1 public projection pages - server component only
  * - Direct Prisma reads for published news
  * - Simple semantic HTML rendering
- * - No markdown rendering, no file fetching yet
+ * - Body is the current hosted content version, rendered server-side by
+ *   lib/markdown.ts (sanitized HTML, heading anchors, highlighted code,
+ *   entity: links resolved within the item's project)
+ * - Related sections from EntityRelation edges (lib/public-entities.ts)
+ * - schema.org JSON-LD from lib/json-ld.ts
  */
 import { notFound } from "next/navigation";
-import { prisma } from "@/lib/prisma";
+import { getPublishedEntity, getRelatedSections } from "@/lib/public-entities";
+import { EntityBody } from "@/app/_components/entity-body";
+import { EntityJsonLd } from "@/app/_components/entity-json-ld";
+import { RelatedSections } from "@/app/_components/related-sections";
 
 // This page reads from the database; it must not be statically prerendered at build time.
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
-interface NewsEntity {
-  id: string;
-  title: string;
-  slug: string;
-  summary: string | null;
-  contentRef: string | null;
-  publishedAt: Date | null;
-}
-
-async function getNewsItem(slug: string): Promise<NewsEntity | null> {
-  const entity = await prisma.entity.findFirst({
-    where: { entityType: "news", slug, status: "published" },
-    select: {
-      id: true,
-      title: true,
-      slug: true,
-      summary: true,
-      contentRef: true,
-      publishedAt: true,
-    },
-  });
-
-  return entity;
-}
-
 export default async function NewsItemPage(
   context: { params: Promise<{ slug: string }> }
 ) {
   const { slug } = await context.params;
-  const newsItem = await getNewsItem(slug);
+  const newsItem = await getPublishedEntity("news", slug);
 
   if (!newsItem) {
     notFound();
   }
 
+  const related = await getRelatedSections(newsItem);
+
   return (
     <article>
+      <EntityJsonLd entityId={newsItem.id} projectId={newsItem.projectId} />
       <h1>{newsItem.title}</h1>
 
       {newsItem.summary && (
@@ -59,12 +44,7 @@ export default async function NewsItemPage(
         </div>
       )}
 
-      {newsItem.contentRef && (
-        <div>
-          <h2>Content Reference</h2>
-          <p>{newsItem.contentRef}</p>
-        </div>
-      )}
+      <EntityBody entityId={newsItem.id} projectId={newsItem.projectId} />
 
       {newsItem.publishedAt && (
         <div>
@@ -76,6 +56,8 @@ export default async function NewsItemPage(
           </p>
         </div>
       )}
+
+      <RelatedSections sections={related} />
     </article>
   );
 }
@@ -5,7 +5,9 @@
  * - Direct Prisma reads for published news
  * - Simple semantic HTML rendering
  * - No client-side logic, no styling framework
+ * - Advertises the RSS/Atom news feeds via <link rel="alternate">
  */
+import type { Metadata } from "next";
 import Link from "next/link";
 import { prisma } from "@/lib/prisma";
 
@@ -13,6 +15,15 @@ import { prisma } from "@/lib/prisma";
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
+export const metadata: Metadata = {
+  alternates: {
+    types: {
+      "application/rss+xml": "/feeds/rss.xml",
+      "application/atom+xml": "/feeds/atom.xml",
+    },
+  },
+};
+
 interface NewsEntity {
   id: string;
   title: string;
@@ -0,0 +1,77 @@
+/**
+ * /projects/[slug] — Public single project page
+ *
+ * Phase 1 public projection pages - server component only
+ * - Direct Prisma reads for published project entities
+ * - Repository facts: repoUrl, license, repoDefaultBranch
+ * - Body rendered by lib/markdown.ts
+ * - Related sections from EntityRelation edges (lib/public-entities.ts)
+ * - schema.org JSON-LD from lib/json-ld.ts
+ */
+import { notFound } from "next/navigation";
+import { getPublishedEntity, getRelatedSections } from "@/lib/public-entities";
+import { EntityBody } from "@/app/_components/entity-body";
+import { EntityJsonLd } from "@/app/_components/entity-json-ld";
+import { RelatedSections } from "@/app/_components/related-sections";
+
+// This page reads from the database; it must not be statically prerendered at build time.
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default async function ProjectPage(
+  context: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await context.params;
+  const project = await getPublishedEntity("project", slug);
+
+  if (!project) {
+    notFound();
+  }
+
+  const related = await getRelatedSections(project);
+
+  return (
+    <article>
+      <EntityJsonLd entityId={project.id} projectId={project.projectId} />
+      <h1>{project.title}</h1>
+
+      {project.summary && (
+        <div>
+          <h2>Summary</h2>
+          <p>{project.summary}</p>
+        </div>
+      )}
+
+      <dl>
+        {project.repoUrl && (
+          <>
+            <dt>Repository</dt>
+            <dd>
+              <a href={project.repoUrl} rel="noopener noreferrer">
+                {project.repoUrl}
+              </a>
+            </dd>
+          </>
+        )}
+        {project.repoDefaultBranch && (
+          <>
+            <dt>Default branch</dt>
+            <dd>
+              <code>{project.repoDefaultBranch}</code>
+            </dd>
+          </>
+        )}
+        {project.license && (
+          <>
+            <dt>License</dt>
+            <dd>{project.license}</dd>
+          </>
+        )}
+      </dl>
+
+      <EntityBody entityId={project.id} projectId={project.projectId} />
+
+      <RelatedSections sections={related} />
+    </article>
+  );
+}
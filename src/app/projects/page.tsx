@@ -0,0 +1,44 @@
+/**
+ * /projects — Public project listing page
+ *
+ * Phase 1 public projection pages - server component only
+ * - Direct Prisma reads for published project entities
+ * - Simple semantic HTML rendering
+ */
+import Link from "next/link";
+import { getPublishedEntities } from "@/lib/public-entities";
+import { publicUrlFor } from "@/lib/public-url";
+
+// This page reads from the database; it must not be statically prerendered at build time.
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default async function ProjectsPage() {
+  const projects = await getPublishedEntities("project");
+
+  if (projects.length === 0) {
+    return (
+      <div>
+        <h1>Projects</h1>
+        <p>No published projects yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h1>Projects</h1>
+      <div>
+        {projects.map((project) => (
+          <article key={project.id}>
+            <h2>
+              <Link href={publicUrlFor(project)}>{project.title}</Link>
+            </h2>
+            {project.summary && <p>{project.summary}</p>}
+            {project.license && <p>License: {project.license}</p>}
+          </article>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+/**
+ * GET /robots.txt
+ *
+ * - Public pages are crawlable; the dashboard and API are not
+ * - Points crawlers at /sitemap.xml (absolute, see publicSiteOrigin)
+ */
+import { NextRequest } from "next/server";
+import { publicSiteOrigin } from "@/lib/public-url";
+
+export const dynamic = "force-dynamic";
+
+export function GET(request: NextRequest) {
+  const origin = publicSiteOrigin(request.nextUrl.origin);
+  const body = [
+    "User-agent: *",
+    "Allow: /",
+    "Disallow: /api/",
+    "Disallow: /dashboard",
+    "",
+    `Sitemap: ${origin}/sitemap.xml`,
+    "",
+  ].join("\n");
+
+  return new Response(body, {
+    headers: { "Content-Type": "text/plain; charset=utf-8" },
+  });
+}
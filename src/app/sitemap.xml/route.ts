@@ -0,0 +1,48 @@
+/**
+ * GET /sitemap.xml — Site sitemap
+ *
+ * - urlset of every published entity while the total fits in one sitemap
+ * - sitemap index over /sitemaps/{projectSlug}/{page}.xml once it does not
+ * - Absolute URLs use PUBLIC_SITE_URL, falling back to the request origin
+ */
+import { NextRequest } from "next/server";
+import { serverError } from "@/lib/api-response";
+import { publicSiteOrigin } from "@/lib/public-url";
+import {
+  SITEMAP_MAX_URLS,
+  buildSitemapIndex,
+  buildUrlset,
+  getProjectSitemapSummaries,
+  getProjectSitemapUrls,
+  projectSitemapPath,
+} from "@/lib/sitemap";
+import { xmlResponse } from "@/lib/xml";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    const origin = publicSiteOrigin(request.nextUrl.origin);
+    const projects = await getProjectSitemapSummaries();
+    const total = projects.reduce((sum, p) => sum + p.urlCount, 0);
+
+    if (total <= SITEMAP_MAX_URLS) {
+      const urls = [];
+      for (const project of projects) {
+        urls.push(...(await getProjectSitemapUrls(project.projectId, 1, origin)));
+      }
+      return xmlResponse(buildUrlset(urls));
+    }
+
+    const sitemaps = projects.flatMap((project) =>
+      Array.from({ length: project.pageCount }, (_, i) => ({
+        loc: `${origin}${projectSitemapPath(project.slug, i + 1)}`,
+        lastmod: project.lastmod,
+      }))
+    );
+    return xmlResponse(buildSitemapIndex(sitemaps));
+  } catch (error) {
+    console.error("GET /sitemap.xml error:", error);
+    return serverError();
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * GET /sitemaps/[project]/[page].xml — One page of a project's sitemap
+ *
+ * - [project] is the project slug; archived projects have no sitemap
+ * - [page] is "{n}.xml", 1-based, at most SITEMAP_MAX_URLS URLs per page
+ * - Unknown projects and out-of-range pages return 404
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { notFound, serverError } from "@/lib/api-response";
+import { publicSiteOrigin } from "@/lib/public-url";
+import { buildUrlset, getProjectSitemapUrls } from "@/lib/sitemap";
+import { xmlResponse } from "@/lib/xml";
+
+export const dynamic = "force-dynamic";
+
+const PAGE_RE = /^([1-9][0-9]*)\.xml$/;
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ project: string; page: string }> }
+) {
+  try {
+    const { project: projectSlug, page: pageParam } = await context.params;
+
+    const match = PAGE_RE.exec(pageParam);
+    if (!match) return notFound("Sitemap not found");
+    const page = parseInt(match[1], 10);
+
+    const project = await prisma.project.findUnique({
+      where: { slug: projectSlug },
+      select: { id: true, archivedAt: true },
+    });
+    if (!project || project.archivedAt) return notFound("Sitemap not found");
+
+    const origin = publicSiteOrigin(request.nextUrl.origin);
+    const urls = await getProjectSitemapUrls(project.id, page, origin);
+    // Page 1 of a project with nothing published is an empty urlset; past that, 404.
+    if (urls.length === 0 && page > 1) return notFound("Sitemap not found");
+
+    return xmlResponse(buildUrlset(urls));
+  } catch (error) {
+    console.error("GET /sitemaps/[project]/[page] error:", error);
+    return serverError();
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { canonicalizeUrl } from "@/lib/canonical-url";
+
+describe("canonicalizeUrl", () => {
+  it.each([
+    // Every URL
+    ["https://Example.com:443/Post/#section", "https://example.com/Post"],
+    ["https://m.example.com/post?utm_source=rss&b=2&a=1", "https://example.com/post?a=1&b=2"],
+    ["https://example.com/post?fbclid=abc&gclid=def&id=7", "https://example.com/post?id=7"],
+    // si is only a tracker on YouTube and Spotify
+    ["https://example.com/search?si=42", "https://example.com/search?si=42"],
+    // x
+    ["https://twitter.com/SomeUser/status/123?s=20&t=abc", "https://x.com/someuser/status/123"],
+    ["https://mobile.twitter.com/SomeUser", "https://x.com/someuser"],
+    // youtube
+    ["https://youtu.be/dQw4w9WgXcQ?si=track", "https://www.youtube.com/watch?v=dQw4w9WgXcQ"],
+    ["https://www.youtube.com/shorts/abc123", "https://www.youtube.com/watch?v=abc123"],
+    ["https://m.youtube.com/watch?v=abc123&t=42&si=track", "https://www.youtube.com/watch?v=abc123"],
+    ["https://www.youtube.com/playlist?list=PL1&si=track", "https://www.youtube.com/playlist?list=PL1"],
+    // reddit
+    [
+      "https://old.reddit.com/r/MachineLearning/comments/abc12/some_slug/?sort=new",
+      "https://www.reddit.com/r/machinelearning/comments/abc12",
+    ],
+    ["https://redd.it/abc12", "https://www.reddit.com/comments/abc12"],
+    // hackernews
+    ["https://news.ycombinator.com/item?id=123&goto=news", "https://news.ycombinator.com/item?id=123"],
+    // github
+    ["https://www.github.com/Owner/Repo.git/", "https://github.com/owner/repo"],
+    ["https://github.com/Owner/Repo/blob/Main/README.md", "https://github.com/owner/repo/blob/Main/README.md"],
+    // spotify
+    [
+      "https://open.spotify.com/episode/4rOoJ6Egrf8K2IrywzwOMk?si=abc123",
+      "https://open.spotify.com/episode/4rOoJ6Egrf8K2IrywzwOMk",
+    ],
+  ])("%s → %s", (input, expected) => {
+    expect(canonicalizeUrl(input)).toBe(expected);
+  });
+
+  it("returns non-http(s) input trimmed but unchanged", () => {
+    expect(canonicalizeUrl("  mailto:someone@example.com ")).toBe("mailto:someone@example.com");
+    expect(canonicalizeUrl("not a url")).toBe("not a url");
+  });
+});
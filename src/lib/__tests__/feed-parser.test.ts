@@ -0,0 +1,90 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { parseFeed } from "@/lib/feed-parser";
+
+const fixture = (name: string) =>
+  readFileSync(path.join(__dirname, "fixtures/feeds", name), "utf8");
+
+describe("parseFeed", () => {
+  it("parses RSS 2.0 links, permalink guids and dates", () => {
+    const feed = parseFeed(fixture("rss2.xml"), "https://research.example.com/feed.xml");
+
+    expect(feed).toMatchObject({ format: "rss", title: "Example Research Digest" });
+    expect(feed!.entries).toEqual([
+      {
+        url: "https://research.example.com/posts/attention?utm_source=rss",
+        title: "Attention is still all you need",
+        guid: "post-101",
+        publishedAt: new Date("2026-10-06T09:30:00Z"),
+      },
+      {
+        url: "https://research.example.com/posts/relative",
+        title: "Relative link entry",
+        guid: null,
+        publishedAt: new Date("2026-10-05T12:00:00Z"),
+      },
+      {
+        url: "https://research.example.com/posts/guid-only",
+        title: "Permalink guid only",
+        guid: "https://research.example.com/posts/guid-only",
+        publishedAt: null,
+      },
+    ]);
+    // Opaque guid without a link, and a mailto: link
+    expect(feed!.invalidEntryCount).toBe(2);
+  });
+
+  it("parses Atom alternate links, relative hrefs and http(s) ids", () => {
+    const feed = parseFeed(fixture("atom.xml"), "https://lab.example.org/feed.atom");
+
+    expect(feed).toMatchObject({ format: "atom", title: "Example Lab Blog" });
+    expect(feed!.entries).toEqual([
+      {
+        url: "https://lab.example.org/blog/scaling-laws",
+        title: "Scaling laws revisited",
+        guid: "urn:uuid:1225c695-cfb8-4ebb-aaaa-80da344efa6a",
+        publishedAt: new Date("2026-10-07T18:30:02Z"),
+      },
+      {
+        url: "https://lab.example.org/blog/no-rel",
+        title: "Link without rel",
+        guid: "urn:uuid:2225c695-cfb8-4ebb-aaaa-80da344efa6a",
+        publishedAt: new Date("2026-10-06T10:00:00Z"),
+      },
+      {
+        url: "https://lab.example.org/blog/id-as-link",
+        title: "Id as link",
+        guid: "https://lab.example.org/blog/id-as-link",
+        publishedAt: null,
+      },
+    ]);
+    expect(feed!.invalidEntryCount).toBe(1);
+  });
+
+  it("parses RSS 1.0 (RDF) items outside the channel", () => {
+    const feed = parseFeed(fixture("rdf.xml"), "https://news.example.net/rss");
+
+    expect(feed).toMatchObject({ format: "rss", title: "Example Preprint Alerts" });
+    expect(feed!.entries).toEqual([
+      {
+        url: "https://news.example.net/abs/2610.00001",
+        title: "Sparse mixtures of experts",
+        guid: "https://news.example.net/abs/2610.00001",
+        publishedAt: new Date("2026-10-01T00:00:00Z"),
+      },
+      {
+        url: "https://news.example.net/abs/2610.00002",
+        title: "About only",
+        guid: "https://news.example.net/abs/2610.00002",
+        publishedAt: null,
+      },
+    ]);
+    expect(feed!.invalidEntryCount).toBe(0);
+  });
+
+  it("returns null for malformed XML and non-feed documents", () => {
+    expect(parseFeed(fixture("malformed.xml"), "https://example.com/")).toBeNull();
+    expect(parseFeed("<html><body>Not a feed</body></html>", "https://example.com/")).toBeNull();
+  });
+});
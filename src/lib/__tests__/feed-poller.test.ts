@@ -0,0 +1,132 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const tx = vi.hoisted(() => ({
+  sourceItem: { findMany: vi.fn(), createManyAndReturn: vi.fn() },
+  sourceFeed: { update: vi.fn() },
+  eventLog: { create: vi.fn() },
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: { $transaction: (fn: (client: typeof tx) => unknown) => fn(tx) },
+}));
+
+import {
+  MAX_FEED_BYTES,
+  httpFeedFetcher,
+  pollSourceFeed,
+  type FeedFetcher,
+} from "@/lib/feed-poller";
+
+const feed = {
+  id: "feed-1",
+  projectId: "project-1",
+  name: "Research Digest",
+  feedUrl: "https://research.example.com/feed.xml",
+  platform: "website" as const,
+};
+
+const fixtureFetcher =
+  (name: string, status = 200): FeedFetcher =>
+  async () => ({
+    status,
+    body: readFileSync(path.join(__dirname, "fixtures/feeds", name), "utf8"),
+  });
+
+const poll = (fetcher: FeedFetcher) =>
+  pollSourceFeed({
+    feed,
+    actor: "human",
+    actorId: null,
+    fetcher,
+    now: new Date("2026-10-19T12:00:00Z"),
+  });
+
+describe("pollSourceFeed", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tx.sourceItem.findMany.mockResolvedValue([]);
+    tx.sourceItem.createManyAndReturn.mockImplementation(
+      async ({ data }: { data: { url: string }[] }) =>
+        data.map((row, i) => ({ id: `item-${i}`, url: row.url }))
+    );
+  });
+
+  it("creates canonical-URL items for new entries and skips captured ones", async () => {
+    tx.sourceItem.findMany.mockResolvedValue([
+      { url: "https://research.example.com/posts/guid-only" },
+    ]);
+
+    const result = await poll(fixtureFetcher("rss2.xml"));
+
+    expect(result).toMatchObject({ kind: "polled", format: "rss", entryCount: 3 });
+    if (result.kind !== "polled") return;
+    expect(result.created.map((item) => item.url)).toEqual([
+      "https://research.example.com/posts/attention",
+      "https://research.example.com/posts/relative",
+    ]);
+    expect(result.skipped).toEqual([
+      { url: "https://research.example.com/posts/guid-only", reason: "already_captured" },
+    ]);
+
+    const [{ data }] = tx.sourceItem.createManyAndReturn.mock.calls[0];
+    expect(data[0]).toMatchObject({
+      sourceType: "rss",
+      capturedBy: "system",
+      status: "ingested",
+      sourceFeedId: "feed-1",
+      metadata: { originalUrl: "https://research.example.com/posts/attention?utm_source=rss" },
+    });
+    expect(tx.eventLog.create).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports non-2xx responses and unparseable bodies without writing", async () => {
+    expect(await poll(fixtureFetcher("rss2.xml", 404))).toEqual({
+      kind: "fetch_failed",
+      message: "Feed responded with HTTP 404",
+    });
+    expect(await poll(fixtureFetcher("malformed.xml"))).toEqual({ kind: "parse_failed" });
+    expect(tx.sourceItem.createManyAndReturn).not.toHaveBeenCalled();
+  });
+
+  it("rejects bodies over MAX_FEED_BYTES from injected fetchers", async () => {
+    const result = await poll(async () => ({ status: 200, body: "x".repeat(MAX_FEED_BYTES + 1) }));
+    expect(result).toEqual({ kind: "fetch_failed", message: `Feed exceeds ${MAX_FEED_BYTES} bytes` });
+  });
+});
+
+describe("httpFeedFetcher", () => {
+  const chunk = new Uint8Array(1_000_000);
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("rejects a declared Content-Length over the limit before reading", async () => {
+    const cancel = vi.fn();
+    vi.stubGlobal("fetch", async () =>
+      new Response(new ReadableStream({ cancel }), {
+        headers: { "Content-Length": String(MAX_FEED_BYTES + 1) },
+      })
+    );
+    await expect(httpFeedFetcher(feed.feedUrl)).rejects.toThrow(`Feed exceeds ${MAX_FEED_BYTES} bytes`);
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it("stops reading an undeclared body once it passes the limit", async () => {
+    let pulled = 0;
+    vi.stubGlobal("fetch", async () =>
+      new Response(
+        new ReadableStream({
+          pull(controller) {
+            pulled++;
+            controller.enqueue(chunk);
+          },
+        })
+      )
+    );
+    await expect(httpFeedFetcher(feed.feedUrl)).rejects.toThrow(`Feed exceeds ${MAX_FEED_BYTES} bytes`);
+    expect(pulled).toBeLessThanOrEqual(MAX_FEED_BYTES / chunk.byteLength + 2);
+  });
+});
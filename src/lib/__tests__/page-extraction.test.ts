@@ -0,0 +1,48 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { EXCERPT_LENGTH, extractSnapshot } from "@/lib/page-extraction";
+
+const FIXTURES = path.join(__dirname, "fixtures/pages");
+
+// Each <name>.html is checked against <name>.expected.json (dates as ISO strings)
+const PAGE_FIXTURES = [
+  // og:/twitter: metadata, <article> container, chrome and duplicates dropped
+  "og-article",
+  // <title>, rel=author, <time datetime>; densest <p> container; excerpt from text
+  "title-fallback",
+  // windows-1252 via http-equiv; <h1> title, itemprop author/datePublished, <main>
+  "h1-windows-1252",
+];
+
+describe("extractSnapshot (HTML fixtures)", () => {
+  it.each(PAGE_FIXTURES)("%s", (name) => {
+    const bytes = readFileSync(path.join(FIXTURES, `${name}.html`));
+    const expected = JSON.parse(readFileSync(path.join(FIXTURES, `${name}.expected.json`), "utf8"));
+
+    const extraction = extractSnapshot(bytes, "text/html");
+
+    expect(JSON.parse(JSON.stringify(extraction))).toEqual(expected);
+  });
+
+  it("is deterministic across runs", () => {
+    const bytes = readFileSync(path.join(FIXTURES, "og-article.html"));
+    expect(extractSnapshot(bytes, "text/html")).toEqual(extractSnapshot(bytes, "text/html"));
+  });
+});
+
+describe("extractSnapshot (other types)", () => {
+  it("uses the first non-empty line of plain text as the title", () => {
+    const text = `\r\n  \r\nFirst line\r\n${"word ".repeat(100)}`;
+    const extraction = extractSnapshot(new TextEncoder().encode(text), "text/plain");
+
+    expect(extraction?.title).toBe("First line");
+    expect(extraction?.text.startsWith("First line\n")).toBe(true);
+    expect(extraction?.excerpt?.endsWith("…")).toBe(true);
+    expect(extraction!.excerpt!.length).toBeLessThanOrEqual(EXCERPT_LENGTH + 1);
+  });
+
+  it("extracts nothing from PDFs", () => {
+    expect(extractSnapshot(new Uint8Array([0x25, 0x50, 0x44, 0x46]), "application/pdf")).toBeNull();
+  });
+});
@@ -66,6 +66,10 @@ export function unauthorized(message = "Unauthorized") {
   return errorResponse("UNAUTHORIZED", message, 401);
 }
 
+export function forbidden(message = "Forbidden") {
+  return errorResponse("FORBIDDEN", message, 403);
+}
+
 export function notFound(message = "Not found") {
   return errorResponse("NOT_FOUND", message, 404);
 }
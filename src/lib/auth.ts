@@ -0,0 +1,180 @@
+/**
+ * API Key Authentication — Actor resolution and project grants
+ * Per docs/operations-planning-api/02-AUTH-AND-ACTOR-MODEL.md
+ *
+ * Request flow (every project-scoped route):
+ *   1. authenticateRequest()  — X-Api-Key header → ApiKey row → actor
+ *   2. resolveProjectId()     — which project the request targets
+ *   3. assertProjectGranted() — the key must be granted that project
+ *
+ * Keys are stored as SHA-256 hashes only. A presented key is always verified;
+ * requests without a key are allowed only while API_KEYS_REQUIRED is unset
+ * ("open mode", the Phase 1 behaviour). In open mode auth.actor is null and
+ * routes record their historical default actor.
+ *
+ * X-Api-Key is used instead of Authorization so it never collides with the
+ * PUBLISH_TOKEN bearer guard on POST /api/entities/[id]/publish.
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import type { ActorType, Prisma } from "@prisma/client";
+
+export const API_KEY_HEADER = "x-api-key";
+
+const API_KEY_PREFIX = "pm_";
+const KEY_PREFIX_DISPLAY_LENGTH = 8;
+
+// Avoid a write per request: lastUsedAt is refreshed at most once a minute.
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+export interface RequestAuth {
+  apiKeyId: string | null;
+  actor: ActorType | null;
+  projectIds: string[] | null; // null = unrestricted
+}
+
+const OPEN_AUTH: RequestAuth = { apiKeyId: null, actor: null, projectIds: null };
+
+export function isApiKeyRequired(): boolean {
+  return process.env.API_KEYS_REQUIRED === "true";
+}
+
+/**
+ * SHA-256 hex digest of a plaintext key (Web Crypto, same as validation.ts).
+ */
+export async function hashApiKey(key: string): Promise<string> {
+  const data = new TextEncoder().encode(key);
+  const hashBuffer = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(hashBuffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Generate a new plaintext key: "pm_" + 32 random bytes (base64url).
+ * keyPrefix is stored for display; the full key is never persisted.
+ */
+export function generateApiKey(): { key: string; keyPrefix: string } {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const body = Buffer.from(bytes).toString("base64url");
+  const key = `${API_KEY_PREFIX}${body}`;
+  return {
+    key,
+    keyPrefix: key.slice(0, API_KEY_PREFIX.length + KEY_PREFIX_DISPLAY_LENGTH),
+  };
+}
+
+/**
+ * Authenticate the request from its X-Api-Key header.
+ *
+ * Returns { auth, error? }
+ * If error is set, the caller should return unauthorized(error).
+ */
+export async function authenticateRequest(
+  request: NextRequest
+): Promise<{ auth: RequestAuth; error?: string }> {
+  const presented = request.headers.get(API_KEY_HEADER);
+
+  if (!presented) {
+    if (isApiKeyRequired()) {
+      return { auth: OPEN_AUTH, error: "API key required (X-Api-Key header)" };
+    }
+    return { auth: OPEN_AUTH };
+  }
+
+  const keyHash = await hashApiKey(presented);
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash },
+    select: {
+      id: true,
+      actorType: true,
+      projectIds: true,
+      allProjects: true,
+      revokedAt: true,
+      lastUsedAt: true,
+    },
+  });
+
+  if (!apiKey || apiKey.revokedAt) {
+    return { auth: OPEN_AUTH, error: "Invalid or revoked API key" };
+  }
+
+  const now = new Date();
+  if (
+    !apiKey.lastUsedAt ||
+    now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS
+  ) {
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: now },
+    });
+  }
+
+  return {
+    auth: {
+      apiKeyId: apiKey.id,
+      actor: apiKey.actorType,
+      projectIds: apiKey.allProjects ? null : apiKey.projectIds,
+    },
+  };
+}
+
+/**
+ * Assert that the authenticated key may act on the given project.
+ * Returns an error message for forbidden(), or null when allowed.
+ */
+export function assertProjectGranted(
+  auth: RequestAuth,
+  projectId: string
+): string | null {
+  if (auth.projectIds === null || auth.projectIds.includes(projectId)) {
+    return null;
+  }
+  return "API key is not granted access to this project";
+}
+
+/**
+ * Per the actor model, only humans may perform publish-lifecycle and
+ * other authority-bearing actions. Open mode (no key) is treated as the
+ * single human operator.
+ * Returns an error message for forbidden(), or null when allowed.
+ */
+export function assertHumanActor(
+  auth: RequestAuth,
+  action: string
+): string | null {
+  if (auth.actor === null || auth.actor === "human") {
+    return null;
+  }
+  return `Only human actors may ${action} (API key actor: ${auth.actor})`;
+}
+
+/**
+ * Whether a key's grants fall within the caller's. Unrestricted callers
+ * (all-projects keys, open mode) cover every key; a restricted caller only
+ * covers keys limited to projects it is itself granted. Key management
+ * uses this so a key cannot mint, see or revoke wider access than it has.
+ */
+export function isWithinGrants(
+  auth: RequestAuth,
+  key: { allProjects: boolean; projectIds: string[] }
+): boolean {
+  const granted = auth.projectIds;
+  if (granted === null) return true;
+  if (key.allProjects) return false;
+  return key.projectIds.every((id) => granted.includes(id));
+}
+
+/**
+ * Projects a key-management event is logged on: EventLog is project-scoped,
+ * so a key's create/revoke is recorded on every project it is granted
+ * (every project for all-projects keys).
+ */
+export async function apiKeyEventProjectIds(
+  tx: Prisma.TransactionClient,
+  key: { allProjects: boolean; projectIds: string[] }
+): Promise<string[]> {
+  if (!key.allProjects) return key.projectIds;
+  const projects = await tx.project.findMany({ select: { id: true } });
+  return projects.map((project) => project.id);
+}
@@ -0,0 +1,78 @@
+/**
+ * Blob Store — pluggable storage for heavy content (source snapshots)
+ *
+ * Per docs/01-DB-AS-SPINE.md the DB keeps pointers and hashes; bytes live
+ * in object storage. Keys are opaque, slash-separated strings chosen by the
+ * caller (e.g. snapshots/{projectId}/{sha256}); the key is what gets stored
+ * in SourceItem.snapshotRef.
+ *
+ * Drivers (BLOB_STORE_DRIVER):
+ * - local (default) — files under BLOB_STORE_DIR (default .data/blobs)
+ *
+ * Other drivers (S3, R2, ...) implement BlobStore and register in
+ * createBlobStore(); nothing else needs to change.
+ */
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export interface BlobStore {
+  readonly driver: string;
+  put(key: string, bytes: Uint8Array): Promise<void>;
+  /** null when the key does not exist */
+  get(key: string): Promise<Buffer | null>;
+}
+
+const KEY_RE = /^[A-Za-z0-9._-]+(\/[A-Za-z0-9._-]+)*$/;
+
+function assertValidKey(key: string): void {
+  if (!KEY_RE.test(key) || key.split("/").some((part) => part === "." || part === "..")) {
+    throw new Error(`Invalid blob key: ${key}`);
+  }
+}
+
+export function createLocalBlobStore(rootDir: string): BlobStore {
+  const root = path.resolve(rootDir);
+  const fileFor = (key: string) => {
+    assertValidKey(key);
+    return path.join(root, ...key.split("/"));
+  };
+
+  return {
+    driver: "local",
+
+    async put(key, bytes) {
+      const file = fileFor(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      // Write-then-rename so readers never see a partial file
+      const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+      await writeFile(tmp, bytes);
+      await rename(tmp, file);
+    },
+
+    async get(key) {
+      try {
+        return await readFile(fileFor(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+  };
+}
+
+export function createBlobStore(): BlobStore {
+  const driver = process.env.BLOB_STORE_DRIVER || "local";
+  switch (driver) {
+    case "local":
+      return createLocalBlobStore(process.env.BLOB_STORE_DIR || ".data/blobs");
+    default:
+      throw new Error(`Unknown BLOB_STORE_DRIVER: ${driver}`);
+  }
+}
+
+let store: BlobStore | null = null;
+
+export function getBlobStore(): BlobStore {
+  if (!store) store = createBlobStore();
+  return store;
+}
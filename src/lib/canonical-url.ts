@@ -0,0 +1,160 @@
+/**
+ * Canonical URLs — one spelling per captured source
+ *
+ * SourceItem.url is globally unique, so capture and the feed poller store
+ * canonicalizeUrl(url) and compare on that; the URL as submitted is kept in
+ * SourceItem.metadata.originalUrl.
+ *
+ * Every URL:
+ * - fragment removed; host lowercased; default port dropped (WHATWG URL)
+ * - m. / mobile. subdomain dropped
+ * - tracking parameters dropped (utm_*, fbclid, gclid, ...); the rest sorted
+ * - trailing slash removed from non-root paths
+ *
+ * Platform rules then rewrite host and path and keep only meaningful query
+ * parameters:
+ * - x:          twitter.com → x.com; /{user}/status/{id} with no query
+ * - youtube:    youtu.be/{id}, /shorts/{id}, /embed/{id} → www.youtube.com/watch?v={id};
+ *               only v (watch) / list (playlist) kept, so share-tracking si goes too
+ * - reddit:     old./new./np. → www.reddit.com; redd.it/{id} → /comments/{id}; no query
+ * - hackernews: news.ycombinator.com/item?id={id}
+ * - github:     www.github.com → github.com; owner/repo lowercased, .git dropped
+ * - spotify:    share-tracking si dropped (elsewhere si can be meaningful)
+ *
+ * Strings that do not parse as http(s) URLs are returned trimmed but
+ * otherwise unchanged.
+ */
+
+const TRACKING_PARAMS = new Set([
+  "fbclid", "gclid", "dclid", "gbraid", "wbraid", "msclkid", "yclid", "twclid",
+  "igshid", "mc_cid", "mc_eid", "_ga", "_gl", "ref_src", "ref_url",
+]);
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower.startsWith("utm_") || TRACKING_PARAMS.has(lower);
+}
+
+function hostIs(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+function keepOnly(url: URL, names: string[]): void {
+  for (const key of [...url.searchParams.keys()]) {
+    if (!names.includes(key)) url.searchParams.delete(key);
+  }
+}
+
+function pathSegments(url: URL): string[] {
+  return url.pathname.split("/").filter((s) => s.length > 0);
+}
+
+type PlatformRule = (url: URL) => void;
+
+const RULES: { domains: string[]; apply: PlatformRule }[] = [
+  {
+    // x / twitter
+    domains: ["x.com", "twitter.com"],
+    apply(url) {
+      url.hostname = "x.com";
+      const [user, kind, id] = pathSegments(url);
+      url.pathname =
+        user && (kind === "status" || kind === "statuses") && id
+          ? `/${user.toLowerCase()}/status/${id}`
+          : url.pathname.toLowerCase();
+      url.search = "";
+    },
+  },
+  {
+    domains: ["youtube.com", "youtu.be", "youtube-nocookie.com"],
+    apply(url) {
+      const segments = pathSegments(url);
+      let videoId: string | null = null;
+      if (url.hostname === "youtu.be") {
+        videoId = segments[0] ?? null;
+      } else if (["shorts", "embed", "live", "v"].includes(segments[0] ?? "") && segments[1]) {
+        videoId = segments[1];
+      }
+
+      url.hostname = "www.youtube.com";
+      if (videoId) {
+        url.pathname = "/watch";
+        url.search = "";
+        url.searchParams.set("v", videoId);
+      } else if (url.pathname === "/watch") {
+        keepOnly(url, ["v"]);
+      } else if (url.pathname === "/playlist") {
+        keepOnly(url, ["list"]);
+      } else {
+        url.search = "";
+      }
+    },
+  },
+  {
+    domains: ["reddit.com", "redd.it"],
+    apply(url) {
+      const segments = pathSegments(url);
+      if (url.hostname === "redd.it" && segments[0]) {
+        url.pathname = `/comments/${segments[0]}`;
+      } else {
+        // /r/{sub}/comments/{id}/{slug} — the slug is cosmetic
+        const c = segments.indexOf("comments");
+        const kept = c >= 0 && segments[c + 1] ? segments.slice(0, c + 2) : segments;
+        if (kept[0] === "r" && kept[1]) kept[1] = kept[1].toLowerCase();
+        url.pathname = `/${kept.join("/")}`;
+      }
+      url.hostname = "www.reddit.com";
+      url.search = "";
+    },
+  },
+  {
+    domains: ["news.ycombinator.com"],
+    apply(url) {
+      keepOnly(url, ["id", "p"]);
+    },
+  },
+  {
+    domains: ["github.com"],
+    apply(url) {
+      url.hostname = "github.com";
+      const segments = pathSegments(url);
+      if (segments.length >= 2) {
+        segments[0] = segments[0].toLowerCase();
+        segments[1] = segments[1].toLowerCase().replace(/\.git$/, "");
+        url.pathname = `/${segments.join("/")}`;
+      }
+    },
+  },
+  {
+    domains: ["open.spotify.com"],
+    apply(url) {
+      url.searchParams.delete("si");
+    },
+  },
+];
+
+export function canonicalizeUrl(raw: string): string {
+  const trimmed = raw.trim();
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    return trimmed;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return trimmed;
+
+  url.hash = "";
+  url.hostname = url.hostname.replace(/^(www\.)?(m|mobile)\./, "$1").replace(/\.$/, "");
+
+  for (const key of [...url.searchParams.keys()]) {
+    if (isTrackingParam(key)) url.searchParams.delete(key);
+  }
+
+  const rule = RULES.find((r) => r.domains.some((d) => hostIs(url.hostname, d)));
+  rule?.apply(url);
+
+  url.searchParams.sort();
+  if (url.pathname.length > 1) url.pathname = url.pathname.replace(/\/+$/, "");
+
+  return url.toString();
+}
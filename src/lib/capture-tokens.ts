@@ -0,0 +1,165 @@
+/**
+ * Capture Tokens — Bookmarklet and share-target authentication
+ * Per docs/operations-planning-api/02-AUTH-AND-ACTOR-MODEL.md (Extension Authentication)
+ *
+ * A capture token is minted from the dashboard (POST /api/capture-tokens),
+ * bound to one project, and accepted only by POST /api/source-items/browser-capture
+ * in the X-Capture-Token header. It never authenticates any other route.
+ *
+ * Tokens expire (default 24h, at most 30 days), are limited to a number of
+ * captures (default 50; maxUses: 1 = one-time), and can be revoked. Like API keys
+ * they are stored as SHA-256 hashes with a short display prefix; the
+ * plaintext is returned once, at mint time.
+ */
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { hashApiKey } from "@/lib/auth";
+import type { Prisma } from "@prisma/client";
+
+export const CAPTURE_TOKEN_HEADER = "x-capture-token";
+
+export const DEFAULT_CAPTURE_TOKEN_TTL_HOURS = 24;
+export const MAX_CAPTURE_TOKEN_TTL_HOURS = 24 * 30;
+export const DEFAULT_CAPTURE_TOKEN_MAX_USES = 50;
+export const MAX_CAPTURE_TOKEN_MAX_USES = 1000;
+
+// Selected text is carried in the bookmarklet's URL; keep it well under URL limits
+export const BOOKMARKLET_MAX_SELECTION_LENGTH = 4000;
+
+const CAPTURE_TOKEN_PREFIX = "pc_";
+const TOKEN_PREFIX_DISPLAY_LENGTH = 8;
+
+export type CaptureTokenStatus = "active" | "expired" | "used" | "revoked";
+
+export interface CaptureTokenGrant {
+  id: string;
+  projectId: string;
+  createdByApiKeyId: string | null;
+  maxUses: number | null;
+}
+
+/**
+ * Generate a new plaintext token: "pc_" + 32 random bytes (base64url).
+ */
+export function generateCaptureToken(): { token: string; tokenPrefix: string } {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const token = `${CAPTURE_TOKEN_PREFIX}${Buffer.from(bytes).toString("base64url")}`;
+  return {
+    token,
+    tokenPrefix: token.slice(0, CAPTURE_TOKEN_PREFIX.length + TOKEN_PREFIX_DISPLAY_LENGTH),
+  };
+}
+
+export function captureTokenStatus(
+  token: {
+    expiresAt: Date;
+    maxUses: number | null;
+    useCount: number;
+    revokedAt: Date | null;
+  },
+  now: Date = new Date()
+): CaptureTokenStatus {
+  if (token.revokedAt) return "revoked";
+  if (token.maxUses !== null && token.useCount >= token.maxUses) return "used";
+  if (token.expiresAt.getTime() <= now.getTime()) return "expired";
+  return "active";
+}
+
+/**
+ * Authenticate the request from its X-Capture-Token header.
+ * Checks the token without consuming a use; call consumeCaptureToken()
+ * inside the capture transaction.
+ *
+ * Returns { grant, error? }
+ * If error is set, the caller should return unauthorized(error).
+ */
+export async function authenticateCaptureToken(
+  request: NextRequest
+): Promise<{ grant: CaptureTokenGrant | null; error?: string }> {
+  const presented = request.headers.get(CAPTURE_TOKEN_HEADER);
+  if (!presented) {
+    return { grant: null, error: "Capture token required (X-Capture-Token header)" };
+  }
+
+  const token = await prisma.captureToken.findUnique({
+    where: { tokenHash: await hashApiKey(presented) },
+    select: {
+      id: true,
+      projectId: true,
+      createdByApiKeyId: true,
+      expiresAt: true,
+      maxUses: true,
+      useCount: true,
+      revokedAt: true,
+    },
+  });
+
+  if (!token) {
+    return { grant: null, error: "Invalid capture token" };
+  }
+
+  const status = captureTokenStatus(token);
+  if (status !== "active") {
+    return { grant: null, error: `Capture token is ${status}` };
+  }
+
+  return {
+    grant: {
+      id: token.id,
+      projectId: token.projectId,
+      createdByApiKeyId: token.createdByApiKeyId,
+      maxUses: token.maxUses,
+    },
+  };
+}
+
+/**
+ * Record one use of the token. The conditional update makes concurrent
+ * captures with a one-time token race safely: only one of them succeeds.
+ * Returns false when the token was used up, revoked or expired in between.
+ */
+export async function consumeCaptureToken(
+  tx: Prisma.TransactionClient,
+  grant: CaptureTokenGrant
+): Promise<boolean> {
+  const now = new Date();
+  const { count } = await tx.captureToken.updateMany({
+    where: {
+      id: grant.id,
+      revokedAt: null,
+      expiresAt: { gt: now },
+      ...(grant.maxUses !== null ? { useCount: { lt: grant.maxUses } } : {}),
+    },
+    data: { useCount: { increment: 1 }, lastUsedAt: now },
+  });
+  return count === 1;
+}
+
+/**
+ * The capture page URL for a token. The token travels in the fragment so
+ * it is never sent to the server or written to access logs; the page
+ * keeps it in localStorage for later share-target captures.
+ */
+export function captureActivationUrl(origin: string, token: string): string {
+  return `${origin}/capture#token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * A javascript: bookmarklet that opens the capture page in a popup with
+ * the current page's URL, title and selected text.
+ */
+export function buildBookmarklet(origin: string, token: string): string {
+  const code = [
+    "(function(){",
+    "var s=String(window.getSelection?window.getSelection():'')",
+    `.slice(0,${BOOKMARKLET_MAX_SELECTION_LENGTH});`,
+    `var u=${JSON.stringify(`${origin}/capture?via=bookmarklet`)}`,
+    "+'&url='+encodeURIComponent(location.href)",
+    "+'&title='+encodeURIComponent(document.title)",
+    "+'&text='+encodeURIComponent(s)",
+    `+${JSON.stringify(`#token=${encodeURIComponent(token)}`)};`,
+    "window.open(u,'psymetric-capture','width=520,height=680');",
+    "})();",
+  ].join("");
+  return `javascript:${encodeURIComponent(code)}`;
+}
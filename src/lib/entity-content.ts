@@ -0,0 +1,25 @@
+/**
+ * Entity Content — hosted Markdown/MDX bodies
+ *
+ * Bodies are stored as append-only EntityContentVersion rows owned by the
+ * entity's project. The highest version is the current body.
+ *
+ * Change detection is hash-based: contentHash is SHA-256 over the exact
+ * body string. Writing a body whose hash (and format) equals the current
+ * version is a no-op, and clients may pass the hash they edited from
+ * (baseHash) to detect concurrent writes.
+ */
+import { prisma } from "@/lib/prisma";
+import type { Prisma } from "@prisma/client";
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+// 1 MB of text is far beyond any article; guards the request body size.
+export const MAX_CONTENT_BODY_LENGTH = 1_000_000;
+
+export async function getCurrentContent(entityId: string, db: Db = prisma) {
+  return db.entityContentVersion.findFirst({
+    where: { entityId },
+    orderBy: { version: "desc" },
+  });
+}
@@ -0,0 +1,148 @@
+/**
+ * Entity Revisions — append-only history of editable entity fields
+ *
+ * Every content edit (create, PATCH, restore) appends an EntityRevision whose
+ * snapshot holds all REVISION_FIELDS *after* the change. Revisions are never
+ * updated or deleted; a restore copies an old snapshot forward as a new
+ * revision.
+ *
+ * Entities created before revision tracking have no history. Their first
+ * recorded change also writes a baseline revision 1 holding the pre-change
+ * values (actor: system, no changedFields).
+ *
+ * Lifecycle fields (status, publishedAt, ...) are not revisioned; their
+ * history is the EventLog.
+ */
+import type { ActorType, Entity, Prisma } from "@prisma/client";
+
+export const REVISION_FIELDS = [
+  "title",
+  "summary",
+  "difficulty",
+  "repoUrl",
+  "canonicalUrl",
+  "contentRef",
+] as const;
+
+export type RevisionField = (typeof REVISION_FIELDS)[number];
+
+export type RevisionSnapshot = Record<RevisionField, string | null>;
+
+export interface RevisionFieldChange {
+  field: RevisionField;
+  from: string | null;
+  to: string | null;
+}
+
+export function snapshotEntity(
+  entity: Pick<Entity, RevisionField>
+): RevisionSnapshot {
+  return {
+    title: entity.title,
+    summary: entity.summary,
+    difficulty: entity.difficulty,
+    repoUrl: entity.repoUrl,
+    canonicalUrl: entity.canonicalUrl,
+    contentRef: entity.contentRef,
+  };
+}
+
+/**
+ * Read a stored snapshot; fields missing from older rows read as null.
+ */
+export function parseSnapshot(raw: Prisma.JsonValue): RevisionSnapshot {
+  const obj =
+    raw && typeof raw === "object" && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>)
+      : {};
+  const snapshot = {} as RevisionSnapshot;
+  for (const field of REVISION_FIELDS) {
+    const value = obj[field];
+    snapshot[field] = typeof value === "string" ? value : null;
+  }
+  return snapshot;
+}
+
+/**
+ * Field-level changes from a to b, in REVISION_FIELDS order.
+ * a = null diffs against an empty snapshot (every set field is a change).
+ */
+export function diffSnapshots(
+  a: RevisionSnapshot | null,
+  b: RevisionSnapshot
+): RevisionFieldChange[] {
+  const changes: RevisionFieldChange[] = [];
+  for (const field of REVISION_FIELDS) {
+    const from = a ? a[field] : null;
+    const to = b[field];
+    if (from !== to) {
+      changes.push({ field, from, to });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Append a revision inside the caller's transaction.
+ *
+ * before: the entity's values prior to the change (null on create).
+ * Returns the new revision number, or null when nothing changed.
+ *
+ * The number is the latest + 1; two concurrent appends on one entity can
+ * pick the same number, and the loser fails on the unique
+ * (entityId, revisionNumber) with P2002. Callers map that to 409.
+ */
+export async function recordEntityRevision(
+  tx: Prisma.TransactionClient,
+  params: {
+    entityId: string;
+    projectId: string;
+    before: RevisionSnapshot | null;
+    after: RevisionSnapshot;
+    actor: ActorType;
+    actorId?: string | null;
+    restoredFromRevision?: number;
+  }
+): Promise<number | null> {
+  const changes = diffSnapshots(params.before, params.after);
+  if (changes.length === 0) {
+    return null;
+  }
+
+  const latest = await tx.entityRevision.findFirst({
+    where: { entityId: params.entityId },
+    orderBy: { revisionNumber: "desc" },
+    select: { revisionNumber: true },
+  });
+
+  let revisionNumber = latest ? latest.revisionNumber + 1 : 1;
+
+  if (!latest && params.before) {
+    await tx.entityRevision.create({
+      data: {
+        projectId: params.projectId,
+        entityId: params.entityId,
+        revisionNumber: 1,
+        snapshot: params.before as Prisma.InputJsonObject,
+        changedFields: [],
+        actor: "system",
+      },
+    });
+    revisionNumber = 2;
+  }
+
+  await tx.entityRevision.create({
+    data: {
+      projectId: params.projectId,
+      entityId: params.entityId,
+      revisionNumber,
+      snapshot: params.after as Prisma.InputJsonObject,
+      changedFields: changes.map((c) => c.field),
+      actor: params.actor,
+      actorId: params.actorId ?? null,
+      restoredFromRevision: params.restoredFromRevision ?? null,
+    },
+  });
+
+  return revisionNumber;
+}
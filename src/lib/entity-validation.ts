@@ -4,6 +4,8 @@
  */
 import { prisma } from "./prisma";
 import { isValidUrl } from "./validation";
+import { getCurrentContent } from "./entity-content";
+import { extractEntityLinks, isLinkResolved, resolveEntityLinks } from "./markdown";
 
 export interface ValidationError {
   code: string;
@@ -83,16 +85,44 @@ export async function validateEntityForPublish(args: {
   }
 
   // --- Content validation ---
-  if ((entity.entityType === "guide" || entity.entityType === "news") && !entity.contentRef) {
+  // The hosted body (lib/entity-content.ts) must exist and be non-empty;
+  // a contentRef pointer alone is not content.
+  const content = await getCurrentContent(entity.id);
+  const hasBody = !!content && content.body.trim().length > 0;
+
+  if (
+    (entity.entityType === "guide" || entity.entityType === "news") &&
+    !hasBody
+  ) {
     errors.push({
-      code: "CONTENT_REF_MISSING",
+      code: "CONTENT_BODY_MISSING",
       category: "content",
       level: "BLOCKING",
-      message: `${entity.entityType} must have content reference`,
+      message: `${entity.entityType} must have a non-empty content body`,
     });
     categories.content = "fail";
   }
 
+  // Internal entity: links must point at published entities of this project;
+  // otherwise the public page would render them as plain text.
+  if (content && hasBody) {
+    const links = extractEntityLinks(content.body);
+    const targets = await resolveEntityLinks(projectId, links);
+    for (const link of links) {
+      if (isLinkResolved(link, targets)) continue;
+      errors.push({
+        code: "CONTENT_LINK_UNRESOLVED",
+        category: "content",
+        level: "BLOCKING",
+        message:
+          link.entityType === null
+            ? `Malformed internal link "${link.url}" (expected entity:<type>/<slug>)`
+            : `Internal link "${link.url}" does not point to a published ${link.entityType}`,
+      });
+      categories.content = "fail";
+    }
+  }
+
   // --- Relationships validation ---
   if (entity.entityType === "guide") {
     const guideRelations = await prisma.entityRelation.findFirst({
@@ -13,6 +13,7 @@ export async function logEvent(params: {
   entityType: EntityType;
   entityId: string;
   actor: ActorType;
+  actorId?: string | null;
   projectId: string;
   details?: Record<string, unknown>;
 }) {
@@ -22,6 +23,7 @@ export async function logEvent(params: {
       entityType: params.entityType,
       entityId: params.entityId,
       actor: params.actor,
+      actorId: params.actorId ?? null,
       projectId: params.projectId,
       details: (params.details ?? {}) as Prisma.InputJsonValue,
     },
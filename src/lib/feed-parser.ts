@@ -0,0 +1,175 @@
+/**
+ * Feed Parser — RSS 2.0, RSS 1.0 (RDF) and Atom 1.0
+ *
+ * Pure function of the XML text and the feed URL (used to resolve relative
+ * links). Entries without an absolute http(s) link are dropped and counted.
+ *
+ * Entry link:
+ * - RSS:  <link>, else a permalink <guid>
+ * - RDF:  <link>, else the item's rdf:about
+ * - Atom: <link rel="alternate"> (or no rel), else an http(s) <id>
+ */
+import { XMLParser, XMLValidator } from "fast-xml-parser";
+
+export type FeedFormat = "rss" | "atom";
+
+export interface ParsedFeedEntry {
+  url: string;
+  title: string | null;
+  guid: string | null;
+  publishedAt: Date | null;
+}
+
+export interface ParsedFeed {
+  format: FeedFormat;
+  title: string | null;
+  entries: ParsedFeedEntry[];
+  invalidEntryCount: number;
+}
+
+type XmlNode = Record<string, unknown>;
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  textNodeName: "#text",
+  parseTagValue: false,
+  trimValues: true,
+  isArray: (name) => ["item", "entry", "link"].includes(name),
+});
+
+function asNode(value: unknown): XmlNode | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as XmlNode) : null;
+}
+
+function textOf(value: unknown): string | null {
+  if (Array.isArray(value)) return textOf(value[0]);
+  if (typeof value === "string" || typeof value === "number") {
+    const text = String(value).trim();
+    return text.length > 0 ? text : null;
+  }
+  const node = asNode(value);
+  return node ? textOf(node["#text"]) : null;
+}
+
+function dateOf(value: unknown): Date | null {
+  const text = textOf(value);
+  if (!text) return null;
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function absoluteHttpUrl(href: string | null, base: string): string | null {
+  if (!href) return null;
+  try {
+    const url = new URL(href, base);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function rssEntryUrl(item: XmlNode, base: string): string | null {
+  const link = absoluteHttpUrl(textOf(item.link), base);
+  if (link) return link;
+  const guid = asNode(item.guid);
+  if (guid && guid["@_isPermaLink"] === "false") return null;
+  return absoluteHttpUrl(textOf(item.guid), base);
+}
+
+function atomEntryUrl(entry: XmlNode, base: string): string | null {
+  const links = (Array.isArray(entry.link) ? entry.link : []).map(asNode).filter(
+    (l): l is XmlNode => l !== null
+  );
+  const alternate =
+    links.find((l) => l["@_rel"] === "alternate") ?? links.find((l) => l["@_rel"] === undefined);
+  const href = alternate && typeof alternate["@_href"] === "string" ? alternate["@_href"] : null;
+  return absoluteHttpUrl(href, base) ?? absoluteHttpUrl(textOf(entry.id), base);
+}
+
+function listOf(value: unknown): XmlNode[] {
+  return (Array.isArray(value) ? value : []).map(asNode).filter((n): n is XmlNode => n !== null);
+}
+
+/**
+ * Parse an RSS 2.0, RSS 1.0 or Atom 1.0 document. Returns null when the text
+ * is not well-formed XML or has none of an <rss><channel>, <rdf:RDF> or
+ * <feed> root. RSS 1.0 reports format "rss".
+ */
+export function parseFeed(xml: string, feedUrl: string): ParsedFeed | null {
+  if (XMLValidator.validate(xml) !== true) return null;
+
+  let doc: XmlNode;
+  try {
+    doc = parser.parse(xml) as XmlNode;
+  } catch {
+    return null;
+  }
+
+  const channel = asNode(asNode(doc.rss)?.channel);
+  if (channel) {
+    const items = listOf(channel.item);
+    const entries = items.flatMap((item) => {
+      const url = rssEntryUrl(item, feedUrl);
+      if (!url) return [];
+      return [{
+        url,
+        title: textOf(item.title),
+        guid: textOf(item.guid),
+        publishedAt: dateOf(item.pubDate) ?? dateOf(item["dc:date"]),
+      }];
+    });
+    return {
+      format: "rss",
+      title: textOf(channel.title),
+      entries,
+      invalidEntryCount: items.length - entries.length,
+    };
+  }
+
+  // RSS 1.0: items are siblings of <channel>, not children
+  const rdf = asNode(doc["rdf:RDF"]);
+  if (rdf) {
+    const items = listOf(rdf.item);
+    const entries = items.flatMap((item) => {
+      const about = typeof item["@_rdf:about"] === "string" ? item["@_rdf:about"] : null;
+      const url = absoluteHttpUrl(textOf(item.link), feedUrl) ?? absoluteHttpUrl(about, feedUrl);
+      if (!url) return [];
+      return [{
+        url,
+        title: textOf(item.title),
+        guid: about,
+        publishedAt: dateOf(item["dc:date"]),
+      }];
+    });
+    return {
+      format: "rss",
+      title: textOf(asNode(rdf.channel)?.title),
+      entries,
+      invalidEntryCount: items.length - entries.length,
+    };
+  }
+
+  const feed = asNode(doc.feed);
+  if (feed) {
+    const items = listOf(feed.entry);
+    const entries = items.flatMap((entry) => {
+      const url = atomEntryUrl(entry, feedUrl);
+      if (!url) return [];
+      return [{
+        url,
+        title: textOf(entry.title),
+        guid: textOf(entry.id),
+        publishedAt: dateOf(entry.published) ?? dateOf(entry.updated),
+      }];
+    });
+    return {
+      format: "atom",
+      title: textOf(feed.title),
+      entries,
+      invalidEntryCount: items.length - entries.length,
+    };
+  }
+
+  return null;
+}
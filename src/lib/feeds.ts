@@ -0,0 +1,201 @@
+/**
+ * Syndication Feeds — RSS 2.0 and Atom 1.0 from published entities
+ *
+ * Feeds carry the latest FEED_ITEM_LIMIT published entities, newest first.
+ * News is the default; ?type= selects other content types (comma-separated,
+ * e.g. ?type=news,guide) and ?project= narrows to one project by slug.
+ * Item links follow the same canonicalUrl rule as the sitemap.
+ */
+import type { ContentEntityType } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { PUBLIC_PATH_PREFIX, absolutePublicUrlFor } from "@/lib/public-url";
+import { XML_DECLARATION, escapeXml } from "@/lib/xml";
+
+export const FEED_ITEM_LIMIT = 50;
+
+export const FEED_ENTITY_TYPES: readonly ContentEntityType[] = ["news", "guide", "concept", "project"];
+
+const FEED_TYPE_LABELS: Record<ContentEntityType, string> = {
+  news: "News",
+  guide: "Guides",
+  concept: "Concepts",
+  project: "Projects",
+};
+
+const SITE_NAME = "PsyMetric";
+
+export interface FeedItem {
+  id: string;
+  title: string;
+  summary: string | null;
+  url: string;
+  publishedAt: Date;
+  updatedAt: Date;
+}
+
+export interface Feed {
+  title: string;
+  siteUrl: string;
+  selfUrl: string;
+  items: FeedItem[];
+}
+
+/**
+ * Parse ?type=. Missing or empty means news only.
+ */
+export function parseFeedTypes(
+  param: string | null
+): { types: ContentEntityType[]; error?: string } {
+  if (!param || param.trim() === "") return { types: ["news"] };
+
+  const types: ContentEntityType[] = [];
+  for (const raw of param.split(",")) {
+    const value = raw.trim();
+    if (!FEED_ENTITY_TYPES.includes(value as ContentEntityType)) {
+      return { types: [], error: `type must be one of: ${FEED_ENTITY_TYPES.join(", ")}` };
+    }
+    if (!types.includes(value as ContentEntityType)) types.push(value as ContentEntityType);
+  }
+  return { types };
+}
+
+export function feedTitle(types: ContentEntityType[], projectName?: string): string {
+  const label = FEED_ENTITY_TYPES.filter((t) => types.includes(t))
+    .map((t) => FEED_TYPE_LABELS[t])
+    .join(", ");
+  return `${projectName ?? SITE_NAME} — ${label}`;
+}
+
+export async function getFeedItems(args: {
+  types: ContentEntityType[];
+  projectId?: string;
+  origin: string;
+}): Promise<FeedItem[]> {
+  const entities = await prisma.entity.findMany({
+    where: {
+      entityType: { in: args.types },
+      status: "published",
+      publishedAt: { not: null },
+      ...(args.projectId ? { projectId: args.projectId } : { project: { archivedAt: null } }),
+    },
+    orderBy: [{ publishedAt: "desc" }, { id: "desc" }],
+    take: FEED_ITEM_LIMIT,
+    select: {
+      id: true,
+      entityType: true,
+      title: true,
+      slug: true,
+      summary: true,
+      canonicalUrl: true,
+      publishedAt: true,
+      updatedAt: true,
+    },
+  });
+
+  return entities.map((e) => ({
+    id: e.id,
+    title: e.title,
+    summary: e.summary,
+    url: absolutePublicUrlFor(e, args.origin),
+    publishedAt: e.publishedAt!,
+    updatedAt: e.updatedAt,
+  }));
+}
+
+function latestUpdate(items: FeedItem[]): Date {
+  return items.reduce(
+    (latest, item) => (item.updatedAt > latest ? item.updatedAt : latest),
+    new Date(0)
+  );
+}
+
+export function buildRssFeed(feed: Feed): string {
+  const lines = [
+    XML_DECLARATION,
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    "<channel>",
+    `<title>${escapeXml(feed.title)}</title>`,
+    `<link>${escapeXml(feed.siteUrl)}</link>`,
+    `<description>${escapeXml(feed.title)}</description>`,
+    `<atom:link href="${escapeXml(feed.selfUrl)}" rel="self" type="application/rss+xml"/>`,
+  ];
+  if (feed.items.length > 0) {
+    lines.push(`<lastBuildDate>${latestUpdate(feed.items).toUTCString()}</lastBuildDate>`);
+  }
+  for (const item of feed.items) {
+    lines.push(
+      "<item>",
+      `<title>${escapeXml(item.title)}</title>`,
+      `<link>${escapeXml(item.url)}</link>`,
+      `<guid isPermaLink="false">urn:uuid:${item.id}</guid>`,
+      `<pubDate>${item.publishedAt.toUTCString()}</pubDate>`,
+      ...(item.summary ? [`<description>${escapeXml(item.summary)}</description>`] : []),
+      "</item>"
+    );
+  }
+  lines.push("</channel>", "</rss>");
+  return lines.join("\n");
+}
+
+export function buildAtomFeed(feed: Feed): string {
+  const lines = [
+    XML_DECLARATION,
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `<id>${escapeXml(feed.selfUrl)}</id>`,
+    `<title>${escapeXml(feed.title)}</title>`,
+    `<updated>${latestUpdate(feed.items).toISOString()}</updated>`,
+    `<link href="${escapeXml(feed.siteUrl)}"/>`,
+    `<link href="${escapeXml(feed.selfUrl)}" rel="self" type="application/atom+xml"/>`,
+    `<author><name>${SITE_NAME}</name></author>`,
+  ];
+  for (const item of feed.items) {
+    lines.push(
+      "<entry>",
+      `<id>urn:uuid:${item.id}</id>`,
+      `<title>${escapeXml(item.title)}</title>`,
+      `<link href="${escapeXml(item.url)}"/>`,
+      `<published>${item.publishedAt.toISOString()}</published>`,
+      `<updated>${item.updatedAt.toISOString()}</updated>`,
+      ...(item.summary ? [`<summary>${escapeXml(item.summary)}</summary>`] : []),
+      "</entry>"
+    );
+  }
+  lines.push("</feed>");
+  return lines.join("\n");
+}
+
+/**
+ * Resolve ?type= and ?project= from a feed request URL and load the feed.
+ * Returns an error for an invalid type, and notFound for an unknown or
+ * archived project.
+ */
+export async function loadFeed(
+  url: URL,
+  origin: string
+): Promise<{ feed?: Feed; error?: string; notFound?: boolean }> {
+  const { types, error } = parseFeedTypes(url.searchParams.get("type"));
+  if (error) return { error };
+
+  const projectSlug = url.searchParams.get("project");
+  let project: { id: string; name: string } | undefined;
+  if (projectSlug) {
+    const found = await prisma.project.findUnique({
+      where: { slug: projectSlug },
+      select: { id: true, name: true, archivedAt: true },
+    });
+    if (!found || found.archivedAt) return { notFound: true };
+    project = found;
+  }
+
+  const items = await getFeedItems({ types, projectId: project?.id, origin });
+  const sitePath = types.length === 1 ? PUBLIC_PATH_PREFIX[types[0]] : "";
+
+  return {
+    feed: {
+      title: feedTitle(types, project?.name),
+      siteUrl: `${origin}${sitePath}`,
+      selfUrl: `${origin}${url.pathname}${url.search}`,
+      items,
+    },
+  };
+}
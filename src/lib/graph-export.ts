@@ -0,0 +1,380 @@
+/**
+ * Graph Export — the project's relationship graph as GraphML, DOT or JGF
+ *
+ * Used by GET /api/graph/export. The export is every project-scoped
+ * EntityRelation as an edge, plus the nodes those relations touch (content
+ * entities, source items, distribution events, videos). Node display
+ * fields come from loadGraphNodeDetails (lib/graph-query.ts); an endpoint
+ * whose row no longer exists is still written, marked missing.
+ *
+ * Output is produced in chunks so large projects are never held in memory:
+ * relations are read in id-ordered pages, twice — first pass writes the
+ * nodes, second pass the edges (JGF needs all nodes before any edge). Only
+ * the set of written node ids is kept between pages.
+ *
+ * Filters:
+ * - entityTypes: both endpoints must be one of these types
+ * - relationTypes: relation type in the list
+ * - statuses: both endpoints must have one of these statuses (missing
+ *   nodes have none, so they and their edges drop out)
+ * An edge is written only when both of its nodes were.
+ */
+import { prisma } from "@/lib/prisma";
+import { RelationType } from "@prisma/client";
+import type { EntityRelation, EntityType, Prisma } from "@prisma/client";
+import { XML_DECLARATION, escapeXml } from "@/lib/xml";
+import { VALID_ENTITY_STATUSES, VALID_SOURCE_ITEM_STATUSES } from "@/lib/validation";
+import { loadGraphNodeDetails, type GraphNodeDetails } from "@/lib/graph-query";
+
+export const GRAPH_EXPORT_FORMATS = ["graphml", "dot", "jgf"] as const;
+export type GraphExportFormat = (typeof GRAPH_EXPORT_FORMATS)[number];
+
+// EntityTypes an EntityRelation endpoint can have
+export const GRAPH_NODE_TYPES: EntityType[] = [
+  "guide",
+  "concept",
+  "project",
+  "news",
+  "sourceItem",
+  "distributionEvent",
+  "video",
+];
+
+const GRAPH_NODE_STATUSES = [
+  ...new Set<string>([...VALID_ENTITY_STATUSES, ...VALID_SOURCE_ITEM_STATUSES]),
+];
+const VALID_RELATION_TYPES = Object.values(RelationType);
+
+const RELATION_PAGE_SIZE = 500;
+
+export const GRAPH_EXPORT_CONTENT_TYPES: Record<GraphExportFormat, string> = {
+  graphml: "application/graphml+xml; charset=utf-8",
+  dot: "text/vnd.graphviz; charset=utf-8",
+  jgf: "application/vnd.jgf+json; charset=utf-8",
+};
+
+export const GRAPH_EXPORT_EXTENSIONS: Record<GraphExportFormat, string> = {
+  graphml: "graphml",
+  dot: "dot",
+  jgf: "json",
+};
+
+export interface GraphExportFilters {
+  entityTypes: EntityType[] | null;
+  relationTypes: RelationType[] | null;
+  statuses: string[] | null;
+}
+
+export interface GraphExportMeta {
+  id: string; // graph id: the project slug
+  label: string; // the project name
+}
+
+function parseList<T extends string>(
+  searchParams: URLSearchParams,
+  name: string,
+  allowed: readonly T[]
+): { values: T[] | null; error?: string } {
+  const param = searchParams.get(name);
+  if (!param) return { values: null };
+  const values = [...new Set(param.split(",").map((value) => value.trim()).filter(Boolean))];
+  for (const value of values) {
+    if (!allowed.includes(value as T)) {
+      return {
+        values: null,
+        error: `Invalid ${name}: ${value}. Must be one of: ${allowed.join(", ")}`,
+      };
+    }
+  }
+  return { values: values.length > 0 ? (values as T[]) : null };
+}
+
+/**
+ * Parse format (required) and the entityType, relationType and status
+ * filters (each comma-separated). Returns { format, filters, error? }; if
+ * error is set, the caller should return badRequest(error).
+ */
+export function parseGraphExportParams(searchParams: URLSearchParams): {
+  format: GraphExportFormat;
+  filters: GraphExportFilters;
+  error?: string;
+} {
+  const filters: GraphExportFilters = { entityTypes: null, relationTypes: null, statuses: null };
+
+  const format = searchParams.get("format");
+  if (!format || !GRAPH_EXPORT_FORMATS.includes(format as GraphExportFormat)) {
+    return {
+      format: "graphml",
+      filters,
+      error: `format must be one of: ${GRAPH_EXPORT_FORMATS.join(", ")}`,
+    };
+  }
+
+  const entityTypes = parseList(searchParams, "entityType", GRAPH_NODE_TYPES);
+  const relationTypes = parseList(searchParams, "relationType", VALID_RELATION_TYPES);
+  const statuses = parseList(searchParams, "status", GRAPH_NODE_STATUSES);
+  const error = entityTypes.error ?? relationTypes.error ?? statuses.error;
+
+  filters.entityTypes = entityTypes.values;
+  filters.relationTypes = relationTypes.values;
+  filters.statuses = statuses.values;
+
+  return { format: format as GraphExportFormat, filters, ...(error ? { error } : {}) };
+}
+
+// =============================================================================
+// Serializers
+// =============================================================================
+
+interface GraphSerializer {
+  header(meta: GraphExportMeta): string;
+  node(node: GraphNodeDetails, first: boolean): string;
+  // Between the last node and the first edge
+  edgesStart(): string;
+  edge(relation: EntityRelation, first: boolean): string;
+  footer(): string;
+}
+
+const GRAPHML_KEYS = [
+  ["label", "node", "string"],
+  ["entityType", "node", "string"],
+  ["status", "node", "string"],
+  ["slug", "node", "string"],
+  ["url", "node", "string"],
+  ["missing", "node", "boolean"],
+  ["relationType", "edge", "string"],
+  ["notes", "edge", "string"],
+  ["createdAt", "edge", "string"],
+] as const;
+
+function graphmlData(values: Record<string, string | boolean | null>): string {
+  return Object.entries(values)
+    .filter(([, value]) => value !== null)
+    .map(([key, value]) => `      <data key="${key}">${escapeXml(String(value))}</data>\n`)
+    .join("");
+}
+
+const graphml: GraphSerializer = {
+  header: (meta) =>
+    `${XML_DECLARATION}\n` +
+    `<graphml xmlns="http://graphml.graphdrawing.org/xmlns">\n` +
+    GRAPHML_KEYS.map(
+      ([name, target, type]) =>
+        `  <key id="${name}" for="${target}" attr.name="${name}" attr.type="${type}"/>\n`
+    ).join("") +
+    `  <graph id="${escapeXml(meta.id)}" edgedefault="directed">\n` +
+    `    <desc>${escapeXml(meta.label)}</desc>\n`,
+  node: (node) =>
+    `    <node id="${node.id}">\n` +
+    graphmlData({
+      label: node.label,
+      entityType: node.entityType,
+      status: node.status,
+      slug: node.slug,
+      url: node.url,
+      missing: node.missing,
+    }) +
+    `    </node>\n`,
+  edgesStart: () => "",
+  edge: (relation) =>
+    `    <edge id="${relation.id}" source="${relation.fromEntityId}" target="${relation.toEntityId}">\n` +
+    graphmlData({
+      relationType: relation.relationType,
+      notes: relation.notes,
+      createdAt: relation.createdAt.toISOString(),
+    }) +
+    `    </edge>\n`,
+  footer: () => `  </graph>\n</graphml>\n`,
+};
+
+// DOT quoted string: only " needs escaping; \ is escaped so label escape
+// sequences (\n, \l) in titles are not interpreted
+function dotString(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\r?\n/g, "\\n")}"`;
+}
+
+function dotAttributes(values: Record<string, string | boolean | null>): string {
+  return Object.entries(values)
+    .filter(([, value]) => value !== null)
+    .map(([key, value]) => `${key}=${dotString(String(value))}`)
+    .join(", ");
+}
+
+const DOT_SHAPES: Partial<Record<EntityType, string>> = {
+  sourceItem: "note",
+  distributionEvent: "cds",
+  video: "box3d",
+};
+
+const dot: GraphSerializer = {
+  header: (meta) => `digraph ${dotString(meta.id)} {\n  label=${dotString(meta.label)};\n`,
+  node: (node) =>
+    `  ${dotString(node.id)} [${dotAttributes({
+      label: node.label ?? node.id,
+      shape: DOT_SHAPES[node.entityType] ?? "ellipse",
+      entityType: node.entityType,
+      status: node.status,
+      slug: node.slug,
+      url: node.url,
+      missing: node.missing ? true : null,
+    })}];\n`,
+  edgesStart: () => "",
+  edge: (relation) =>
+    `  ${dotString(relation.fromEntityId)} -> ${dotString(relation.toEntityId)} [${dotAttributes({
+      id: relation.id,
+      label: relation.relationType,
+      relationType: relation.relationType,
+      notes: relation.notes,
+      createdAt: relation.createdAt.toISOString(),
+    })}];\n`,
+  footer: () => `}\n`,
+};
+
+// JSON Graph Format v2: https://jsongraphformat.info
+const jgf: GraphSerializer = {
+  header: (meta) =>
+    `{"graph":{"id":${JSON.stringify(meta.id)},"label":${JSON.stringify(meta.label)},` +
+    `"directed":true,"nodes":{`,
+  node: (node, first) =>
+    `${first ? "" : ","}\n${JSON.stringify(node.id)}:${JSON.stringify({
+      label: node.label ?? node.id,
+      metadata: {
+        entityType: node.entityType,
+        status: node.status,
+        slug: node.slug,
+        url: node.url,
+        missing: node.missing,
+      },
+    })}`,
+  edgesStart: () => `\n},"edges":[`,
+  edge: (relation, first) =>
+    `${first ? "" : ","}\n${JSON.stringify({
+      id: relation.id,
+      source: relation.fromEntityId,
+      target: relation.toEntityId,
+      relation: relation.relationType,
+      directed: true,
+      metadata: { notes: relation.notes, createdAt: relation.createdAt.toISOString() },
+    })}`,
+  footer: () => `\n]}}\n`,
+};
+
+const SERIALIZERS: Record<GraphExportFormat, GraphSerializer> = { graphml, dot, jgf };
+
+// =============================================================================
+// Streaming
+// =============================================================================
+
+async function* relationPages(
+  where: Prisma.EntityRelationWhereInput
+): AsyncGenerator<EntityRelation[]> {
+  let cursor: string | null = null;
+  while (true) {
+    const page: EntityRelation[] = await prisma.entityRelation.findMany({
+      where,
+      orderBy: { id: "asc" },
+      take: RELATION_PAGE_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    if (page.length > 0) yield page;
+    if (page.length < RELATION_PAGE_SIZE) return;
+    cursor = page[page.length - 1].id;
+  }
+}
+
+/**
+ * The export as a sequence of text chunks, roughly one per relation page.
+ */
+export async function* generateGraphExport(
+  projectId: string,
+  format: GraphExportFormat,
+  filters: GraphExportFilters,
+  meta: GraphExportMeta
+): AsyncGenerator<string> {
+  const serializer = SERIALIZERS[format];
+
+  const where: Prisma.EntityRelationWhereInput = { projectId };
+  if (filters.relationTypes) {
+    where.relationType = { in: filters.relationTypes };
+  }
+  if (filters.entityTypes) {
+    where.fromEntityType = { in: filters.entityTypes };
+    where.toEntityType = { in: filters.entityTypes };
+  }
+  const statuses = filters.statuses ? new Set(filters.statuses) : null;
+
+  yield serializer.header(meta);
+
+  // Pass 1: nodes. `seen` includes nodes rejected by the status filter
+  const seen = new Set<string>();
+  const written = new Set<string>();
+  for await (const page of relationPages(where)) {
+    const refs = new Map<string, { id: string; entityType: EntityType }>();
+    for (const relation of page) {
+      for (const [id, entityType] of [
+        [relation.fromEntityId, relation.fromEntityType],
+        [relation.toEntityId, relation.toEntityType],
+      ] as const) {
+        if (!seen.has(id)) {
+          seen.add(id);
+          refs.set(id, { id, entityType });
+        }
+      }
+    }
+    if (refs.size === 0) continue;
+
+    const details = await loadGraphNodeDetails(projectId, [...refs.values()]);
+    let chunk = "";
+    for (const ref of refs.values()) {
+      const node = details.get(ref.id)!;
+      if (statuses && (node.status === null || !statuses.has(node.status))) continue;
+      chunk += serializer.node(node, written.size === 0);
+      written.add(node.id);
+    }
+    if (chunk) yield chunk;
+  }
+
+  yield serializer.edgesStart();
+
+  // Pass 2: edges between written nodes
+  let edgeCount = 0;
+  for await (const page of relationPages(where)) {
+    let chunk = "";
+    for (const relation of page) {
+      if (!written.has(relation.fromEntityId) || !written.has(relation.toEntityId)) continue;
+      chunk += serializer.edge(relation, edgeCount === 0);
+      edgeCount++;
+    }
+    if (chunk) yield chunk;
+  }
+
+  yield serializer.footer();
+}
+
+/**
+ * Wrap generateGraphExport in a byte stream for a Response body. Chunks
+ * are produced on demand, so a slow client does not buffer the export.
+ * A failure mid-export aborts the stream (the client sees a truncated
+ * download); it is logged here because the response is already sent.
+ */
+export function streamGraphExport(chunks: AsyncGenerator<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(value));
+        }
+      } catch (error) {
+        console.error("Graph export stream error:", error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
@@ -0,0 +1,442 @@
+/**
+ * Graph Query Service — bounded traversal and shortest paths over EntityRelation
+ *
+ * The relationship graph is undirected for traversal: an edge is followed
+ * from either end, and every returned relation keeps its stored direction.
+ * Nodes are any EntityType an EntityRelation can point at (content
+ * entities, source items, distribution events, videos).
+ *
+ * Both queries expand breadth-first, one level per query, with the same
+ * ordering as GET /api/entities/[id]/graph (relations createdAt desc, id
+ * desc), so results are deterministic. Each is bounded twice:
+ * - depth: levels expanded from the start node (at most MAX_GRAPH_DEPTH)
+ * - maxNodes: nodes collected, start node included (at most MAX_NODE_BUDGET)
+ * When the node budget stops an expansion the result carries `truncated`;
+ * for paths this means "not found" is inconclusive. Relations are read a
+ * page at a time and reading stops once the budget is spent, so maxNodes
+ * also bounds the rows fetched, not just the nodes returned.
+ */
+import { prisma } from "@/lib/prisma";
+import { RelationType } from "@prisma/client";
+import type { EntityRelation, EntityType, Prisma } from "@prisma/client";
+
+export const MAX_GRAPH_DEPTH = 6;
+export const DEFAULT_NODE_BUDGET = 100;
+export const MAX_NODE_BUDGET = 500;
+
+const RELATION_PAGE_SIZE = 200;
+
+export interface GraphQueryOptions {
+  depth: number;
+  maxNodes: number;
+  relationTypes: RelationType[] | null;
+}
+
+export interface GraphNodeRef {
+  id: string;
+  entityType: EntityType;
+  depth: number;
+}
+
+export interface GraphTruncation {
+  reason: "node_budget";
+  maxNodes: number;
+  atDepth: number;
+  // Nodes seen at atDepth but not collected before reading stopped (a lower
+  // bound: relations past the budget are not read); deeper levels were not
+  // expanded
+  omittedNodeCount: number;
+}
+
+export interface GraphTraversal {
+  nodes: GraphNodeRef[]; // BFS order, start node first
+  relations: EntityRelation[]; // relations between collected nodes, discovery order
+  depthReached: number;
+  truncated: GraphTruncation | null;
+}
+
+export interface GraphPath {
+  found: boolean;
+  nodes: GraphNodeRef[]; // start → target; empty when not found
+  relations: EntityRelation[]; // one per hop, stored direction
+  exploredNodeCount: number;
+  truncated: GraphTruncation | null;
+}
+
+/**
+ * Display fields for a node, by EntityType. `missing` marks a relation
+ * endpoint whose row no longer exists in the project (a dangling edge).
+ */
+export interface GraphNodeDetails {
+  id: string;
+  entityType: EntityType;
+  label: string | null;
+  status: string | null;
+  slug: string | null;
+  url: string | null;
+  missing: boolean;
+}
+
+const VALID_RELATION_TYPES = Object.values(RelationType);
+
+/**
+ * Parse depth, maxNodes and relationshipTypes (comma-separated) query
+ * parameters. Returns { options, error? }; if error is set, the caller
+ * should return badRequest(error).
+ */
+export function parseGraphQueryOptions(
+  searchParams: URLSearchParams,
+  defaultDepth: number
+): { options: GraphQueryOptions; error?: string } {
+  const options: GraphQueryOptions = {
+    depth: defaultDepth,
+    maxNodes: DEFAULT_NODE_BUDGET,
+    relationTypes: null,
+  };
+
+  const depthParam = searchParams.get("depth");
+  if (depthParam) {
+    const depth = Number(depthParam);
+    if (!Number.isInteger(depth) || depth < 1 || depth > MAX_GRAPH_DEPTH) {
+      return { options, error: `depth must be an integer from 1 to ${MAX_GRAPH_DEPTH}` };
+    }
+    options.depth = depth;
+  }
+
+  const maxNodesParam = searchParams.get("maxNodes");
+  if (maxNodesParam) {
+    const maxNodes = Number(maxNodesParam);
+    if (!Number.isInteger(maxNodes) || maxNodes < 2 || maxNodes > MAX_NODE_BUDGET) {
+      return { options, error: `maxNodes must be an integer from 2 to ${MAX_NODE_BUDGET}` };
+    }
+    options.maxNodes = maxNodes;
+  }
+
+  const typesParam = searchParams.get("relationshipTypes");
+  if (typesParam) {
+    const types = typesParam.split(",").map((type) => type.trim()).filter(Boolean);
+    for (const type of types) {
+      if (!VALID_RELATION_TYPES.includes(type as RelationType)) {
+        return {
+          options,
+          error: `Invalid relationship type: ${type}. Must be one of: ${VALID_RELATION_TYPES.join(", ")}`,
+        };
+      }
+    }
+    if (types.length > 0) options.relationTypes = types as RelationType[];
+  }
+
+  return { options };
+}
+
+function neighborWhere(
+  projectId: string,
+  frontier: string[],
+  relationTypes: RelationType[] | null
+): Prisma.EntityRelationWhereInput {
+  const where: Prisma.EntityRelationWhereInput = {
+    projectId,
+    OR: [{ fromEntityId: { in: frontier } }, { toEntityId: { in: frontier } }],
+  };
+  if (relationTypes) {
+    where.relationType = { in: relationTypes };
+  }
+  return where;
+}
+
+/**
+ * Relations touching the frontier, a page at a time in traversal order.
+ * Callers stop iterating once the node budget is spent, so a hub with
+ * thousands of edges is not read in full.
+ */
+async function* neighborRelationPages(
+  projectId: string,
+  frontier: string[],
+  relationTypes: RelationType[] | null
+): AsyncGenerator<EntityRelation[]> {
+  const where = neighborWhere(projectId, frontier, relationTypes);
+  let cursor: string | null = null;
+  while (true) {
+    const page: EntityRelation[] = await prisma.entityRelation.findMany({
+      where,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: RELATION_PAGE_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    if (page.length > 0) yield page;
+    if (page.length < RELATION_PAGE_SIZE) return;
+    cursor = page[page.length - 1].id;
+  }
+}
+
+function endpoints(relation: EntityRelation): [string, EntityType][] {
+  return [
+    [relation.fromEntityId, relation.fromEntityType],
+    [relation.toEntityId, relation.toEntityType],
+  ];
+}
+
+/**
+ * Breadth-first expansion from `start` up to options.depth levels, stopping
+ * at the level where the node budget runs out.
+ */
+export async function traverseGraph(
+  projectId: string,
+  start: { id: string; entityType: EntityType },
+  options: GraphQueryOptions
+): Promise<GraphTraversal> {
+  const nodes = new Map<string, GraphNodeRef>([
+    [start.id, { id: start.id, entityType: start.entityType, depth: 0 }],
+  ]);
+  const relations = new Map<string, EntityRelation>();
+  let frontier = [start.id];
+  let depthReached = 0;
+  let truncated: GraphTruncation | null = null;
+
+  for (let level = 1; level <= options.depth && frontier.length > 0; level++) {
+    const next: string[] = [];
+    const omitted = new Set<string>();
+
+    for await (const page of neighborRelationPages(projectId, frontier, options.relationTypes)) {
+      for (const relation of page) {
+        for (const [id, entityType] of endpoints(relation)) {
+          if (nodes.has(id) || omitted.has(id)) continue;
+          if (nodes.size >= options.maxNodes) {
+            omitted.add(id);
+            continue;
+          }
+          nodes.set(id, { id, entityType, depth: level });
+          next.push(id);
+        }
+        if (nodes.has(relation.fromEntityId) && nodes.has(relation.toEntityId)) {
+          relations.set(relation.id, relation);
+        }
+      }
+      // Budget spent: later pages could only add omitted nodes
+      if (omitted.size > 0) break;
+    }
+
+    if (next.length > 0) depthReached = level;
+    if (omitted.size > 0) {
+      truncated = {
+        reason: "node_budget",
+        maxNodes: options.maxNodes,
+        atDepth: level,
+        omittedNodeCount: omitted.size,
+      };
+      break;
+    }
+    frontier = next;
+  }
+
+  return {
+    nodes: [...nodes.values()],
+    relations: [...relations.values()],
+    depthReached,
+    truncated,
+  };
+}
+
+/**
+ * Shortest path (fewest hops) from `start` to `targetId`, at most
+ * options.depth hops. Among equally short paths the first discovered in
+ * traversal order wins.
+ */
+export async function findShortestPath(
+  projectId: string,
+  start: { id: string; entityType: EntityType },
+  targetId: string,
+  options: GraphQueryOptions
+): Promise<GraphPath> {
+  const nodes = new Map<string, GraphNodeRef>([
+    [start.id, { id: start.id, entityType: start.entityType, depth: 0 }],
+  ]);
+  // node id → relation it was reached through
+  const reachedVia = new Map<string, EntityRelation>();
+  let frontier = [start.id];
+  let truncated: GraphTruncation | null = null;
+
+  const pathTo = (id: string): GraphPath => {
+    const pathNodes: GraphNodeRef[] = [];
+    const pathRelations: EntityRelation[] = [];
+    let current: string | undefined = id;
+    while (current) {
+      pathNodes.unshift(nodes.get(current)!);
+      const via = reachedVia.get(current);
+      if (!via) break;
+      pathRelations.unshift(via);
+      current = via.fromEntityId === current ? via.toEntityId : via.fromEntityId;
+    }
+    return {
+      found: true,
+      nodes: pathNodes,
+      relations: pathRelations,
+      exploredNodeCount: nodes.size,
+      truncated: null,
+    };
+  };
+
+  if (start.id === targetId) return pathTo(start.id);
+
+  for (let level = 1; level <= options.depth && frontier.length > 0; level++) {
+    const frontierSet = new Set(frontier);
+    const next: string[] = [];
+    let omittedNodeCount = 0;
+
+    const reach = (relation: EntityRelation): boolean => {
+      for (const [id, entityType] of endpoints(relation)) {
+        if (nodes.has(id)) continue;
+        const from = id === relation.toEntityId ? relation.fromEntityId : relation.toEntityId;
+        if (!frontierSet.has(from)) continue;
+        if (nodes.size >= options.maxNodes && id !== targetId) {
+          omittedNodeCount++;
+          continue;
+        }
+        nodes.set(id, { id, entityType, depth: level });
+        reachedVia.set(id, relation);
+        if (id === targetId) return true;
+        next.push(id);
+      }
+      return false;
+    };
+
+    for await (const page of neighborRelationPages(projectId, frontier, options.relationTypes)) {
+      for (const relation of page) {
+        if (reach(relation)) return pathTo(targetId);
+      }
+      if (omittedNodeCount > 0) break;
+    }
+
+    if (omittedNodeCount > 0) {
+      // Reading stopped at the budget; the target is still admitted if it is
+      // one hop from this frontier
+      const toTarget = await prisma.entityRelation.findFirst({
+        where: {
+          AND: [
+            neighborWhere(projectId, frontier, options.relationTypes),
+            { OR: [{ fromEntityId: targetId }, { toEntityId: targetId }] },
+          ],
+        },
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      });
+      if (toTarget && reach(toTarget)) return pathTo(targetId);
+
+      truncated = {
+        reason: "node_budget",
+        maxNodes: options.maxNodes,
+        atDepth: level,
+        omittedNodeCount,
+      };
+      break;
+    }
+    frontier = next;
+  }
+
+  return {
+    found: false,
+    nodes: [],
+    relations: [],
+    exploredNodeCount: nodes.size,
+    truncated,
+  };
+}
+
+/**
+ * Load display fields for graph nodes from their tables, one query per
+ * type present. Result is keyed by node id; every ref gets an entry.
+ */
+export async function loadGraphNodeDetails(
+  projectId: string,
+  refs: { id: string; entityType: EntityType }[]
+): Promise<Map<string, GraphNodeDetails>> {
+  const idsOf = (types: EntityType[]) =>
+    refs.filter((ref) => types.includes(ref.entityType)).map((ref) => ref.id);
+
+  const contentIds = idsOf(["guide", "concept", "project", "news"]);
+  const sourceIds = idsOf(["sourceItem"]);
+  const distributionIds = idsOf(["distributionEvent"]);
+  const videoIds = idsOf(["video"]);
+
+  const [entities, sources, distributions, videos] = await Promise.all([
+    contentIds.length > 0
+      ? prisma.entity.findMany({
+          where: { id: { in: contentIds }, projectId },
+          select: { id: true, entityType: true, title: true, slug: true, status: true },
+        })
+      : [],
+    sourceIds.length > 0
+      ? prisma.sourceItem.findMany({
+          where: { id: { in: sourceIds }, projectId },
+          select: { id: true, url: true, title: true, status: true },
+        })
+      : [],
+    distributionIds.length > 0
+      ? prisma.distributionEvent.findMany({
+          where: { id: { in: distributionIds }, projectId },
+          select: { id: true, platform: true, externalUrl: true, status: true },
+        })
+      : [],
+    videoIds.length > 0
+      ? prisma.video.findMany({
+          where: { id: { in: videoIds }, projectId },
+          select: { id: true, platform: true, externalUrl: true, status: true },
+        })
+      : [],
+  ]);
+
+  const details = new Map<string, GraphNodeDetails>();
+  for (const e of entities) {
+    details.set(e.id, {
+      id: e.id,
+      entityType: e.entityType,
+      label: e.title,
+      status: e.status,
+      slug: e.slug,
+      url: null,
+      missing: false,
+    });
+  }
+  for (const s of sources) {
+    details.set(s.id, {
+      id: s.id,
+      entityType: "sourceItem",
+      label: s.title || s.url,
+      status: s.status,
+      slug: null,
+      url: s.url,
+      missing: false,
+    });
+  }
+  for (const [entityType, rows] of [
+    ["distributionEvent", distributions],
+    ["video", videos],
+  ] as const) {
+    for (const row of rows) {
+      details.set(row.id, {
+        id: row.id,
+        entityType,
+        label: `${row.platform}: ${row.externalUrl}`,
+        status: row.status,
+        slug: null,
+        url: row.externalUrl,
+        missing: false,
+      });
+    }
+  }
+
+  for (const ref of refs) {
+    if (!details.has(ref.id)) {
+      details.set(ref.id, {
+        id: ref.id,
+        entityType: ref.entityType,
+        label: null,
+        status: null,
+        slug: null,
+        url: null,
+        missing: true,
+      });
+    }
+  }
+
+  return details;
+}
@@ -0,0 +1,206 @@
+/**
+ * JSON-LD — schema.org structured data for content entities
+ *
+ * Per docs/site-architecture/06-SCHEMA-AND-METADATA-PLAN.md: schema is
+ * derived from DB state only and mirrors what the page shows.
+ *
+ * Entity type → schema.org type:
+ * - news    → NewsArticle
+ * - guide   → HowTo when it has howto_step quotable blocks (they become the
+ *             steps), otherwise TechArticle
+ * - concept → DefinedTerm
+ * - project → SoftwareSourceCode (codeRepository from repoUrl)
+ *
+ * QuotableBlocks are embedded as Claim (statistic, comparison) or
+ * Quotation (definition, howto_step) with sourceCitation as `citation`.
+ * Blocks whose verifiedUntil has passed are dropped. They hang off the
+ * entity as `hasPart`, or `subjectOf` for DefinedTerm, which is not a
+ * CreativeWork.
+ *
+ * Output is deterministic for a given entity, block set and `now`.
+ */
+import type { ClaimType, ContentEntityType } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { absolutePublicUrlFor } from "@/lib/public-url";
+
+export type JsonLdNode = { [key: string]: unknown };
+
+const ORGANIZATION_NAME = "PsyMetric";
+
+const BLOCK_SCHEMA_TYPES: Record<ClaimType, "Claim" | "Quotation"> = {
+  statistic: "Claim",
+  comparison: "Claim",
+  definition: "Quotation",
+  howto_step: "Quotation",
+};
+
+export interface JsonLdEntity {
+  id: string;
+  entityType: ContentEntityType;
+  title: string;
+  slug: string;
+  summary: string | null;
+  canonicalUrl: string | null;
+  repoUrl: string | null;
+  license: string | null;
+  publishedAt: Date | null;
+  updatedAt: Date;
+}
+
+export interface JsonLdQuotableBlock {
+  id: string;
+  text: string;
+  claimType: ClaimType;
+  sourceCitation: string | null;
+  verifiedUntil: Date | null;
+}
+
+export interface EntityJsonLd {
+  schemaType: string;
+  jsonLd: JsonLdNode;
+  includedBlockIds: string[];
+  expiredBlockIds: string[];
+}
+
+export function isBlockExpired(block: { verifiedUntil: Date | null }, now: Date): boolean {
+  return block.verifiedUntil !== null && block.verifiedUntil < now;
+}
+
+function blockNode(block: JsonLdQuotableBlock, url: string): JsonLdNode {
+  return {
+    "@type": BLOCK_SCHEMA_TYPES[block.claimType],
+    "@id": `${url}#block-${block.id}`,
+    text: block.text,
+    ...(block.sourceCitation ? { citation: block.sourceCitation } : {}),
+  };
+}
+
+export function buildEntityJsonLd(
+  entity: JsonLdEntity,
+  blocks: JsonLdQuotableBlock[],
+  options: { origin: string; now: Date }
+): EntityJsonLd {
+  const url = absolutePublicUrlFor(entity, options.origin);
+  const current = blocks.filter((b) => !isBlockExpired(b, options.now));
+  const expiredBlockIds = blocks.filter((b) => isBlockExpired(b, options.now)).map((b) => b.id);
+
+  const organization = {
+    "@type": "Organization",
+    name: ORGANIZATION_NAME,
+    url: options.origin,
+  };
+
+  const description = entity.summary ? { description: entity.summary } : {};
+  const dates = {
+    ...(entity.publishedAt ? { datePublished: entity.publishedAt.toISOString() } : {}),
+    dateModified: entity.updatedAt.toISOString(),
+  };
+  const creativeWork = {
+    "@id": url,
+    url,
+    ...description,
+    ...dates,
+    author: organization,
+    publisher: organization,
+    mainEntityOfPage: url,
+  };
+
+  const steps = current.filter((b) => b.claimType === "howto_step");
+  const parts = (list: JsonLdQuotableBlock[]) =>
+    list.length > 0 ? { hasPart: list.map((b) => blockNode(b, url)) } : {};
+
+  let node: JsonLdNode;
+  switch (entity.entityType) {
+    case "news":
+      node = { "@type": "NewsArticle", headline: entity.title, ...creativeWork, ...parts(current) };
+      break;
+    case "guide":
+      node =
+        steps.length > 0
+          ? {
+              "@type": "HowTo",
+              name: entity.title,
+              ...creativeWork,
+              step: steps.map((b, i) => ({
+                "@type": "HowToStep",
+                position: i + 1,
+                text: b.text,
+                ...(b.sourceCitation ? { citation: b.sourceCitation } : {}),
+              })),
+              ...parts(current.filter((b) => b.claimType !== "howto_step")),
+            }
+          : { "@type": "TechArticle", headline: entity.title, ...creativeWork, ...parts(current) };
+      break;
+    case "concept":
+      node = {
+        "@type": "DefinedTerm",
+        "@id": url,
+        name: entity.title,
+        url,
+        ...description,
+        ...(current.length > 0 ? { subjectOf: current.map((b) => blockNode(b, url)) } : {}),
+      };
+      break;
+    case "project":
+      node = {
+        "@type": "SoftwareSourceCode",
+        name: entity.title,
+        ...creativeWork,
+        ...(entity.repoUrl ? { codeRepository: entity.repoUrl } : {}),
+        ...(entity.license ? { license: entity.license } : {}),
+        ...parts(current),
+      };
+      break;
+  }
+
+  return {
+    schemaType: node["@type"] as string,
+    jsonLd: { "@context": "https://schema.org", ...node },
+    includedBlockIds: current.map((b) => b.id),
+    expiredBlockIds,
+  };
+}
+
+/**
+ * Load an entity and its quotable blocks and build its JSON-LD.
+ * Returns null when the entity does not exist in the project.
+ */
+export async function getEntityJsonLd(
+  entityId: string,
+  projectId: string,
+  options: { origin: string; now?: Date }
+): Promise<EntityJsonLd | null> {
+  const entity = await prisma.entity.findUnique({
+    where: { id: entityId },
+    select: {
+      id: true,
+      projectId: true,
+      entityType: true,
+      title: true,
+      slug: true,
+      summary: true,
+      canonicalUrl: true,
+      repoUrl: true,
+      license: true,
+      publishedAt: true,
+      updatedAt: true,
+    },
+  });
+  if (!entity || entity.projectId !== projectId) return null;
+
+  const blocks = await prisma.quotableBlock.findMany({
+    where: { entityId, projectId },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    select: { id: true, text: true, claimType: true, sourceCitation: true, verifiedUntil: true },
+  });
+
+  return buildEntityJsonLd(entity, blocks, { origin: options.origin, now: options.now ?? new Date() });
+}
+
+/**
+ * JSON for a <script type="application/ld+json"> element. "<" is escaped so
+ * entity text can never close the script tag.
+ */
+export function serializeJsonLd(jsonLd: JsonLdNode): string {
+  return JSON.stringify(jsonLd).replace(/</g, "\\u003c");
+}
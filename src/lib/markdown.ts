@@ -0,0 +1,197 @@
+/**
+ * Markdown Rendering — hosted content bodies → sanitized HTML
+ *
+ * Pipeline (server-side only):
+ *   remark-parse + GFM
+ *   → entity links resolved (see below)
+ *   → mdast → hast (raw HTML in the source is dropped)
+ *   → rehype-sanitize (GitHub schema)
+ *   → heading ids + anchor links
+ *   → code highlighting (highlight.js classes; languages from ```lang fences)
+ *
+ * Sanitizing runs before ids, anchors and highlighting, so everything
+ * added afterwards is generated by us, never taken from the body.
+ *
+ * MDX bodies are rendered as Markdown: JSX is not executed.
+ *
+ * Internal links — link to another entity of the same project by type + slug:
+ *
+ *   [Attention](entity:concept/attention-mechanism)
+ *   [Setup](entity:guide/getting-started#install)
+ *
+ * Only published targets resolve (to their canonicalUrl or public path).
+ * Unresolved links render as plain text; publish validation rejects them
+ * up front (lib/entity-validation.ts).
+ */
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import remarkRehype from "remark-rehype";
+import rehypeSanitize from "rehype-sanitize";
+import rehypeSlug from "rehype-slug";
+import rehypeAutolinkHeadings, {
+  type Options as AutolinkHeadingsOptions,
+} from "rehype-autolink-headings";
+import rehypeHighlight from "rehype-highlight";
+import rehypeStringify from "rehype-stringify";
+import { visit, SKIP } from "unist-util-visit";
+import type { Root } from "mdast";
+import type { ContentEntityType } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { publicUrlFor } from "@/lib/public-url";
+
+const ENTITY_LINK_PREFIX = "entity:";
+const ENTITY_LINK_RE =
+  /^entity:(guide|concept|project|news)\/([a-z0-9]+(?:-[a-z0-9]+)*)(#[A-Za-z0-9_-]+)?$/;
+
+const HEADING_ANCHORS: AutolinkHeadingsOptions = {
+  behavior: "append",
+  properties: { className: ["heading-anchor"], ariaHidden: "true", tabIndex: -1 },
+  content: { type: "text", value: "#" },
+};
+
+export interface EntityLinkRef {
+  url: string; // as written in the body
+  entityType: ContentEntityType | null; // null = malformed entity: link
+  slug: string | null;
+  fragment: string;
+}
+
+export interface EntityLinkTarget {
+  title: string;
+  url: string;
+}
+
+function linkKey(entityType: ContentEntityType, slug: string): string {
+  return `${entityType}/${slug}`;
+}
+
+export function parseEntityLink(url: string): EntityLinkRef | null {
+  if (!url.startsWith(ENTITY_LINK_PREFIX)) return null;
+  const match = ENTITY_LINK_RE.exec(url);
+  if (!match) {
+    return { url, entityType: null, slug: null, fragment: "" };
+  }
+  return {
+    url,
+    entityType: match[1] as ContentEntityType,
+    slug: match[2],
+    fragment: match[3] ?? "",
+  };
+}
+
+/**
+ * All entity: links in a body, deduplicated by URL, in document order.
+ */
+export function extractEntityLinks(markdown: string): EntityLinkRef[] {
+  const tree = unified().use(remarkParse).use(remarkGfm).parse(markdown);
+  const seen = new Map<string, EntityLinkRef>();
+  visit(tree, "link", (node) => {
+    const ref = parseEntityLink(node.url);
+    if (ref && !seen.has(ref.url)) seen.set(ref.url, ref);
+  });
+  return [...seen.values()];
+}
+
+/**
+ * Look up published targets for links within one project.
+ * Keyed by "<entityType>/<slug>"; missing and unpublished targets are absent.
+ */
+export async function resolveEntityLinks(
+  projectId: string,
+  refs: EntityLinkRef[]
+): Promise<Map<string, EntityLinkTarget>> {
+  const wanted = refs.filter(
+    (r): r is EntityLinkRef & { entityType: ContentEntityType; slug: string } =>
+      r.entityType !== null && r.slug !== null
+  );
+  if (wanted.length === 0) return new Map();
+
+  const entities = await prisma.entity.findMany({
+    where: {
+      projectId,
+      status: "published",
+      OR: wanted.map((r) => ({ entityType: r.entityType, slug: r.slug })),
+    },
+    select: { entityType: true, slug: true, title: true, canonicalUrl: true },
+  });
+
+  return new Map(
+    entities.map((e) => [
+      linkKey(e.entityType, e.slug),
+      { title: e.title, url: publicUrlFor(e) },
+    ])
+  );
+}
+
+export function isLinkResolved(
+  ref: EntityLinkRef,
+  targets: Map<string, EntityLinkTarget>
+): boolean {
+  return (
+    ref.entityType !== null &&
+    ref.slug !== null &&
+    targets.has(linkKey(ref.entityType, ref.slug))
+  );
+}
+
+/**
+ * remark plugin: rewrite entity: links to public URLs, unwrap the rest.
+ */
+function remarkEntityLinks(options: {
+  targets: Map<string, EntityLinkTarget>;
+  unresolved: Set<string>;
+}) {
+  return (tree: Root) => {
+    visit(tree, "link", (node, index, parent) => {
+      const ref = parseEntityLink(node.url);
+      if (!ref) return;
+
+      if (isLinkResolved(ref, options.targets)) {
+        const target = options.targets.get(linkKey(ref.entityType!, ref.slug!))!;
+        node.url = `${target.url}${ref.fragment}`;
+        node.title = node.title ?? target.title;
+        return;
+      }
+
+      options.unresolved.add(ref.url);
+      if (parent && index !== undefined) {
+        parent.children.splice(index, 1, ...node.children);
+        return [SKIP, index];
+      }
+    });
+  };
+}
+
+export interface RenderedMarkdown {
+  html: string;
+  unresolvedLinks: string[];
+}
+
+/**
+ * Render a body to sanitized HTML, resolving entity links within projectId.
+ */
+export async function renderMarkdown(
+  markdown: string,
+  options: { projectId: string }
+): Promise<RenderedMarkdown> {
+  const targets = await resolveEntityLinks(
+    options.projectId,
+    extractEntityLinks(markdown)
+  );
+  const unresolved = new Set<string>();
+
+  const file = await unified()
+    .use(remarkParse)
+    .use(remarkGfm)
+    .use(remarkEntityLinks, { targets, unresolved })
+    .use(remarkRehype)
+    .use(rehypeSanitize)
+    .use(rehypeSlug)
+    .use(rehypeAutolinkHeadings, HEADING_ANCHORS)
+    .use(rehypeHighlight)
+    .use(rehypeStringify)
+    .process(markdown);
+
+  return { html: String(file), unresolvedLinks: [...unresolved] };
+}
@@ -0,0 +1,140 @@
+/**
+ * Near-duplicate SourceItems — SimHash comparison within a project
+ *
+ * Candidates are the project's items that have a fingerprint (HTML or text
+ * snapshot with enough extracted text) and are not themselves marked as a
+ * duplicate, so matches always point at an original. Comparison is a
+ * Hamming-distance scan in memory (lib/simhash.ts).
+ *
+ * Candidates are bounded so cost does not grow with the whole inbox: only
+ * captures within NEAR_DUPLICATE_WINDOW_DAYS of the items compared, at most
+ * MAX_NEAR_DUPLICATE_CANDIDATES of them (nearest in capture time first).
+ */
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { similarity } from "@/lib/simhash";
+
+export const NEAR_DUPLICATE_WINDOW_DAYS = 90;
+export const MAX_NEAR_DUPLICATE_CANDIDATES = 2000;
+
+const WINDOW_MS = NEAR_DUPLICATE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+export interface SimilarSourceItem {
+  id: string;
+  url: string;
+  title: string | null;
+  status: string;
+  capturedAt: Date;
+  similarity: number;
+}
+
+async function loadCandidates(
+  projectId: string,
+  capturedAt: Prisma.DateTimeFilter,
+  order: "asc" | "desc",
+  take: number
+) {
+  return prisma.sourceItem.findMany({
+    where: { projectId, simhash: { not: null }, duplicateOfId: null, capturedAt },
+    select: { id: true, url: true, title: true, status: true, capturedAt: true, simhash: true },
+    orderBy: [{ capturedAt: order }, { id: order }],
+    take,
+  });
+}
+
+/**
+ * Items whose fingerprint is at least `threshold` similar, most similar
+ * first (then oldest capture).
+ */
+export async function findSimilarSourceItems(
+  projectId: string,
+  item: { id: string; simhash: string; capturedAt: Date },
+  options: { threshold: number; limit: number }
+): Promise<SimilarSourceItem[]> {
+  // Half the budget on each side of the item's capture
+  const time = item.capturedAt.getTime();
+  const half = MAX_NEAR_DUPLICATE_CANDIDATES / 2;
+  const [before, after] = await Promise.all([
+    loadCandidates(projectId, { gte: new Date(time - WINDOW_MS), lte: item.capturedAt }, "desc", half),
+    loadCandidates(projectId, { gt: item.capturedAt, lte: new Date(time + WINDOW_MS) }, "asc", half),
+  ]);
+
+  const matches: SimilarSourceItem[] = [];
+  for (const candidate of [...before, ...after]) {
+    if (candidate.id === item.id) continue;
+    const score = similarity(item.simhash, candidate.simhash!);
+    if (score < options.threshold) continue;
+    matches.push({
+      id: candidate.id,
+      url: candidate.url,
+      title: candidate.title,
+      status: candidate.status,
+      capturedAt: candidate.capturedAt,
+      similarity: score,
+    });
+  }
+
+  return matches
+    .sort((a, b) => b.similarity - a.similarity || a.capturedAt.getTime() - b.capturedAt.getTime())
+    .slice(0, options.limit);
+}
+
+/**
+ * For each unresolved item (fingerprinted, not archived, not already marked
+ * as a duplicate), the most similar item captured before it, if any reaches
+ * `threshold`. Keyed by item id; items without a match are absent.
+ */
+export async function findPossibleDuplicates(
+  projectId: string,
+  items: {
+    id: string;
+    simhash: string | null;
+    status: string;
+    capturedAt: Date;
+    duplicateOfId: string | null;
+  }[],
+  threshold: number
+): Promise<Map<string, SimilarSourceItem>> {
+  const result = new Map<string, SimilarSourceItem>();
+  const pending = items.filter(
+    (item) => item.simhash && item.status !== "archived" && !item.duplicateOfId
+  );
+  if (pending.length === 0) return result;
+
+  // Only earlier captures can be the original: the most recent ones before
+  // the newest pending item, back to the window before the oldest
+  const times = pending.map((item) => item.capturedAt.getTime());
+  const candidates = (
+    await loadCandidates(
+      projectId,
+      { gte: new Date(Math.min(...times) - WINDOW_MS), lte: new Date(Math.max(...times)) },
+      "desc",
+      MAX_NEAR_DUPLICATE_CANDIDATES
+    )
+  ).reverse();
+  for (const item of pending) {
+    let best: SimilarSourceItem | null = null;
+    for (const candidate of candidates) {
+      // Candidates are in capture order; only earlier captures can be the original
+      if (
+        candidate.capturedAt > item.capturedAt ||
+        (candidate.capturedAt.getTime() === item.capturedAt.getTime() && candidate.id >= item.id)
+      ) {
+        break;
+      }
+      const score = similarity(item.simhash!, candidate.simhash!);
+      if (score >= threshold && (!best || score > best.similarity)) {
+        best = {
+          id: candidate.id,
+          url: candidate.url,
+          title: candidate.title,
+          status: candidate.status,
+          capturedAt: candidate.capturedAt,
+          similarity: score,
+        };
+      }
+    }
+    if (best) result.set(item.id, best);
+  }
+  return result;
+}
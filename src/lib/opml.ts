@@ -0,0 +1,167 @@
+/**
+ * OPML — source feed import/export
+ *
+ * Import reads every <outline> carrying an xmlUrl, at any depth. The
+ * category becomes SourceFeed.platformLabel:
+ * - the titles of the enclosing folder outlines, joined with " / "
+ * - otherwise the first entry of the outline's `category` attribute
+ *
+ * Export writes one folder outline per platformLabel (feeds without a label
+ * at the top level), so an export re-imports to the same labels. The
+ * non-standard `platform` attribute round-trips SourceFeed.platform; when it
+ * is absent the platform is inferred from the feed host.
+ */
+import type { Platform } from "@prisma/client";
+import { XMLParser, XMLValidator } from "fast-xml-parser";
+import { XML_DECLARATION, escapeXml } from "@/lib/xml";
+import { VALID_PLATFORMS, isValidEnum } from "@/lib/validation";
+
+export interface OpmlFeed {
+  name: string;
+  feedUrl: string;
+  platform: Platform;
+  platformLabel: string | null;
+}
+
+export interface OpmlExportFeed {
+  name: string;
+  feedUrl: string;
+  platform: Platform;
+  platformLabel: string | null;
+}
+
+type XmlNode = Record<string, unknown>;
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  parseAttributeValue: false,
+  isArray: (name) => name === "outline",
+});
+
+// Host suffix → platform, checked in order
+const PLATFORM_HOSTS: [string, Platform][] = [
+  ["youtube.com", "youtube"],
+  ["reddit.com", "reddit"],
+  ["github.com", "github"],
+  ["news.ycombinator.com", "hackernews"],
+  ["hnrss.org", "hackernews"],
+  ["substack.com", "substack"],
+  ["linkedin.com", "linkedin"],
+  ["x.com", "x"],
+  ["twitter.com", "x"],
+];
+
+export function inferPlatform(feedUrl: string): Platform {
+  let host: string;
+  try {
+    host = new URL(feedUrl).hostname.toLowerCase();
+  } catch {
+    return "other";
+  }
+  for (const [suffix, platform] of PLATFORM_HOSTS) {
+    if (host === suffix || host.endsWith(`.${suffix}`)) return platform;
+  }
+  return "website";
+}
+
+function attr(node: XmlNode, name: string): string | null {
+  const value = node[`@_${name}`];
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function outlinesOf(node: XmlNode | undefined): XmlNode[] {
+  const list = node?.outline;
+  return Array.isArray(list)
+    ? list.filter((o): o is XmlNode => !!o && typeof o === "object")
+    : [];
+}
+
+/**
+ * Feeds listed in an OPML document, in document order.
+ * Returns null when the text is not well-formed OPML (no <opml><body>).
+ */
+export function parseOpml(xml: string): OpmlFeed[] | null {
+  if (XMLValidator.validate(xml) !== true) return null;
+
+  let doc: XmlNode;
+  try {
+    doc = parser.parse(xml) as XmlNode;
+  } catch {
+    return null;
+  }
+
+  const opml = doc.opml as XmlNode | undefined;
+  const body = opml && typeof opml === "object" ? (opml.body as XmlNode | undefined) : undefined;
+  if (!body || typeof body !== "object") {
+    // <body/> with no outlines parses to an empty string
+    return opml && "body" in opml ? [] : null;
+  }
+
+  const feeds: OpmlFeed[] = [];
+
+  const walk = (outlines: XmlNode[], folders: string[]) => {
+    for (const outline of outlines) {
+      const title = attr(outline, "title") ?? attr(outline, "text");
+      const xmlUrl = attr(outline, "xmlUrl");
+
+      if (xmlUrl) {
+        const category = attr(outline, "category")?.split(",")[0].replace(/^\/+/, "").trim();
+        const platform = attr(outline, "platform");
+        feeds.push({
+          name: title ?? xmlUrl,
+          feedUrl: xmlUrl,
+          platform:
+            platform && isValidEnum(platform, VALID_PLATFORMS) ? platform : inferPlatform(xmlUrl),
+          platformLabel: folders.length > 0 ? folders.join(" / ") : category || null,
+        });
+      }
+
+      walk(outlinesOf(outline), title ? [...folders, title] : folders);
+    }
+  };
+
+  walk(outlinesOf(body), []);
+  return feeds;
+}
+
+function feedOutline(feed: OpmlExportFeed, indent: string): string {
+  return (
+    `${indent}<outline type="rss" text="${escapeXml(feed.name)}" title="${escapeXml(feed.name)}"` +
+    ` xmlUrl="${escapeXml(feed.feedUrl)}" platform="${feed.platform}"/>`
+  );
+}
+
+export function buildOpml(args: { title: string; feeds: OpmlExportFeed[]; now: Date }): string {
+  const lines = [
+    XML_DECLARATION,
+    '<opml version="2.0">',
+    "<head>",
+    `<title>${escapeXml(args.title)}</title>`,
+    `<dateCreated>${args.now.toUTCString()}</dateCreated>`,
+    "</head>",
+    "<body>",
+  ];
+
+  const byLabel = new Map<string, OpmlExportFeed[]>();
+  for (const feed of args.feeds) {
+    if (!feed.platformLabel) {
+      lines.push(feedOutline(feed, "  "));
+      continue;
+    }
+    const group = byLabel.get(feed.platformLabel) ?? [];
+    group.push(feed);
+    byLabel.set(feed.platformLabel, group);
+  }
+
+  for (const [label, feeds] of [...byLabel.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    lines.push(`  <outline text="${escapeXml(label)}" title="${escapeXml(label)}">`);
+    for (const feed of feeds) lines.push(feedOutline(feed, "    "));
+    lines.push("  </outline>");
+  }
+
+  lines.push("</body>", "</opml>");
+  return lines.join("\n");
+}
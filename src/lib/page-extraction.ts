@@ -0,0 +1,265 @@
+/**
+ * Page Extraction — readable text and metadata from archived snapshots
+ *
+ * Deterministic: the output is a pure function of the snapshot bytes and
+ * MIME type (no network, no clock, no randomness), so extraction can be
+ * re-run and checked against saved HTML fixtures (lib/__tests__/fixtures/pages).
+ *
+ * HTML:
+ * - title:       og:title → twitter:title → <title> → first <h1>
+ * - author:      meta author → article:author → [itemprop=author] → [rel=author]
+ * - publishedAt: article:published_time → meta date variants →
+ *                [itemprop=datePublished] → first <time datetime>
+ * - openGraph / twitter: every og:* / twitter:* meta, first value per key
+ * - text: chrome (script, nav, header, footer, aside, forms, ...) is
+ *   removed; the container is <article>, else <main>/[role=main], else the
+ *   element with the most paragraph text, else <body>. Block elements
+ *   become paragraphs separated by blank lines.
+ * - excerpt:     og:description → meta description → start of the text
+ *
+ * Plain text: the text itself; title is the first non-empty line.
+ * PDF: nothing is extracted.
+ */
+import type { Element, Root, RootContent } from "hast";
+import { unified } from "unified";
+import rehypeParse from "rehype-parse";
+import { matches, select, selectAll } from "hast-util-select";
+import { toText } from "hast-util-to-text";
+import type { SnapshotMime } from "@/lib/snapshot";
+
+export const MAX_EXTRACTED_TEXT_LENGTH = 200_000;
+export const EXCERPT_LENGTH = 280;
+
+// A type alias (not an interface) so it is assignable to Prisma JSON input
+export type PageMetadata = {
+  canonicalUrl: string | null;
+  siteName: string | null;
+  lang: string | null;
+  openGraph: Record<string, string>;
+  twitter: Record<string, string>;
+};
+
+export interface PageExtraction {
+  title: string | null;
+  author: string | null;
+  publishedAt: Date | null;
+  excerpt: string | null;
+  text: string;
+  metadata: PageMetadata;
+}
+
+// Elements that never carry article text
+const CHROME_SELECTOR = [
+  "script", "style", "noscript", "template", "svg", "canvas", "iframe",
+  "nav", "header", "footer", "aside", "form", "button", "select", "dialog",
+  "[hidden]", "[aria-hidden=true]", "[role=navigation]", "[role=banner]",
+  "[role=contentinfo]", "[role=complementary]",
+].join(", ");
+
+const BLOCK_SELECTOR = "p, h1, h2, h3, h4, h5, h6, li, blockquote, pre, figcaption, td";
+
+const DATE_META_NAMES = ["date", "pubdate", "publish-date", "publish_date", "dc.date", "dc.date.issued", "dcterms.created"];
+
+function clean(value: string | null | undefined): string | null {
+  if (value === null || value === undefined) return null;
+  const text = value.replace(/\s+/g, " ").trim();
+  return text.length > 0 ? text : null;
+}
+
+function attr(el: Element | undefined | null, name: string): string | null {
+  const value = el?.properties?.[name];
+  if (Array.isArray(value)) return clean(value.join(" "));
+  return typeof value === "string" || typeof value === "number" ? clean(String(value)) : null;
+}
+
+function metaContent(tree: Root, key: string): string | null {
+  // Match name= or property= case-insensitively; first match in document order wins
+  const wanted = key.toLowerCase();
+  for (const meta of selectAll("meta", tree)) {
+    const name = (attr(meta, "name") ?? attr(meta, "property") ?? "").toLowerCase();
+    if (name === wanted) {
+      const content = attr(meta, "content");
+      if (content) return content;
+    }
+  }
+  return null;
+}
+
+function prefixedMeta(tree: Root, prefix: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const meta of selectAll("meta", tree)) {
+    const name = (attr(meta, "property") ?? attr(meta, "name") ?? "").toLowerCase();
+    const content = attr(meta, "content");
+    if (name.startsWith(prefix) && content && !(name in result)) {
+      result[name] = content;
+    }
+  }
+  return result;
+}
+
+function parseDate(value: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function textOf(node: Element | Root): string {
+  return clean(toText(node, { whitespace: "normal" })) ?? "";
+}
+
+function truncate(text: string, length: number): string {
+  if (text.length <= length) return text;
+  const cut = text.slice(0, length);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > length / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+function removeChrome(node: Root | Element): void {
+  node.children = node.children.filter((child: RootContent) => {
+    if (child.type === "comment") return false;
+    if (child.type !== "element") return true;
+    if (matches(CHROME_SELECTOR, child)) return false;
+    removeChrome(child);
+    return true;
+  }) as typeof node.children;
+}
+
+function textAt(selector: string, tree: Root): string | null {
+  const el = select(selector, tree);
+  return el ? clean(textOf(el)) : null;
+}
+
+function pickContainer(tree: Root): Element | Root {
+  const explicit = select("article", tree) ?? select("main", tree) ?? select("[role=main]", tree);
+  if (explicit) return explicit;
+
+  // Element with the most text in its direct <p> children; ties go to the first
+  let best: Element | null = null;
+  let bestScore = 0;
+  for (const el of selectAll("body *", tree)) {
+    let score = 0;
+    for (const child of el.children) {
+      if (child.type === "element" && child.tagName === "p") score += textOf(child).length;
+    }
+    if (score > bestScore) {
+      best = el;
+      bestScore = score;
+    }
+  }
+  return best ?? select("body", tree) ?? tree;
+}
+
+function readableText(container: Element | Root): string {
+  // Outermost block elements only, so li > p or blockquote > p is not repeated
+  const blocks: string[] = [];
+  const walk = (node: Element | Root) => {
+    for (const child of node.children) {
+      if (child.type !== "element") continue;
+      if (matches(BLOCK_SELECTOR, child)) {
+        const text = textOf(child);
+        if (text) blocks.push(text);
+      } else {
+        walk(child);
+      }
+    }
+  };
+  walk(container);
+
+  const text = blocks.length > 0 ? blocks.join("\n\n") : textOf(container);
+  return text.slice(0, MAX_EXTRACTED_TEXT_LENGTH);
+}
+
+export function extractHtml(html: string): PageExtraction {
+  const tree = unified().use(rehypeParse).parse(html);
+
+  const openGraph = prefixedMeta(tree, "og:");
+  const twitter = prefixedMeta(tree, "twitter:");
+
+  const title =
+    openGraph["og:title"] ??
+    twitter["twitter:title"] ??
+    textAt("title", tree) ??
+    textAt("h1", tree);
+
+  const author =
+    metaContent(tree, "author") ??
+    metaContent(tree, "article:author") ??
+    attr(select("[itemprop=author] [itemprop=name]", tree), "content") ??
+    textAt("[itemprop=author]", tree) ??
+    textAt("[rel~=author]", tree);
+
+  const publishedAt =
+    parseDate(metaContent(tree, "article:published_time")) ??
+    DATE_META_NAMES.map((name) => parseDate(metaContent(tree, name))).find((d) => d !== null) ??
+    parseDate(
+      attr(select("[itemprop=datePublished]", tree), "content") ??
+        attr(select("[itemprop=datePublished]", tree), "dateTime")
+    ) ??
+    parseDate(attr(select("time[datetime]", tree), "dateTime"));
+
+  const metadata: PageMetadata = {
+    canonicalUrl: attr(select("link[rel~=canonical]", tree), "href") ?? openGraph["og:url"] ?? null,
+    siteName: openGraph["og:site_name"] ?? null,
+    lang: attr(select("html", tree), "lang"),
+    openGraph,
+    twitter,
+  };
+
+  removeChrome(tree);
+  const text = readableText(pickContainer(tree));
+
+  const excerpt =
+    openGraph["og:description"] ??
+    metaContent(tree, "description") ??
+    twitter["twitter:description"] ??
+    (text ? truncate(text.replace(/\n+/g, " "), EXCERPT_LENGTH) : null);
+
+  return { title, author, publishedAt, excerpt, text, metadata };
+}
+
+export function extractPlainText(content: string): PageExtraction {
+  const text = content.replace(/\r\n?/g, "\n").trim().slice(0, MAX_EXTRACTED_TEXT_LENGTH);
+  const firstLine = text.split("\n").find((line) => line.trim().length > 0);
+  return {
+    title: clean(firstLine),
+    author: null,
+    publishedAt: null,
+    excerpt: text ? truncate(text.replace(/\s+/g, " "), EXCERPT_LENGTH) : null,
+    text,
+    metadata: { canonicalUrl: null, siteName: null, lang: null, openGraph: {}, twitter: {} },
+  };
+}
+
+/**
+ * Charset from a BOM, a <meta charset>, or an http-equiv Content-Type in
+ * the first 2 KB; UTF-8 otherwise. Unknown labels fall back to UTF-8.
+ */
+export function decodeHtml(bytes: Uint8Array): string {
+  let label = "utf-8";
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) label = "utf-16be";
+  else if (bytes[0] === 0xff && bytes[1] === 0xfe) label = "utf-16le";
+  else {
+    const head = Buffer.from(bytes.subarray(0, 2048)).toString("latin1");
+    const match = /<meta[^>]+charset\s*=\s*["']?([\w-]+)/i.exec(head);
+    if (match) label = match[1].toLowerCase();
+  }
+  try {
+    return new TextDecoder(label).decode(bytes);
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+/**
+ * Extraction for a stored snapshot, or null for types with no text layer (PDF).
+ */
+export function extractSnapshot(bytes: Uint8Array, mime: SnapshotMime): PageExtraction | null {
+  switch (mime) {
+    case "text/html":
+      return extractHtml(decodeHtml(bytes));
+    case "text/plain":
+      return extractPlainText(new TextDecoder("utf-8").decode(bytes));
+    case "application/pdf":
+      return null;
+  }
+}
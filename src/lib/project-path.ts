@@ -0,0 +1,46 @@
+/**
+ * Project Path Prefix — /api/projects/:slug/...
+ *
+ * Pure helpers shared by src/proxy.ts (which rewrites prefixed requests onto
+ * the unprefixed route handlers) and resolveProjectId() in lib/project.ts
+ * (which reads the forwarded slug). Kept free of Prisma so the proxy bundle
+ * stays small.
+ */
+
+/**
+ * Internal request header carrying the slug taken from the path prefix.
+ * Set only by the proxy; stripped from every incoming client request.
+ */
+export const PROJECT_PATH_SLUG_HEADER = "x-project-path-slug";
+
+const PROJECT_PREFIX_RE = /^\/api\/projects\/([^/]+)\/(.+)$/;
+
+// First path segments under /api/projects/:ref/ that belong to project
+// management itself and are NOT mirrors of domain routes.
+const NON_MIRRORED_SUBPATHS = new Set(["archive", "projects"]);
+
+/**
+ * Split a prefixed API path into project slug and the unprefixed route path.
+ *
+ *   /api/projects/psymetric/entities/123  →  { slug: "psymetric", path: "/api/entities/123" }
+ *
+ * Returns null when the path is not a mirrored domain route.
+ */
+export function parseProjectPathPrefix(
+  pathname: string
+): { slug: string; path: string } | null {
+  const match = PROJECT_PREFIX_RE.exec(pathname);
+  if (!match) return null;
+
+  const [, rawSlug, rest] = match;
+  if (NON_MIRRORED_SUBPATHS.has(rest.split("/")[0])) return null;
+
+  let slug: string;
+  try {
+    slug = decodeURIComponent(rawSlug);
+  } catch {
+    return null;
+  }
+
+  return { slug, path: `/api/${rest}` };
+}
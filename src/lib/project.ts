@@ -3,22 +3,23 @@
  *
  * Every domain query must be project-scoped. This module provides:
  * 1. Default project ID for bootstrap/development
- * 2. Project resolution from request headers/cookies
+ * 2. Project resolution from request path prefix/headers/cookies
  * 3. Validation helpers
  *
- * Resolution strategy (Phase 1):
+ * Resolution strategy (Phase 2):
+ *   - Check path prefix /api/projects/:slug/... (forwarded by src/proxy.ts)
  *   - Check X-Project-Id header
  *   - Check X-Project-Slug header (slug → lookup)
  *   - Check projectId cookie
- *   - Fall back to DEFAULT_PROJECT_ID
+ *   - Fall back to DEFAULT_PROJECT_ID — unless strict scoping is enabled
  *
- * Future (Phase 2+):
- *   - Path prefix /api/projects/:slug/...
- *   - No fallback — explicit project required
+ * Strict scoping (PROJECT_SCOPE_STRICT=true):
+ *   - No fallback — explicit project required, unscoped requests get 400
  */
 
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { PROJECT_PATH_SLUG_HEADER } from "@/lib/project-path";
 
 // Deterministic UUID matching the migration seed row
 export const DEFAULT_PROJECT_ID = "00000000-0000-4000-a000-000000000001";
@@ -27,14 +28,26 @@ export const DEFAULT_PROJECT_SLUG = "psymetric";
 const UUID_RE =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 
+/**
+ * Strict scoping disables the DEFAULT_PROJECT_ID fallback.
+ * Enabled with PROJECT_SCOPE_STRICT=true.
+ */
+export function isStrictProjectScoping(): boolean {
+  return process.env.PROJECT_SCOPE_STRICT === "true";
+}
+
 /**
  * Resolve projectId from the request.
  *
  * Priority:
- * 1. X-Project-Id header (UUID)
- * 2. X-Project-Slug header (slug → lookup)
- * 3. projectId cookie
- * 4. DEFAULT_PROJECT_ID
+ * 1. Path prefix /api/projects/:slug/... (slug → lookup)
+ * 2. X-Project-Id header (UUID)
+ * 3. X-Project-Slug header (slug → lookup)
+ * 4. projectId cookie
+ * 5. DEFAULT_PROJECT_ID (disabled in strict mode)
+ *
+ * A path prefix wins over headers; a header that names a different project
+ * is rejected rather than silently ignored.
  *
  * Returns { projectId, error? }
  * If error is set, the caller should return badRequest(error).
@@ -42,8 +55,32 @@ const UUID_RE =
 export async function resolveProjectId(
   request: NextRequest
 ): Promise<{ projectId: string; error?: string }> {
-  // 1. Check X-Project-Id header
   const headerProjectId = request.headers.get("x-project-id");
+  const headerProjectSlug = request.headers.get("x-project-slug");
+
+  // 1. Check path prefix (set by src/proxy.ts, never by clients)
+  const pathProjectSlug = request.headers.get(PROJECT_PATH_SLUG_HEADER);
+  if (pathProjectSlug) {
+    const project = await prisma.project.findUnique({
+      where: { slug: pathProjectSlug },
+      select: { id: true },
+    });
+    if (!project) {
+      return { projectId: "", error: `Project not found: ${pathProjectSlug}` };
+    }
+    if (
+      (headerProjectId && headerProjectId !== project.id) ||
+      (headerProjectSlug && headerProjectSlug !== pathProjectSlug)
+    ) {
+      return {
+        projectId: "",
+        error: "Project path prefix conflicts with X-Project-Id / X-Project-Slug header",
+      };
+    }
+    return { projectId: project.id };
+  }
+
+  // 2. Check X-Project-Id header
   if (headerProjectId) {
     if (!UUID_RE.test(headerProjectId)) {
       return { projectId: "", error: "X-Project-Id must be a valid UUID" };
@@ -58,8 +95,7 @@ export async function resolveProjectId(
     return { projectId: headerProjectId };
   }
 
-  // 2. Check X-Project-Slug header
-  const headerProjectSlug = request.headers.get("x-project-slug");
+  // 3. Check X-Project-Slug header
   if (headerProjectSlug) {
     const project = await prisma.project.findUnique({
       where: { slug: headerProjectSlug },
@@ -71,7 +107,7 @@ export async function resolveProjectId(
     return { projectId: project.id };
   }
 
-  // 3. Check cookie
+  // 4. Check cookie
   const cookieProjectId = request.cookies.get("projectId")?.value;
   if (cookieProjectId && UUID_RE.test(cookieProjectId)) {
     const project = await prisma.project.findUnique({
@@ -84,7 +120,14 @@ export async function resolveProjectId(
     // Cookie has stale/invalid ID — fall through to default
   }
 
-  // 4. Default
+  // 5. Default (Phase 1 behaviour) — refused under strict scoping
+  if (isStrictProjectScoping()) {
+    return {
+      projectId: "",
+      error:
+        "Project scope required: use /api/projects/:slug/..., X-Project-Id, or X-Project-Slug",
+    };
+  }
   return { projectId: DEFAULT_PROJECT_ID };
 }
 
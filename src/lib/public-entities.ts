@@ -0,0 +1,169 @@
+/**
+ * Public Entities — read helpers for the public projection pages
+ *
+ * Phase 1 public pages (/guides, /concepts, /projects, /news) read published
+ * entities directly via Prisma. Only status=published entities are ever
+ * returned, including on the far side of relations.
+ *
+ * "Related" sections come from EntityRelation edges between two content
+ * entities of the same project. Each (relationType, direction) pair has a
+ * reader-facing heading, e.g. GUIDE_EXPLAINS_CONCEPT seen from the concept
+ * is "Guides that explain this concept". Edges to source items,
+ * distribution events and videos are not shown.
+ */
+import type { ContentEntityType, RelationType } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { publicUrlFor } from "@/lib/public-url";
+
+const CONTENT_ENTITY_TYPES: readonly string[] = ["guide", "concept", "project", "news"];
+
+// Headings by relation type: [seen from the "from" entity, seen from the "to" entity]
+const RELATED_SECTION_HEADINGS: Partial<Record<RelationType, [string, string]>> = {
+  GUIDE_EXPLAINS_CONCEPT: ["Concepts this guide explains", "Guides that explain this concept"],
+  GUIDE_USES_CONCEPT: ["Concepts used in this guide", "Guides that use this concept"],
+  PROJECT_IMPLEMENTS_CONCEPT: ["Concepts this project implements", "Projects that implement this concept"],
+  PROJECT_HAS_GUIDE: ["Guides for this project", "Projects using this guide"],
+  NEWS_REFERENCES_CONCEPT: ["Concepts in this story", "News about this concept"],
+  CONCEPT_RELATES_TO_CONCEPT: ["Related concepts", "Related concepts"],
+};
+
+export interface PublicEntityLink {
+  id: string;
+  entityType: ContentEntityType;
+  title: string;
+  summary: string | null;
+  url: string;
+}
+
+export interface RelatedSection {
+  heading: string;
+  entities: PublicEntityLink[];
+}
+
+const PUBLIC_ENTITY_SELECT = {
+  id: true,
+  projectId: true,
+  entityType: true,
+  title: true,
+  slug: true,
+  summary: true,
+  difficulty: true,
+  conceptKind: true,
+  comparisonTargets: true,
+  repoUrl: true,
+  repoDefaultBranch: true,
+  license: true,
+  canonicalUrl: true,
+  publishedAt: true,
+  updatedAt: true,
+} as const;
+
+export async function getPublishedEntity(entityType: ContentEntityType, slug: string) {
+  return prisma.entity.findFirst({
+    where: { entityType, slug, status: "published" },
+    select: PUBLIC_ENTITY_SELECT,
+  });
+}
+
+export async function getPublishedEntities(entityType: ContentEntityType, take = 50) {
+  return prisma.entity.findMany({
+    where: { entityType, status: "published" },
+    orderBy: [{ publishedAt: "desc" }, { id: "desc" }],
+    take,
+    select: PUBLIC_ENTITY_SELECT,
+  });
+}
+
+function toLink(entity: {
+  id: string;
+  entityType: ContentEntityType;
+  title: string;
+  slug: string;
+  summary: string | null;
+  canonicalUrl: string | null;
+}): PublicEntityLink {
+  return {
+    id: entity.id,
+    entityType: entity.entityType,
+    title: entity.title,
+    summary: entity.summary,
+    url: publicUrlFor(entity),
+  };
+}
+
+/**
+ * Published concepts named in a comparison concept's comparisonTargets,
+ * in the stored order.
+ */
+export async function getComparisonTargets(
+  projectId: string,
+  ids: string[]
+): Promise<PublicEntityLink[]> {
+  if (ids.length === 0) return [];
+  const concepts = await prisma.entity.findMany({
+    where: { id: { in: ids }, projectId, entityType: "concept", status: "published" },
+    select: { id: true, entityType: true, title: true, slug: true, summary: true, canonicalUrl: true },
+  });
+  const byId = new Map(concepts.map((c) => [c.id, c]));
+  return ids.flatMap((id) => {
+    const c = byId.get(id);
+    return c ? [toLink(c)] : [];
+  });
+}
+
+/**
+ * Related sections for a published entity, in RELATED_SECTION_HEADINGS order.
+ * Sections with no published counterparts are omitted.
+ */
+export async function getRelatedSections(entity: {
+  id: string;
+  projectId: string;
+}): Promise<RelatedSection[]> {
+  const relationTypes = Object.keys(RELATED_SECTION_HEADINGS) as RelationType[];
+
+  const relations = await prisma.entityRelation.findMany({
+    where: {
+      projectId: entity.projectId,
+      relationType: { in: relationTypes },
+      OR: [{ fromEntityId: entity.id }, { toEntityId: entity.id }],
+    },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+  });
+
+  const edges = relations.flatMap((r) => {
+    const outgoing = r.fromEntityId === entity.id;
+    const otherType = outgoing ? r.toEntityType : r.fromEntityType;
+    if (!CONTENT_ENTITY_TYPES.includes(otherType)) return [];
+    const headings = RELATED_SECTION_HEADINGS[r.relationType]!;
+    return [{
+      heading: outgoing ? headings[0] : headings[1],
+      otherId: outgoing ? r.toEntityId : r.fromEntityId,
+    }];
+  });
+
+  if (edges.length === 0) return [];
+
+  const others = await prisma.entity.findMany({
+    where: {
+      id: { in: [...new Set(edges.map((e) => e.otherId))] },
+      projectId: entity.projectId,
+      status: "published",
+    },
+    select: { id: true, entityType: true, title: true, slug: true, summary: true, canonicalUrl: true },
+  });
+  const byId = new Map(others.map((o) => [o.id, toLink(o)]));
+
+  const sections = new Map<string, PublicEntityLink[]>();
+  for (const headings of Object.values(RELATED_SECTION_HEADINGS)) {
+    for (const heading of headings!) sections.set(heading, []);
+  }
+  for (const edge of edges) {
+    const link = byId.get(edge.otherId);
+    const list = sections.get(edge.heading)!;
+    if (link && !list.some((l) => l.id === link.id)) list.push(link);
+  }
+
+  return [...sections.entries()]
+    .filter(([, entities]) => entities.length > 0)
+    .map(([heading, entities]) => ({ heading, entities }));
+}
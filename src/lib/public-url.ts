@@ -0,0 +1,50 @@
+/**
+ * Public URLs for content entities
+ *
+ * Single source for the public route of each content entity type, shared by
+ * publish (default canonicalUrl) and internal link resolution.
+ */
+import type { ContentEntityType } from "@prisma/client";
+
+export const PUBLIC_PATH_PREFIX: Record<ContentEntityType, string> = {
+  guide: "/guides",
+  concept: "/concepts",
+  project: "/projects",
+  news: "/news",
+};
+
+export function publicPathFor(entityType: ContentEntityType, slug: string): string {
+  return `${PUBLIC_PATH_PREFIX[entityType]}/${slug}`;
+}
+
+/**
+ * canonicalUrl when set, otherwise the default public path.
+ */
+export function publicUrlFor(entity: {
+  entityType: ContentEntityType;
+  slug: string;
+  canonicalUrl: string | null;
+}): string {
+  return entity.canonicalUrl || publicPathFor(entity.entityType, entity.slug);
+}
+
+/**
+ * Origin of the public site, used wherever an absolute URL is required
+ * (sitemaps, feeds, robots.txt). PUBLIC_SITE_URL wins; otherwise the origin
+ * the request arrived on.
+ */
+export function publicSiteOrigin(requestOrigin: string): string {
+  const configured = process.env.PUBLIC_SITE_URL?.trim();
+  return (configured || requestOrigin).replace(/\/+$/, "");
+}
+
+/**
+ * Absolute form of publicUrlFor(). An absolute canonicalUrl is kept as-is.
+ */
+export function absolutePublicUrlFor(
+  entity: { entityType: ContentEntityType; slug: string; canonicalUrl: string | null },
+  origin: string
+): string {
+  const url = publicUrlFor(entity);
+  return /^https?:\/\//i.test(url) ? url : `${origin}${url.startsWith("/") ? "" : "/"}${url}`;
+}
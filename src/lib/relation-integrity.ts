@@ -0,0 +1,292 @@
+/**
+ * Relation Integrity — checks over EntityRelation
+ *
+ * EntityRelation endpoints are polymorphic (entityType + id) with no
+ * foreign keys, so nothing stops a relation from outliving what it points
+ * at. Used by GET/POST /api/integrity/relations. Findings:
+ * - dangling: an endpoint has no row of its stored type in the project
+ *   (deleted, or an entity id whose entityType no longer matches)
+ * - archivedEndpoint: both endpoints exist but one is archived
+ * - disallowed: the relationType is not allowed for the endpoint type pair
+ *   by VALID_RELATION_TYPES_BY_PAIR
+ * - unrelatedPublished: published content entities with no relations in
+ *   either direction
+ * Only dangling edges are safe to remove automatically; the rest need an
+ * operator decision.
+ *
+ * Relations are read in pages by id (RELATION_PAGE_SIZE) and published
+ * entities likewise, so memory does not grow with the project. Summary
+ * counts cover every finding; each list holds at most `limit` of them,
+ * in id order.
+ */
+import { prisma } from "@/lib/prisma";
+import type { EntityRelation, EntityType, Prisma, RelationType } from "@prisma/client";
+import { VALID_RELATION_TYPES_BY_PAIR } from "@/lib/validation";
+import { loadGraphNodeDetails, type GraphNodeDetails } from "@/lib/graph-query";
+
+type Endpoint = "from" | "to";
+
+const RELATION_PAGE_SIZE = 500;
+const ENTITY_PAGE_SIZE = 500;
+
+export const DEFAULT_FINDINGS_LIMIT = 100;
+export const MAX_FINDINGS_LIMIT = 1000;
+
+export interface RelationSummary {
+  id: string;
+  relationType: RelationType;
+  fromEntityType: EntityType;
+  fromEntityId: string;
+  toEntityType: EntityType;
+  toEntityId: string;
+  createdAt: string;
+}
+
+export interface DanglingRelation extends RelationSummary {
+  missingEndpoints: Endpoint[];
+}
+
+export interface ArchivedEndpointRelation extends RelationSummary {
+  archivedEndpoints: Endpoint[];
+}
+
+export interface UnrelatedEntity {
+  id: string;
+  entityType: string;
+  title: string;
+  slug: string;
+}
+
+export interface RelationIntegrityReport {
+  limit: number;
+  summary: {
+    relationCount: number;
+    danglingCount: number;
+    archivedEndpointCount: number;
+    disallowedCount: number;
+    unrelatedPublishedCount: number;
+  };
+  dangling: DanglingRelation[];
+  archivedEndpoint: ArchivedEndpointRelation[];
+  disallowed: RelationSummary[];
+  unrelatedPublished: UnrelatedEntity[];
+}
+
+export function summarizeRelation(relation: EntityRelation): RelationSummary {
+  return {
+    id: relation.id,
+    relationType: relation.relationType,
+    fromEntityType: relation.fromEntityType,
+    fromEntityId: relation.fromEntityId,
+    toEntityType: relation.toEntityType,
+    toEntityId: relation.toEntityId,
+    createdAt: relation.createdAt.toISOString(),
+  };
+}
+
+export function isRelationTypeAllowed(relation: EntityRelation): boolean {
+  const allowed = VALID_RELATION_TYPES_BY_PAIR[relation.fromEntityType]?.[relation.toEntityType];
+  return !!allowed && allowed.includes(relation.relationType);
+}
+
+/**
+ * Classify each endpoint of the given relations as missing, archived or ok.
+ * Endpoints are looked up by entityType + id, so an id stored under two
+ * types is checked against each. Keyed by relation id; relations with
+ * neither finding are omitted.
+ */
+async function checkEndpoints(
+  projectId: string,
+  relations: EntityRelation[]
+): Promise<Map<string, { missing: Endpoint[]; archived: Endpoint[] }>> {
+  const refKey = (entityType: EntityType, id: string) => `${entityType}:${id}`;
+
+  const refs = new Map<string, { id: string; entityType: EntityType }>();
+  for (const relation of relations) {
+    refs.set(refKey(relation.fromEntityType, relation.fromEntityId), {
+      id: relation.fromEntityId,
+      entityType: relation.fromEntityType,
+    });
+    refs.set(refKey(relation.toEntityType, relation.toEntityId), {
+      id: relation.toEntityId,
+      entityType: relation.toEntityType,
+    });
+  }
+  const details = await loadGraphNodeDetails(projectId, [...refs.values()]);
+
+  // Found rows by their actual type; a ref of any other type is missing
+  const nodes = new Map<string, GraphNodeDetails>();
+  for (const node of details.values()) {
+    if (!node.missing) nodes.set(refKey(node.entityType, node.id), node);
+  }
+
+  const findings = new Map<string, { missing: Endpoint[]; archived: Endpoint[] }>();
+  for (const relation of relations) {
+    const missing: Endpoint[] = [];
+    const archived: Endpoint[] = [];
+    for (const [endpoint, id, entityType] of [
+      ["from", relation.fromEntityId, relation.fromEntityType],
+      ["to", relation.toEntityId, relation.toEntityType],
+    ] as const) {
+      const node = nodes.get(refKey(entityType, id));
+      if (!node) {
+        missing.push(endpoint);
+      } else if (node.status === "archived") {
+        archived.push(endpoint);
+      }
+    }
+    if (missing.length > 0 || archived.length > 0) {
+      findings.set(relation.id, { missing, archived });
+    }
+  }
+  return findings;
+}
+
+/**
+ * Relations in id order, a page at a time. Keyed on id > last rather than a
+ * Prisma cursor so a row deleted concurrently cannot break the next read.
+ */
+async function* relationPages(
+  where: Prisma.EntityRelationWhereInput
+): AsyncGenerator<EntityRelation[]> {
+  let after: string | null = null;
+  while (true) {
+    const page: EntityRelation[] = await prisma.entityRelation.findMany({
+      where: after ? { AND: [where, { id: { gt: after } }] } : where,
+      orderBy: { id: "asc" },
+      take: RELATION_PAGE_SIZE,
+    });
+    if (page.length > 0) yield page;
+    if (page.length < RELATION_PAGE_SIZE) return;
+    after = page[page.length - 1].id;
+  }
+}
+
+async function classifyPage(projectId: string, relations: EntityRelation[]) {
+  const findings = await checkEndpoints(projectId, relations);
+
+  const dangling: DanglingRelation[] = [];
+  const archivedEndpoint: ArchivedEndpointRelation[] = [];
+  const disallowed: RelationSummary[] = [];
+
+  for (const relation of relations) {
+    const finding = findings.get(relation.id);
+    if (finding && finding.missing.length > 0) {
+      dangling.push({ ...summarizeRelation(relation), missingEndpoints: finding.missing });
+    } else if (finding && finding.archived.length > 0) {
+      archivedEndpoint.push({ ...summarizeRelation(relation), archivedEndpoints: finding.archived });
+    }
+    if (!isRelationTypeAllowed(relation)) {
+      disallowed.push(summarizeRelation(relation));
+    }
+  }
+
+  return { dangling, archivedEndpoint, disallowed };
+}
+
+/**
+ * Dangling relations, one non-empty batch per page of relations read. Used
+ * by the fix mode, which collects every batch and then removes them all in
+ * one transaction.
+ */
+export async function* danglingRelationPages(
+  projectId: string
+): AsyncGenerator<DanglingRelation[]> {
+  for await (const page of relationPages({ projectId })) {
+    const { dangling } = await classifyPage(projectId, page);
+    if (dangling.length > 0) yield dangling;
+  }
+}
+
+/**
+ * Published entities with no relation in either direction, one page of
+ * entities at a time; relation presence is checked per page with groupBy.
+ */
+async function findUnrelatedPublished(
+  projectId: string,
+  limit: number
+): Promise<{ count: number; entities: UnrelatedEntity[] }> {
+  let count = 0;
+  const entities: UnrelatedEntity[] = [];
+  let after: string | null = null;
+
+  while (true) {
+    const page: UnrelatedEntity[] = await prisma.entity.findMany({
+      where: { projectId, status: "published", ...(after ? { id: { gt: after } } : {}) },
+      select: { id: true, entityType: true, title: true, slug: true },
+      orderBy: { id: "asc" },
+      take: ENTITY_PAGE_SIZE,
+    });
+    if (page.length === 0) break;
+
+    const ids = page.map((entity) => entity.id);
+    const [asFrom, asTo] = await Promise.all([
+      prisma.entityRelation.groupBy({
+        by: ["fromEntityId"],
+        where: { projectId, fromEntityId: { in: ids } },
+      }),
+      prisma.entityRelation.groupBy({
+        by: ["toEntityId"],
+        where: { projectId, toEntityId: { in: ids } },
+      }),
+    ]);
+    const related = new Set([
+      ...asFrom.map((row) => row.fromEntityId),
+      ...asTo.map((row) => row.toEntityId),
+    ]);
+
+    for (const entity of page) {
+      if (related.has(entity.id)) continue;
+      count++;
+      if (entities.length < limit) entities.push(entity);
+    }
+
+    if (page.length < ENTITY_PAGE_SIZE) break;
+    after = page[page.length - 1].id;
+  }
+
+  return { count, entities };
+}
+
+export async function buildRelationIntegrityReport(
+  projectId: string,
+  limit: number = DEFAULT_FINDINGS_LIMIT
+): Promise<RelationIntegrityReport> {
+  let relationCount = 0;
+  const counts = { dangling: 0, archivedEndpoint: 0, disallowed: 0 };
+  const dangling: DanglingRelation[] = [];
+  const archivedEndpoint: ArchivedEndpointRelation[] = [];
+  const disallowed: RelationSummary[] = [];
+
+  const keep = <T>(list: T[], items: T[]) => {
+    list.push(...items.slice(0, Math.max(0, limit - list.length)));
+  };
+
+  for await (const page of relationPages({ projectId })) {
+    relationCount += page.length;
+    const found = await classifyPage(projectId, page);
+    counts.dangling += found.dangling.length;
+    counts.archivedEndpoint += found.archivedEndpoint.length;
+    counts.disallowed += found.disallowed.length;
+    keep(dangling, found.dangling);
+    keep(archivedEndpoint, found.archivedEndpoint);
+    keep(disallowed, found.disallowed);
+  }
+
+  const unrelated = await findUnrelatedPublished(projectId, limit);
+
+  return {
+    limit,
+    summary: {
+      relationCount,
+      danglingCount: counts.dangling,
+      archivedEndpointCount: counts.archivedEndpoint,
+      disallowedCount: counts.disallowed,
+      unrelatedPublishedCount: unrelated.count,
+    },
+    dangling,
+    archivedEndpoint,
+    disallowed,
+    unrelatedPublished: unrelated.entities,
+  };
+}
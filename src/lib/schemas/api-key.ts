@@ -0,0 +1,22 @@
+import { z } from "zod";
+import { ActorType } from "@prisma/client";
+
+/**
+ * POST /api/api-keys — Create API key
+ * A key is granted either an explicit project list or allProjects, never both.
+ */
+export const CreateApiKeySchema = z
+  .object({
+    name: z.string().trim().min(1, "name is required"),
+    actorType: z.nativeEnum(ActorType),
+    projectIds: z.array(z.string().uuid("projectIds must be UUIDs")).optional(),
+    allProjects: z.boolean().optional(),
+  })
+  .strict()
+  .refine(
+    (data) =>
+      data.allProjects === true
+        ? (data.projectIds ?? []).length === 0
+        : (data.projectIds ?? []).length > 0,
+    "Provide either a non-empty projectIds list or allProjects: true"
+  );
@@ -0,0 +1,29 @@
+import { z } from "zod";
+import {
+  DEFAULT_CAPTURE_TOKEN_MAX_USES,
+  MAX_CAPTURE_TOKEN_MAX_USES,
+  MAX_CAPTURE_TOKEN_TTL_HOURS,
+} from "@/lib/capture-tokens";
+
+/**
+ * POST /api/capture-tokens — Mint a capture token
+ * maxUses omitted = DEFAULT_CAPTURE_TOKEN_MAX_USES captures; every token is
+ * limited, so a leaked token cannot capture without bound until it expires.
+ */
+export const CreateCaptureTokenSchema = z
+  .object({
+    label: z.string().trim().min(1).max(80, "label must be at most 80 characters").optional(),
+    ttlHours: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_CAPTURE_TOKEN_TTL_HOURS, `ttlHours must be at most ${MAX_CAPTURE_TOKEN_TTL_HOURS}`)
+      .optional(),
+    maxUses: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_CAPTURE_TOKEN_MAX_USES, `maxUses must be at most ${MAX_CAPTURE_TOKEN_MAX_USES}`)
+      .default(DEFAULT_CAPTURE_TOKEN_MAX_USES),
+  })
+  .strict();
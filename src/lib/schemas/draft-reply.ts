@@ -1,8 +1,14 @@
 import { z } from "zod";
 
-export const CreateDraftReplySchema = z
-  .object({
-    count: z.number().int().min(1).max(5).default(1),
-    style: z.enum(["short", "medium", "thread"]).default("short"),
-  })
-  .strict();
+/**
+ * POST /api/source-items/[id]/draft-replies
+ * maxCount is per project (SystemConfig: draft_reply_max_count).
+ */
+export function buildCreateDraftReplySchema(maxCount: number) {
+  return z
+    .object({
+      count: z.number().int().min(1).max(maxCount).default(1),
+      style: z.enum(["short", "medium", "thread"]).default("short"),
+    })
+    .strict();
+}
@@ -0,0 +1,20 @@
+import { z } from "zod";
+import { MAX_CONTENT_BODY_LENGTH } from "@/lib/entity-content";
+
+const SHA256_HEX_RE = /^[0-9a-f]{64}$/;
+
+/**
+ * PUT /api/entities/[id]/content — Write a new body version
+ * baseHash: hash of the version the client edited; null = expects no body yet.
+ */
+export const PutEntityContentSchema = z
+  .object({
+    body: z.string().max(MAX_CONTENT_BODY_LENGTH),
+    format: z.enum(["markdown", "mdx"]).default("markdown"),
+    baseHash: z
+      .string()
+      .regex(SHA256_HEX_RE, "baseHash must be a SHA-256 hex digest")
+      .nullable()
+      .optional(),
+  })
+  .strict();
@@ -0,0 +1,55 @@
+import { z } from "zod";
+
+/**
+ * Project slugs are lowercase, hyphen-separated, and URL-safe.
+ * Same shape produced by slugify() in lib/validation.ts.
+ */
+const PROJECT_SLUG_RE = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const projectSlug = z
+  .string()
+  .regex(
+    PROJECT_SLUG_RE,
+    "slug must be lowercase letters, numbers, and single hyphens"
+  );
+
+/**
+ * POST /api/projects — Create project
+ * slug is derived from name when omitted.
+ */
+export const CreateProjectSchema = z
+  .object({
+    name: z.string().trim().min(1, "name is required"),
+    slug: projectSlug.optional(),
+    description: z.string().optional(),
+  })
+  .strict();
+
+/**
+ * PATCH /api/projects/[id] — Update project
+ * At least one field is required; description may be cleared with null.
+ */
+export const UpdateProjectSchema = z
+  .object({
+    name: z.string().trim().min(1, "name cannot be empty").optional(),
+    slug: projectSlug.optional(),
+    description: z.string().nullable().optional(),
+  })
+  .strict()
+  .refine(
+    (data) =>
+      data.name !== undefined ||
+      data.slug !== undefined ||
+      data.description !== undefined,
+    "At least one of name, slug, description is required"
+  );
+
+/**
+ * POST /api/projects/[id]/archive — Archive project
+ * force=true archives even when non-archived entities remain.
+ */
+export const ArchiveProjectSchema = z
+  .object({
+    force: z.boolean().optional(),
+  })
+  .strict();
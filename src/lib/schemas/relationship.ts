@@ -4,8 +4,62 @@ import { RelationType } from "@prisma/client";
 const UUID_RE =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 
+export const MAX_RELATION_NOTES_LENGTH = 2000;
+export const MAX_CITED_PASSAGE_LENGTH = 4000;
+export const MAX_ANCHOR_LENGTH = 200;
+
+/**
+ * EntityRelation.metadata — why the target backs the relationship.
+ * citedPassage: the quoted text; anchor: where it is (section title,
+ * #fragment, page or timestamp).
+ */
+export const RelationMetadataSchema = z
+  .object({
+    citedPassage: z
+      .string()
+      .trim()
+      .min(1, "citedPassage cannot be empty")
+      .max(MAX_CITED_PASSAGE_LENGTH)
+      .optional(),
+    anchor: z.string().trim().min(1, "anchor cannot be empty").max(MAX_ANCHOR_LENGTH).optional(),
+  })
+  .strict();
+
+export type RelationMetadata = z.infer<typeof RelationMetadataSchema>;
+
+const notes = z.string().trim().max(MAX_RELATION_NOTES_LENGTH);
+
 export const CreateRelationshipSchema = z.object({
   fromEntityId: z.string().regex(UUID_RE, "fromEntityId must be a valid UUID"),
   toEntityId: z.string().regex(UUID_RE, "toEntityId must be a valid UUID"),
   relationType: z.nativeEnum(RelationType),
+  notes: notes.optional(),
+  metadata: RelationMetadataSchema.optional(),
 });
+
+// null clears a field; metadata replaces the stored object as a whole
+export const UpdateRelationshipSchema = z
+  .object({
+    notes: notes.nullable().optional(),
+    metadata: RelationMetadataSchema.nullable().optional(),
+  })
+  .strict()
+  .refine(
+    (data) => data.notes !== undefined || data.metadata !== undefined,
+    "At least one of notes, metadata is required"
+  );
+
+export const MAX_BATCH_RELATIONSHIPS = 100;
+
+export const BatchCreateRelationshipsSchema = z
+  .object({
+    mode: z.enum(["all_or_nothing", "best_effort"]).default("all_or_nothing"),
+    relationships: z
+      .array(CreateRelationshipSchema)
+      .min(1, "relationships must not be empty")
+      .max(
+        MAX_BATCH_RELATIONSHIPS,
+        `at most ${MAX_BATCH_RELATIONSHIPS} relationships per request`
+      ),
+  })
+  .strict();
@@ -0,0 +1,38 @@
+import { z } from "zod";
+import { PlatformSchema } from "./source-item";
+
+const feedUrl = z
+  .string()
+  .url()
+  .refine((url) => /^https?:\/\//i.test(url), "feedUrl must be an http(s) URL");
+
+/**
+ * POST /api/source-feeds — Create source feed
+ */
+export const CreateSourceFeedSchema = z
+  .object({
+    name: z.string().trim().min(1, "name is required"),
+    feedUrl,
+    platform: PlatformSchema,
+    platformLabel: z.string().trim().min(1).optional(),
+    isActive: z.boolean().optional(),
+  })
+  .strict();
+
+/**
+ * PATCH /api/source-feeds/[id] — Update source feed
+ * At least one field is required; platformLabel may be cleared with null.
+ */
+export const UpdateSourceFeedSchema = z
+  .object({
+    name: z.string().trim().min(1, "name cannot be empty").optional(),
+    feedUrl: feedUrl.optional(),
+    platform: PlatformSchema.optional(),
+    platformLabel: z.string().trim().min(1).nullable().optional(),
+    isActive: z.boolean().optional(),
+  })
+  .strict()
+  .refine(
+    (data) => Object.values(data).some((value) => value !== undefined),
+    "At least one of name, feedUrl, platform, platformLabel, isActive is required"
+  );
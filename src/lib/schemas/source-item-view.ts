@@ -0,0 +1,45 @@
+import { z } from "zod";
+import { MAX_TAGS_PER_ITEM, PlatformSchema, TagSchema } from "./source-item";
+
+/**
+ * Filters a saved view applies to GET /api/source-items.
+ * Same names and values as the list query parameters.
+ */
+export const SourceItemViewFiltersSchema = z
+  .object({
+    status: z.enum(["ingested", "triaged", "used", "archived"]).optional(),
+    sourceType: z.enum(["rss", "webpage", "comment", "reply", "video", "other"]).optional(),
+    platform: PlatformSchema.optional(),
+    tags: z.array(TagSchema).max(MAX_TAGS_PER_ITEM).optional(),
+    tagMode: z.enum(["all", "any"]).optional(),
+  })
+  .strict();
+
+const name = z.string().trim().min(1, "name is required").max(60, "name must be at most 60 characters");
+
+/**
+ * POST /api/source-item-views — Create saved view
+ */
+export const CreateSourceItemViewSchema = z
+  .object({
+    name,
+    filters: SourceItemViewFiltersSchema,
+    position: z.number().int().min(0).optional(),
+  })
+  .strict();
+
+/**
+ * PATCH /api/source-item-views/[id] — Update saved view
+ * At least one field is required; filters are replaced, not merged.
+ */
+export const UpdateSourceItemViewSchema = z
+  .object({
+    name: name.optional(),
+    filters: SourceItemViewFiltersSchema.optional(),
+    position: z.number().int().min(0).optional(),
+  })
+  .strict()
+  .refine(
+    (data) => Object.values(data).some((value) => value !== undefined),
+    "At least one of name, filters, position is required"
+  );
@@ -1,22 +1,136 @@
 import { z } from "zod";
+import { MAX_PROMOTION_SOURCES } from "@/lib/source-promotion";
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+export const PlatformSchema = z.enum([
+  "website",
+  "x",
+  "youtube",
+  "github",
+  "reddit",
+  "hackernews",
+  "substack",
+  "linkedin",
+  "discord",
+  "other",
+]);
+
+/**
+ * Snapshot sent inline with a JSON capture request. Multipart requests
+ * upload the same bytes as a `snapshot` file part instead.
+ */
+export const CaptureSnapshotSchema = z
+  .object({
+    mimeType: z.string().min(1),
+    contentBase64: z
+      .string()
+      .min(1)
+      .regex(/^[A-Za-z0-9+/\s]*={0,2}\s*$/, "contentBase64 must be base64"),
+  })
+  .strict();
 
 export const CaptureSourceItemSchema = z.object({
   sourceType: z.enum(["rss", "webpage", "comment", "reply", "video", "other"]),
   url: z.string().url(),
   operatorIntent: z.string().min(1),
-  platform: z
-    .enum([
-      "website",
-      "x",
-      "youtube",
-      "github",
-      "reddit",
-      "hackernews",
-      "substack",
-      "linkedin",
-      "discord",
-      "other",
-    ])
-    .optional(),
+  platform: PlatformSchema.optional(),
   notes: z.string().optional(),
+  snapshot: CaptureSnapshotSchema.optional(),
 });
+
+export const MarkDuplicateSchema = z
+  .object({
+    duplicateOfId: z.string().regex(UUID_RE, "duplicateOfId must be a valid UUID"),
+    notes: z.string().optional(),
+  })
+  .strict();
+
+export const BULK_STATUS_MAX_IDS = 100;
+
+export const BulkStatusSchema = z
+  .object({
+    ids: z
+      .array(z.string().regex(UUID_RE, "ids must be valid UUIDs"))
+      .min(1, "ids must not be empty")
+      .max(BULK_STATUS_MAX_IDS, `at most ${BULK_STATUS_MAX_IDS} ids per request`)
+      .refine((ids) => new Set(ids).size === ids.length, "ids must be unique"),
+    status: z.enum(["ingested", "triaged", "archived"]),
+    notes: z.string().optional(),
+  })
+  .strict();
+
+export const MAX_TAGS_PER_ITEM = 20;
+
+/**
+ * Source item tag — trimmed, lowercased, inner whitespace collapsed.
+ * Letters, digits, spaces and _ . / : - ; must start with a letter or digit.
+ */
+export const TagSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .transform((tag) => tag.replace(/\s+/g, " "))
+  .pipe(
+    z
+      .string()
+      .min(1, "tag cannot be empty")
+      .max(50, "tag must be at most 50 characters")
+      .regex(/^[\p{L}\p{N}][\p{L}\p{N} _./:-]*$/u, "tag contains invalid characters")
+  );
+
+/**
+ * PATCH /api/source-items/[id]/tags — Add and/or remove tags
+ */
+export const UpdateSourceItemTagsSchema = z
+  .object({
+    add: z.array(TagSchema).max(MAX_TAGS_PER_ITEM).optional(),
+    remove: z.array(TagSchema).max(MAX_TAGS_PER_ITEM).optional(),
+  })
+  .strict()
+  .refine(
+    (data) => (data.add?.length ?? 0) + (data.remove?.length ?? 0) > 0,
+    "At least one tag to add or remove is required"
+  );
+
+/**
+ * POST /api/source-items/browser-capture — Bookmarklet / share-target capture
+ * text is the selection (bookmarklet) or shared text (share target).
+ */
+export const BrowserCaptureSchema = z
+  .object({
+    url: z.string().url(),
+    title: z.string().trim().max(500).optional(),
+    text: z.string().trim().max(10000).optional(),
+    operatorIntent: z.string().trim().min(1, "operatorIntent is required"),
+    notes: z.string().optional(),
+    via: z.enum(["bookmarklet", "share_target", "manual"]).default("manual"),
+  })
+  .strict();
+
+/**
+ * POST /api/source-items/[id]/promote — Promote sources to a news draft
+ * title and summary default to the primary source's extracted fields.
+ */
+export const PromoteSourceItemSchema = z
+  .object({
+    title: z.string().trim().min(1, "title cannot be empty").optional(),
+    summary: z.string().trim().optional(),
+    slug: z
+      .string()
+      .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "slug must be lowercase words separated by hyphens")
+      .optional(),
+    sourceItemIds: z
+      .array(z.string().regex(UUID_RE, "sourceItemIds must be valid UUIDs"))
+      .max(MAX_PROMOTION_SOURCES - 1, `at most ${MAX_PROMOTION_SOURCES - 1} additional sources`)
+      .refine((ids) => new Set(ids).size === ids.length, "sourceItemIds must be unique")
+      .optional(),
+    conceptIds: z
+      .array(z.string().regex(UUID_RE, "conceptIds must be valid UUIDs"))
+      .max(50, "at most 50 conceptIds")
+      .refine((ids) => new Set(ids).size === ids.length, "conceptIds must be unique")
+      .optional(),
+    llmAssisted: z.boolean().optional(),
+  })
+  .strict();
@@ -0,0 +1,16 @@
+import { z } from "zod";
+import { CONFIG_KEYS } from "@/lib/system-config";
+
+/**
+ * PUT /api/system-config — Set or clear one config value
+ * scope "project" targets the resolved project's override;
+ * scope "default" targets the value shared by all projects.
+ * value null removes the entry so resolution falls through.
+ */
+export const UpdateSystemConfigSchema = z
+  .object({
+    key: z.enum(CONFIG_KEYS as [string, ...string[]]),
+    scope: z.enum(["project", "default"]),
+    value: z.number().nullable(),
+  })
+  .strict();
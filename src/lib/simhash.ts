@@ -0,0 +1,75 @@
+/**
+ * SimHash — near-duplicate fingerprints for extracted source text
+ *
+ * Text is lowercased, split into word tokens, and turned into overlapping
+ * 4-word shingles. Each shingle is hashed to 64 bits (first 8 bytes of its
+ * MD5); the fingerprint sets bit i when more shingles have bit i set than
+ * not. Syndicated copies of the same story differ in a few shingles (bylines,
+ * boilerplate), so their fingerprints differ in a few bits.
+ *
+ * Fingerprints are stored as 16-char lowercase hex (SourceItem.simhash).
+ * similarity = 1 - hammingDistance / 64.
+ */
+import { createHash } from "node:crypto";
+
+export const SHINGLE_SIZE = 4;
+
+/** Texts with fewer tokens than this get no fingerprint — too short to compare */
+export const MIN_FINGERPRINT_TOKENS = 20;
+
+/** ≥ 0.9 means at most 6 of 64 bits differ */
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.9;
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+export function shingles(text: string, size: number = SHINGLE_SIZE): string[] {
+  const tokens = tokenize(text);
+  if (tokens.length < size) return tokens.length > 0 ? [tokens.join(" ")] : [];
+  const result: string[] = [];
+  for (let i = 0; i + size <= tokens.length; i++) {
+    result.push(tokens.slice(i, i + size).join(" "));
+  }
+  return result;
+}
+
+function hash64(value: string): bigint {
+  return createHash("md5").update(value).digest().readBigUInt64BE(0);
+}
+
+/**
+ * 64-bit SimHash of the text as hex, or null when the text has fewer than
+ * MIN_FINGERPRINT_TOKENS tokens.
+ */
+export function simhash(text: string): string | null {
+  if (tokenize(text).length < MIN_FINGERPRINT_TOKENS) return null;
+
+  const weights = new Array<number>(64).fill(0);
+  for (const shingle of shingles(text)) {
+    const h = hash64(shingle);
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (h >> BigInt(bit)) & BigInt(1) ? 1 : -1;
+    }
+  }
+
+  let fingerprint = BigInt(0);
+  for (let bit = 0; bit < 64; bit++) {
+    if (weights[bit] > 0) fingerprint |= BigInt(1) << BigInt(bit);
+  }
+  return fingerprint.toString(16).padStart(16, "0");
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let x = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (x > BigInt(0)) {
+    x &= x - BigInt(1);
+    count++;
+  }
+  return count;
+}
+
+export function similarity(a: string, b: string): number {
+  return 1 - hammingDistance(a, b) / 64;
+}
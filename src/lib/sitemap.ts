@@ -0,0 +1,133 @@
+/**
+ * Sitemaps — generated from published Entity rows
+ *
+ * Per docs/site-architecture/05-PUBLISHING-AND-INDEXING-RULES.md:
+ * - Only status=published entities of non-archived projects are listed
+ * - <loc> is canonicalUrl when set, otherwise the default public path
+ * - <lastmod> is the later of publishedAt and updatedAt
+ *
+ * Each project has its own sitemap, split into numbered pages of at most
+ * SITEMAP_MAX_URLS URLs (/sitemaps/{projectSlug}/{page}.xml). /sitemap.xml
+ * is a single urlset while every published entity fits in one file, and a
+ * sitemap index over the per-project pages once it does not.
+ */
+import { prisma } from "@/lib/prisma";
+import { absolutePublicUrlFor } from "@/lib/public-url";
+import { XML_DECLARATION, escapeXml } from "@/lib/xml";
+
+// sitemaps.org protocol limit per sitemap file (and per sitemap index)
+export const SITEMAP_MAX_URLS = 50_000;
+
+const SITEMAP_NS = "http://www.sitemaps.org/schemas/sitemap/0.9";
+
+export interface SitemapUrl {
+  loc: string;
+  lastmod: Date;
+}
+
+export interface SitemapRef {
+  loc: string;
+  lastmod: Date | null;
+}
+
+export interface ProjectSitemapSummary {
+  projectId: string;
+  slug: string;
+  urlCount: number;
+  pageCount: number;
+  lastmod: Date | null;
+}
+
+const SITEMAP_ENTITY_SELECT = {
+  entityType: true,
+  slug: true,
+  canonicalUrl: true,
+  publishedAt: true,
+  updatedAt: true,
+} as const;
+
+function lastmodOf(entity: { publishedAt: Date | null; updatedAt: Date }): Date {
+  return entity.publishedAt && entity.publishedAt > entity.updatedAt
+    ? entity.publishedAt
+    : entity.updatedAt;
+}
+
+/**
+ * Non-archived projects that have at least one published entity,
+ * ordered by slug.
+ */
+export async function getProjectSitemapSummaries(): Promise<ProjectSitemapSummary[]> {
+  const projects = await prisma.project.findMany({
+    where: { archivedAt: null },
+    orderBy: { slug: "asc" },
+    select: { id: true, slug: true },
+  });
+  if (projects.length === 0) return [];
+
+  const stats = await prisma.entity.groupBy({
+    by: ["projectId"],
+    where: { status: "published", projectId: { in: projects.map((p) => p.id) } },
+    _count: { _all: true },
+    _max: { updatedAt: true, publishedAt: true },
+  });
+  const byProject = new Map(stats.map((s) => [s.projectId, s]));
+
+  return projects.flatMap((project) => {
+    const s = byProject.get(project.id);
+    if (!s || s._count._all === 0) return [];
+    const { updatedAt, publishedAt } = s._max;
+    return [{
+      projectId: project.id,
+      slug: project.slug,
+      urlCount: s._count._all,
+      pageCount: Math.ceil(s._count._all / SITEMAP_MAX_URLS),
+      lastmod: updatedAt ? lastmodOf({ publishedAt, updatedAt }) : null,
+    }];
+  });
+}
+
+/**
+ * URLs for one page (1-based) of a project's sitemap.
+ */
+export async function getProjectSitemapUrls(
+  projectId: string,
+  page: number,
+  origin: string
+): Promise<SitemapUrl[]> {
+  const entities = await prisma.entity.findMany({
+    where: { projectId, status: "published" },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    skip: (page - 1) * SITEMAP_MAX_URLS,
+    take: SITEMAP_MAX_URLS,
+    select: SITEMAP_ENTITY_SELECT,
+  });
+  return entities.map((e) => ({
+    loc: absolutePublicUrlFor(e, origin),
+    lastmod: lastmodOf(e),
+  }));
+}
+
+export function projectSitemapPath(projectSlug: string, page: number): string {
+  return `/sitemaps/${encodeURIComponent(projectSlug)}/${page}.xml`;
+}
+
+export function buildUrlset(urls: SitemapUrl[]): string {
+  const lines = [XML_DECLARATION, `<urlset xmlns="${SITEMAP_NS}">`];
+  for (const url of urls) {
+    lines.push(
+      `<url><loc>${escapeXml(url.loc)}</loc><lastmod>${url.lastmod.toISOString()}</lastmod></url>`
+    );
+  }
+  lines.push("</urlset>");
+  return lines.join("\n");
+}
+
+export function buildSitemapIndex(sitemaps: SitemapRef[]): string {
+  const lines = [XML_DECLARATION, `<sitemapindex xmlns="${SITEMAP_NS}">`];
+  for (const sitemap of sitemaps) {
+    const lastmod = sitemap.lastmod ? `<lastmod>${sitemap.lastmod.toISOString()}</lastmod>` : "";
+    lines.push(`<sitemap><loc>${escapeXml(sitemap.loc)}</loc>${lastmod}</sitemap>`);
+  }
+  lines.push("</sitemapindex>");
+  return lines.join("\n");
+}
@@ -0,0 +1,78 @@
+/**
+ * Source Snapshots — archived copies of captured pages
+ *
+ * A snapshot is the raw bytes of an HTML page, PDF, or plain-text capture,
+ * stored content-addressed in the blob store (lib/blob-store.ts) under
+ * snapshots/{projectId}/{sha256}. SourceItem keeps the pointer
+ * (snapshotRef), snapshotMime, snapshotBytes, and contentHash = the same
+ * SHA-256, so the download endpoint can verify the bytes it serves.
+ */
+import { createHash } from "node:crypto";
+import { getBlobStore, type BlobStore } from "@/lib/blob-store";
+
+export const SNAPSHOT_MIME_TYPES = ["text/html", "application/pdf", "text/plain"] as const;
+
+export type SnapshotMime = (typeof SNAPSHOT_MIME_TYPES)[number];
+
+export const MAX_SNAPSHOT_BYTES = 10 * 1024 * 1024;
+
+const SNAPSHOT_EXTENSIONS: Record<SnapshotMime, string> = {
+  "text/html": "html",
+  "application/pdf": "pdf",
+  "text/plain": "txt",
+};
+
+export interface StoredSnapshot {
+  snapshotRef: string;
+  snapshotMime: SnapshotMime;
+  snapshotBytes: number;
+  contentHash: string;
+}
+
+/**
+ * Lowercased media type without parameters ("text/html; charset=utf-8" →
+ * "text/html"), or null when it is not an accepted snapshot type.
+ */
+export function normalizeSnapshotMime(raw: string | null | undefined): SnapshotMime | null {
+  const mime = (raw ?? "").split(";")[0].trim().toLowerCase();
+  return (SNAPSHOT_MIME_TYPES as readonly string[]).includes(mime) ? (mime as SnapshotMime) : null;
+}
+
+/**
+ * Error message for unacceptable snapshot bytes, or null when acceptable.
+ */
+export function validateSnapshotBytes(bytes: Uint8Array, mime: SnapshotMime): string | null {
+  if (bytes.length === 0) return "snapshot is empty";
+  if (bytes.length > MAX_SNAPSHOT_BYTES) {
+    return `snapshot exceeds ${MAX_SNAPSHOT_BYTES} bytes`;
+  }
+  if (mime === "application/pdf" && Buffer.from(bytes.subarray(0, 5)).toString("latin1") !== "%PDF-") {
+    return "snapshot declared as application/pdf is not a PDF";
+  }
+  return null;
+}
+
+export function sha256Hex(bytes: Uint8Array): string {
+  return createHash("sha256").update(bytes).digest("hex");
+}
+
+export function snapshotFilename(sourceItemId: string, mime: string | null): string {
+  const normalized = normalizeSnapshotMime(mime);
+  return `snapshot-${sourceItemId}.${normalized ? SNAPSHOT_EXTENSIONS[normalized] : "bin"}`;
+}
+
+/**
+ * Write snapshot bytes to the blob store. Content-addressed, so storing the
+ * same bytes twice is a no-op in effect.
+ */
+export async function storeSnapshot(
+  projectId: string,
+  bytes: Uint8Array,
+  mime: SnapshotMime,
+  store: BlobStore = getBlobStore()
+): Promise<StoredSnapshot> {
+  const contentHash = sha256Hex(bytes);
+  const snapshotRef = `snapshots/${projectId}/${contentHash}`;
+  await store.put(snapshotRef, bytes);
+  return { snapshotRef, snapshotMime: mime, snapshotBytes: bytes.length, contentHash };
+}
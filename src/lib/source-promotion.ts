@@ -0,0 +1,122 @@
+/**
+ * Source Promotion — news draft prefill and concept link suggestions
+ *
+ * Used by GET/POST /api/source-items/[id]/promote. Pure functions: the
+ * route loads the source items and concepts, these derive the draft.
+ *
+ * Prefill comes from the primary source's extracted fields (title →
+ * og:title / <title>, excerpt → og:description / start of text; see
+ * lib/page-extraction.ts). A source without a title falls back to its URL.
+ *
+ * Concept suggestions are exact phrase matches: a concept is suggested
+ * when its title, or its slug read as words ("prompt-caching" → "prompt
+ * caching"), appears in the sources' titles, excerpts or extracted text.
+ * Matching is case-insensitive on whole words. Suggestions are never
+ * linked automatically; the operator picks which to keep.
+ */
+import { slugify } from "@/lib/validation";
+
+export const MAX_PROMOTION_SOURCES = 20;
+export const MAX_CONCEPT_SUGGESTIONS = 20;
+
+// Shorter phrases ("AI", "ML") match too much unrelated text
+const MIN_MATCH_PHRASE_LENGTH = 3;
+
+export interface PromotionSource {
+  id: string;
+  url: string;
+  title: string | null;
+  excerpt: string | null;
+  extractedText: string | null;
+}
+
+export interface PromotionDraft {
+  title: string;
+  summary: string | null;
+  slug: string;
+}
+
+export interface ConceptCandidate {
+  id: string;
+  title: string;
+  slug: string;
+}
+
+export interface ConceptSuggestion extends ConceptCandidate {
+  matchedOn: "title" | "slug";
+  occurrences: number;
+}
+
+function titleFromUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.hostname}${parsed.pathname === "/" ? "" : parsed.pathname}`;
+  } catch {
+    return url;
+  }
+}
+
+export function buildPromotionDraft(primary: PromotionSource): PromotionDraft {
+  const title = primary.title?.trim() || titleFromUrl(primary.url);
+  return {
+    title,
+    summary: primary.excerpt?.trim() || null,
+    slug: slugify(title),
+  };
+}
+
+// Lowercase words separated by single spaces, padded so every word has a
+// space on both sides: whole-word matching becomes a substring search.
+function normalizeForMatch(text: string): string {
+  const words = text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+  return words ? ` ${words} ` : "";
+}
+
+function countOccurrences(haystack: string, phrase: string): number {
+  if (phrase.length < MIN_MATCH_PHRASE_LENGTH + 2) return 0;
+  let count = 0;
+  let index = haystack.indexOf(phrase);
+  while (index !== -1) {
+    count++;
+    // The trailing space can be the leading space of the next occurrence
+    index = haystack.indexOf(phrase, index + phrase.length - 1);
+  }
+  return count;
+}
+
+/**
+ * Concepts whose title or slug appears in the sources, most occurrences
+ * first (then title), at most MAX_CONCEPT_SUGGESTIONS.
+ */
+export function suggestConceptLinks(
+  sources: PromotionSource[],
+  concepts: ConceptCandidate[]
+): ConceptSuggestion[] {
+  const haystack = normalizeForMatch(
+    sources
+      .flatMap((source) => [source.title, source.excerpt, source.extractedText])
+      .filter((part): part is string => !!part)
+      .join("\n")
+  );
+  if (!haystack) return [];
+
+  const suggestions: ConceptSuggestion[] = [];
+  for (const concept of concepts) {
+    const titleCount = countOccurrences(haystack, normalizeForMatch(concept.title));
+    if (titleCount > 0) {
+      suggestions.push({ ...concept, matchedOn: "title", occurrences: titleCount });
+      continue;
+    }
+    const slugCount = countOccurrences(haystack, normalizeForMatch(concept.slug));
+    if (slugCount > 0) {
+      suggestions.push({ ...concept, matchedOn: "slug", occurrences: slugCount });
+    }
+  }
+
+  return suggestions
+    .sort((a, b) => b.occurrences - a.occurrences || a.title.localeCompare(b.title))
+    .slice(0, MAX_CONCEPT_SUGGESTIONS);
+}
@@ -0,0 +1,191 @@
+/**
+ * System Config — Typed per-project tunables
+ * Per prisma/schema.prisma (SystemConfig) and DATAFORSEO-INTEGRATION-MAP.md §5
+ *
+ * SystemConfig is global, not project-scoped. Per-project values use the
+ * JSON override convention:
+ *
+ *   { "default": 30, "overrides": { "<projectId>": 14 } }
+ *
+ * Resolution for a project:
+ *   1. overrides[projectId]   (source: "override")
+ *   2. default                (source: "default")
+ *   3. built-in definition    (source: "builtin") — also used when no row
+ *      exists or the stored value is malformed / out of bounds
+ *
+ * Only keys registered in CONFIG_DEFINITIONS can be read or written.
+ */
+import { prisma } from "@/lib/prisma";
+import type { Prisma } from "@prisma/client";
+
+export interface ConfigDefinition {
+  description: string;
+  builtin: number;
+  min: number;
+  max: number;
+  integer: boolean;
+}
+
+export const CONFIG_DEFINITIONS = {
+  audit_expiration_days: {
+    description: "Days until a draft created by POST /api/audits/run expires",
+    builtin: 30,
+    min: 1,
+    max: 365,
+    integer: true,
+  },
+  draft_artifact_expiration_days: {
+    description: "Days until a draft created by POST /api/draft-artifacts expires",
+    builtin: 30,
+    min: 1,
+    max: 365,
+    integer: true,
+  },
+  serp_snapshot_estimated_cost_usd: {
+    description: "Estimated cost returned by the POST /api/seo/serp-snapshot dry run",
+    builtin: 0.001,
+    min: 0,
+    max: 100,
+    integer: false,
+  },
+  draft_reply_max_count: {
+    description: "Maximum variants per POST /api/source-items/:id/draft-replies",
+    builtin: 5,
+    min: 1,
+    max: 20,
+    integer: true,
+  },
+  draft_reply_expiration_days: {
+    description: "Days until a generated draft reply expires",
+    builtin: 30,
+    min: 1,
+    max: 365,
+    integer: true,
+  },
+} as const satisfies Record<string, ConfigDefinition>;
+
+export type ConfigKey = keyof typeof CONFIG_DEFINITIONS;
+
+export const CONFIG_KEYS = Object.keys(CONFIG_DEFINITIONS) as ConfigKey[];
+
+export type ConfigSource = "override" | "default" | "builtin";
+
+export interface ResolvedConfig {
+  key: ConfigKey;
+  value: number;
+  source: ConfigSource;
+}
+
+/**
+ * Stored shape of SystemConfig.value for per-project keys.
+ */
+export interface ConfigOverrideValue {
+  default?: number;
+  overrides?: Record<string, number>;
+}
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export function isConfigKey(key: string): key is ConfigKey {
+  return Object.prototype.hasOwnProperty.call(CONFIG_DEFINITIONS, key);
+}
+
+/**
+ * Returns an error message when value is not acceptable for key, else null.
+ */
+export function validateConfigValue(key: ConfigKey, value: number): string | null {
+  const def: ConfigDefinition = CONFIG_DEFINITIONS[key];
+  if (!Number.isFinite(value)) {
+    return `${key} must be a finite number`;
+  }
+  if (def.integer && !Number.isInteger(value)) {
+    return `${key} must be an integer`;
+  }
+  if (value < def.min || value > def.max) {
+    return `${key} must be between ${def.min} and ${def.max}`;
+  }
+  return null;
+}
+
+function acceptable(key: ConfigKey, value: unknown): value is number {
+  return typeof value === "number" && validateConfigValue(key, value) === null;
+}
+
+/**
+ * Normalize a stored SystemConfig.value into the override convention,
+ * dropping anything that does not validate for the key.
+ */
+export function parseStoredConfig(key: ConfigKey, raw: unknown): ConfigOverrideValue {
+  const parsed: ConfigOverrideValue = {};
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return parsed;
+  }
+
+  const obj = raw as Record<string, unknown>;
+  if (acceptable(key, obj.default)) {
+    parsed.default = obj.default;
+  }
+
+  if (obj.overrides && typeof obj.overrides === "object" && !Array.isArray(obj.overrides)) {
+    const overrides: Record<string, number> = {};
+    for (const [projectId, value] of Object.entries(obj.overrides)) {
+      if (acceptable(key, value)) {
+        overrides[projectId] = value;
+      }
+    }
+    if (Object.keys(overrides).length > 0) {
+      parsed.overrides = overrides;
+    }
+  }
+
+  return parsed;
+}
+
+export function resolveStoredConfig(
+  key: ConfigKey,
+  stored: ConfigOverrideValue,
+  projectId: string
+): ResolvedConfig {
+  const override = stored.overrides?.[projectId];
+  if (override !== undefined) {
+    return { key, value: override, source: "override" };
+  }
+  if (stored.default !== undefined) {
+    return { key, value: stored.default, source: "default" };
+  }
+  return { key, value: CONFIG_DEFINITIONS[key].builtin, source: "builtin" };
+}
+
+/**
+ * Resolve several keys for a project in one query.
+ */
+export async function getProjectConfigs<K extends ConfigKey>(
+  keys: readonly K[],
+  projectId: string,
+  db: Db = prisma
+): Promise<Record<K, number>> {
+  const rows = await db.systemConfig.findMany({
+    where: { key: { in: [...keys] } },
+    select: { key: true, value: true },
+  });
+  const byKey = new Map(rows.map((r) => [r.key, r.value]));
+
+  const result = {} as Record<K, number>;
+  for (const key of keys) {
+    const stored = parseStoredConfig(key, byKey.get(key));
+    result[key] = resolveStoredConfig(key, stored, projectId).value;
+  }
+  return result;
+}
+
+/**
+ * Resolve a single key for a project.
+ */
+export async function getProjectConfig(
+  key: ConfigKey,
+  projectId: string,
+  db: Db = prisma
+): Promise<number> {
+  const values = await getProjectConfigs([key], projectId, db);
+  return values[key];
+}
@@ -34,6 +34,17 @@ export const VALID_SOURCE_ITEM_STATUSES = [
   "archived",
 ] as const;
 
+/**
+ * Triage transitions, from status → allowed target statuses.
+ * `used` is set by attaching or promoting a source, never by triage.
+ */
+export const SOURCE_ITEM_TRIAGE_TRANSITIONS: Record<string, string[]> = {
+  ingested: ["triaged", "archived"],
+  triaged: ["ingested", "archived"],
+  archived: ["ingested", "triaged"],
+  used: [],
+};
+
 export const VALID_CONTENT_ENTITY_TYPES = [
   "guide",
   "concept",
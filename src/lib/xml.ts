@@ -0,0 +1,21 @@
+/**
+ * Minimal XML helpers for the generated public documents
+ * (sitemaps, RSS/Atom feeds). No DOM, no dependencies.
+ */
+
+export const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>';
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+export function xmlResponse(body: string, contentType = "application/xml"): Response {
+  return new Response(body, {
+    headers: { "Content-Type": `${contentType}; charset=utf-8` },
+  });
+}
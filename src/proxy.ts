@@ -0,0 +1,37 @@
+/**
+ * Request Proxy — Path-prefixed project routing
+ *
+ * Mirrors every project-scoped API route under a slug prefix:
+ *
+ *   /api/projects/:slug/entities/...  →  /api/entities/...
+ *
+ * The slug is forwarded to the route handler in an internal request header
+ * and resolved by resolveProjectId() in lib/project.ts. Clients cannot set
+ * that header themselves: it is stripped from every incoming API request.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import {
+  PROJECT_PATH_SLUG_HEADER,
+  parseProjectPathPrefix,
+} from "@/lib/project-path";
+
+export function proxy(request: NextRequest) {
+  const headers = new Headers(request.headers);
+  headers.delete(PROJECT_PATH_SLUG_HEADER);
+
+  const prefixed = parseProjectPathPrefix(request.nextUrl.pathname);
+  if (!prefixed) {
+    return NextResponse.next({ request: { headers } });
+  }
+
+  headers.set(PROJECT_PATH_SLUG_HEADER, prefixed.slug);
+
+  const url = request.nextUrl.clone();
+  url.pathname = prefixed.path;
+
+  return NextResponse.rewrite(url, { request: { headers } });
+}
+
+export const config = {
+  matcher: "/api/:path*",
+};